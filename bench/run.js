@@ -0,0 +1,180 @@
+// bench/run.js - Parser throughput benchmark
+
+/**
+ * Compare the throughput of `parse()` and `tokenize()` with `JSON.parse` on
+ * generated documents
+ *
+ * Each document is generated from a seeded random source, then written as
+ * both Bring (with `stringify`) and JSON, so every run with the same options
+ * measures the same text. Run `npm run bench`, which builds first, or
+ * `node bench/run.js` against an existing build:
+ *
+ *   node bench/run.js [--size=<KB>] [--runs=<n>] [--seed=<n>] [--only=<name>]
+ */
+
+const { parse, stringify, tokenize } = require("../dist/index.js");
+
+const DEFAULTS = { size: 512, runs: 7, seed: 1, only: "" };
+
+function options(argv) {
+  const result = { ...DEFAULTS };
+  for (const arg of argv) {
+    const match = /^--(\w+)=(.*)$/.exec(arg);
+    if (!match || !(match[1] in DEFAULTS)) {
+      throw new Error(`Unknown option: ${arg}`);
+    }
+    result[match[1]] =
+      typeof DEFAULTS[match[1]] === "number" ? Number(match[2]) : match[2];
+  }
+  return result;
+}
+
+// mulberry32: small, fast and the same on every platform
+function random(seed) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const WORDS = [
+  "alpha",
+  "beta",
+  "gamma",
+  "delta",
+  "server",
+  "client",
+  "cache",
+  "region",
+  "timeout",
+  "retry",
+  "enabled",
+  "limit",
+  "path",
+  "user",
+  "group",
+  "token",
+];
+
+function generators(next) {
+  const int = (max) => Math.floor(next() * max);
+  const pick = (items) => items[int(items.length)];
+  const word = () => pick(WORDS);
+  const key = () => `${word()}_${int(100)}`;
+  const text = (words) => Array.from({ length: words }, word).join(" ");
+  const scalar = () => {
+    switch (int(5)) {
+      case 0:
+        return text(1 + int(4));
+      case 1:
+        return int(100000);
+      case 2:
+        return Math.round(next() * 1e6) / 1e3;
+      case 3:
+        return next() < 0.5;
+      default:
+        return null;
+    }
+  };
+  const object = (depth) => {
+    const result = {};
+    const keys = 3 + int(6);
+    for (let i = 0; i < keys; i++) {
+      result[key()] =
+        depth > 0 && next() < 0.3
+          ? object(depth - 1)
+          : next() < 0.1
+            ? Array.from({ length: int(6) }, scalar)
+            : scalar();
+    }
+    return result;
+  };
+
+  return {
+    // Nested settings with every kind of scalar
+    config: () => ({ [key()]: object(3) }),
+    // A list of flat records, the shape of exported data
+    records: () => ({
+      id: int(1e6),
+      name: text(2),
+      email: `${word()}@${word()}.example`,
+      active: next() < 0.5,
+      score: Math.round(next() * 1e4) / 100,
+      tags: Array.from({ length: int(4) }, word),
+    }),
+    // Long strings with escapes and non-ASCII text
+    strings: () => ({
+      title: text(5),
+      body: `${text(40)}\n"${text(3)}"\t${text(20)} é ✓ 😀\\ ${text(30)}`,
+    }),
+    // Numbers of every size
+    numbers: () =>
+      Array.from({ length: 32 }, () =>
+        next() < 0.5 ? int(1e9) - 5e8 : (next() - 0.5) * 10 ** int(12)
+      ),
+  };
+}
+
+/**
+ * Generate documents of about `size` KB of Bring text, one per shape
+ */
+function documents(size, seed) {
+  const shapes = generators(random(seed));
+  return Object.entries(shapes).map(([name, generate]) => {
+    const items = [];
+    let length = 0;
+    while (length < size * 1024) {
+      const item = generate();
+      items.push(item);
+      length += stringify(item).length;
+    }
+    const data = name === "config" ? Object.assign({}, ...items) : { items };
+    return { name, bring: stringify(data), json: JSON.stringify(data) };
+  });
+}
+
+/**
+ * The median time in milliseconds of `runs` calls, after one to warm up
+ */
+function time(run, runs) {
+  run();
+  const times = [];
+  for (let i = 0; i < runs; i++) {
+    const start = process.hrtime.bigint();
+    run();
+    times.push(Number(process.hrtime.bigint() - start) / 1e6);
+  }
+  times.sort((a, b) => a - b);
+  return times[Math.floor(times.length / 2)];
+}
+
+function main() {
+  const opts = options(process.argv.slice(2));
+  const rows = [];
+  for (const doc of documents(opts.size, opts.seed)) {
+    if (opts.only && doc.name !== opts.only) continue;
+    const json = time(() => JSON.parse(doc.json), opts.runs);
+    const bring = time(() => parse(doc.bring), opts.runs);
+    const tokens = time(() => tokenize(doc.bring), opts.runs);
+    const rate = (length, ms) => ((length / 1024 / 1024) * 1000) / ms;
+    rows.push({
+      document: doc.name,
+      "size KB": Math.round(doc.bring.length / 1024),
+      "JSON.parse MB/s": rate(doc.json.length, json).toFixed(1),
+      "parse MB/s": rate(doc.bring.length, bring).toFixed(1),
+      "tokenize MB/s": rate(doc.bring.length, tokens).toFixed(1),
+      "parse / JSON.parse": `${(bring / json).toFixed(1)}x`,
+    });
+  }
+
+  console.log(
+    `Node ${process.version}, seed ${opts.seed}, median of ${opts.runs} runs`
+  );
+  console.table(rows);
+}
+
+main();
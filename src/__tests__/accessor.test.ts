@@ -0,0 +1,122 @@
+// src/__tests__/accessor.test.ts
+import {
+  BringAccessError,
+  get,
+  getAttributes,
+  getBoolean,
+  getNumber,
+  getString,
+  getValue,
+  parse,
+} from "../index";
+
+describe("Accessors", () => {
+  const result = parse(`app = {
+    name = "api"
+    port = 8080 @min=1024 @env="PORT"
+    debug = false
+    database = { pool_size = 20 }
+  }
+  users = [
+    { name = "Ada", email = "ada@example.com" },
+    { name = "Grace" }
+  ]`);
+
+  test("get reads plain values by path", () => {
+    expect(get(result, "app.database")).toEqual({ pool_size: 20 });
+    expect(get(result, "users[0].email")).toBe("ada@example.com");
+    expect(get(result, ["users", 1, "name"])).toBe("Grace");
+    expect(getValue(result, "app.port")).toMatchObject({
+      type: "primitive",
+      value: 8080,
+    });
+  });
+
+  test("typed getters return matching values", () => {
+    expect(getNumber(result, "app.database.pool_size")).toBe(20);
+    expect(getString(result, "app.name")).toBe("api");
+    expect(getBoolean(result, "app.debug")).toBe(false);
+  });
+
+  test("fallbacks apply only to missing paths", () => {
+    expect(getNumber(result, "app.timeout", 30)).toBe(30);
+    expect(getString(result, "users[1].email", "none")).toBe("none");
+    expect(() => getNumber(result, "app.name", 1)).toThrow(
+      "Expected number at 'app.name', got string"
+    );
+  });
+
+  test("type mismatches report the path and source position", () => {
+    let error: BringAccessError | undefined;
+    try {
+      getBoolean(result, "app.port");
+    } catch (e) {
+      error = e as BringAccessError;
+    }
+
+    expect(error).toBeInstanceOf(BringAccessError);
+    expect(error?.path).toBe("app.port");
+    expect(error?.line).toBe(3);
+    expect(error?.column).toBe(12);
+    expect(error?.message).toBe(
+      "Expected boolean at 'app.port', got number at line 3, column 12"
+    );
+  });
+
+  test("missing paths say where the lookup stopped", () => {
+    expect(() => get(result, "app.database.host")).toThrow(
+      "Key 'host' not found in 'app.database'"
+    );
+    expect(() => get(result, "users[5].name")).toThrow(
+      "Index 5 is out of range for 'users' (length 2)"
+    );
+    expect(() => get(result, "app.name.first")).toThrow(
+      "Cannot read key 'first' of string 'app.name'"
+    );
+    expect(() => get(result, "app[0]")).toThrow("Cannot index object 'app'");
+    expect(() => get(result, "missing")).toThrow("Key 'missing' not found");
+  });
+
+  test("inherited properties are not keys", () => {
+    expect(() => get(result, "constructor")).toThrow(
+      "Key 'constructor' not found"
+    );
+    expect(() => get(result, "app.toString")).toThrow(
+      "Key 'toString' not found in 'app'"
+    );
+    expect(getString(result, "app.__proto__", "none")).toBe("none");
+  });
+
+  test("quoted keys may contain dots and brackets", () => {
+    const dotted = parse(`routes = { "api.v1" = { port = 80 }, "[x]" = 1 }`);
+
+    expect(get(dotted, 'routes."api.v1".port')).toBe(80);
+    expect(get(dotted, ["routes", "[x]"])).toBe(1);
+    expect(() => get(dotted, "routes.api.v1")).toThrow(
+      "Key 'api' not found in 'routes'"
+    );
+    expect(() => get(dotted, 'routes."[x]".y')).toThrow(
+      `Cannot read key 'y' of number 'routes."[x]"'`
+    );
+  });
+
+  test("malformed paths are rejected", () => {
+    expect(() => get(result, "app..name")).toThrow(
+      "Invalid path 'app..name': expected a key at character 5"
+    );
+    expect(() => get(result, "users[x]")).toThrow(
+      "Invalid path 'users[x]': expected an index such as [0] at character 6"
+    );
+    expect(() => get(result, "users[0]name")).toThrow(BringAccessError);
+    expect(() => getNumber(result, "app.", 1)).toThrow(BringAccessError);
+    expect(get(result, "users[0].name")).toBe("Ada");
+  });
+
+  test("getAttributes returns attributes by name", () => {
+    expect(getAttributes(result, "app.port")).toEqual({
+      min: 1024,
+      env: "PORT",
+    });
+    expect(getAttributes(result, "app.name")).toEqual({});
+  });
+});
@@ -0,0 +1,175 @@
+// src/__tests__/cli.test.ts
+import { generateTypes, parse } from "../index";
+import { CliIO, main } from "../cli";
+
+const schemas = `schema User {
+  id = number @required=true
+}`;
+
+describe("bring CLI", () => {
+  function memoryIO(files: Record<string, string>, stdin = "") {
+    const out: string[] = [];
+    const err: string[] = [];
+    const io: CliIO = {
+      stdout: (text) => out.push(text),
+      stderr: (text) => err.push(text),
+      readFile: (path) => {
+        if (!(path in files)) throw new Error(`File not found: ${path}`);
+        return files[path];
+      },
+      writeFile: (path, content) => {
+        files[path] = content;
+      },
+      readStdin: () => stdin,
+    };
+    return { io, files, out, err };
+  }
+
+  test("types prints or writes the generated interfaces", () => {
+    const { io, files, out } = memoryIO({ "user.bring": schemas });
+
+    expect(main(["types", "user.bring"], io)).toBe(0);
+    expect(out.join("")).toContain("export interface User {");
+
+    expect(main(["types", "user.bring", "-o", "user.ts"], io)).toBe(0);
+    expect(files["user.ts"]).toBe(generateTypes(parse(schemas)));
+  });
+
+  test("parse and convert read files or stdin", () => {
+    const source = `app = { name = "web", ports = [80, 443] }\n`;
+    const { io, out } = memoryIO({ "app.bring": source }, source);
+
+    expect(main(["parse", "app.bring"], io)).toBe(0);
+    expect(JSON.parse(out.pop()!)).toEqual({
+      app: { name: "web", ports: [80, 443] },
+    });
+
+    expect(main(["convert", "--to", "yaml"], io)).toBe(0);
+    expect(out.pop()).toBe(
+      "app:\n  name: web\n  ports:\n    - 80\n    - 443\n"
+    );
+
+    expect(main(["convert", "-", "--to", "bring"], io)).toBe(0);
+    expect(out.pop()).toBe(`app = {\n  name = "web"\n  ports = [80, 443]\n}\n`);
+    expect(main(["convert", "app.bring", "--to", "ini"], io)).toBe(2);
+  });
+
+  test("convert reads other formats by extension and prints warnings", () => {
+    const stdin = `port = 8080 @min=1024\nnone = null\n`;
+    const { io, out, err } = memoryIO(
+      {
+        "app.toml": `[server]\nport = 8080\ntimeout = 1979-05-27T07:32:00Z\n`,
+        "app.json": `{ "port": 8080, "@port": { "min": 1024 } }`,
+        "bad.yaml": "a: [1, 2\n",
+      },
+      stdin
+    );
+
+    expect(main(["convert", "app.toml", "--to", "bring"], io)).toBe(0);
+    expect(out.pop()).toBe(
+      "server = {\n  port = 8080\n  timeout = 1979-05-27T07:32:00Z\n}\n"
+    );
+
+    expect(main(["convert", "app.json", "--to", "xml"], io)).toBe(0);
+    expect(out.pop()).toContain('<port min="1024">8080</port>');
+
+    expect(main(["convert", "--from", "bring", "--to", "toml"], io)).toBe(0);
+    expect(out.pop()).toBe('port = 8080\n"@port" = { min = 1024 }\n');
+    expect(err).toEqual([
+      "<stdin>: warning: none: TOML has no null, the value was left out\n",
+    ]);
+
+    expect(main(["convert", "bad.yaml", "--to", "json"], io)).toBe(1);
+    expect(err.pop()).toMatch(/^bad\.yaml: Invalid YAML: .* at line \d+/);
+  });
+
+  test("validate prints file:line:col for every problem", () => {
+    const { io, err } = memoryIO({
+      "ok.bring": `${schemas}\nuser = { id = 1 } @schema="User"\n`,
+      "bad.bring": `user = { name = "x" } @schema="User"\nport = \nnext = 1\n`,
+      "schemas.bring": schemas,
+    });
+
+    expect(main(["validate", "ok.bring"], io)).toBe(0);
+    expect(err).toEqual([]);
+
+    expect(
+      main(["validate", "bad.bring", "--schema", "schemas.bring"], io)
+    ).toBe(1);
+    expect(err).toEqual([
+      "bad.bring:3:1: error: Unexpected character: n [unexpected-character]\n",
+      "bad.bring:1:8: error: user.id: Missing required key 'id' [required]\n",
+    ]);
+  });
+
+  test("validate names the schema file when it does not parse", () => {
+    const { io, err } = memoryIO({
+      "ok.bring": `user = { id = 1 } @schema="User"\n`,
+      "broken.bring": `schema User {\n  id = \n}`,
+    });
+
+    expect(main(["validate", "ok.bring", "--schema", "broken.bring"], io)).toBe(
+      1
+    );
+    expect(err).toHaveLength(1);
+    expect(err[0]).toMatch(/^broken\.bring: /);
+  });
+
+  test("fmt rewrites files or checks them", () => {
+    const { io, files, err } = memoryIO({
+      "a.bring": `name="web"`,
+      "b.bring": `name = "web"\n`,
+    });
+
+    expect(main(["fmt", "a.bring", "b.bring", "--check"], io)).toBe(1);
+    expect(err).toEqual(["a.bring: not formatted\n"]);
+
+    expect(main(["fmt", "a.bring", "b.bring"], io)).toBe(0);
+    expect(files["a.bring"]).toBe(`name = "web"\n`);
+    expect(main(["fmt", "--check", "a.bring"], io)).toBe(0);
+  });
+
+  test("fmt --check names stdin when it needs formatting", () => {
+    const { io, out, err } = memoryIO({}, `name="web"`);
+
+    expect(main(["fmt", "--check"], io)).toBe(1);
+    expect(main(["fmt", "-", "--check"], io)).toBe(1);
+    expect(err).toEqual([
+      "<stdin>: not formatted\n",
+      "<stdin>: not formatted\n",
+    ]);
+    expect(out).toEqual([]);
+  });
+
+  test("fmt keeps comments and takes layout options", () => {
+    const { io, out } = memoryIO({}, `# app\napp = { b = 1, a = 2 }\n`);
+
+    expect(main(["fmt", "--sort-keys", "--commas", "--indent", "4"], io)).toBe(
+      0
+    );
+    expect(out.join("")).toBe("# app\napp = {\n    a = 2,\n    b = 1\n}\n");
+    expect(main(["fmt", "--indent", "wide"], io)).toBe(2);
+  });
+
+  test("get prints the value at a path", () => {
+    const source = `app = { name = "web", ports = [80, 443], tls = { on = true } }`;
+    const { io, out, err } = memoryIO({ "app.bring": source });
+
+    expect(main(["get", "app.bring", "app.name"], io)).toBe(0);
+    expect(main(["get", "app.bring", "app.ports[1]"], io)).toBe(0);
+    expect(main(["get", "app.bring", "app.tls"], io)).toBe(0);
+    expect(out).toEqual(["web\n", "443\n", '{"on":true}\n']);
+
+    expect(main(["get", "app.bring", "app.missing"], io)).toBe(1);
+    expect(err[0]).toContain("Key 'missing' not found");
+  });
+
+  test("reports errors with an exit code", () => {
+    const { io, err } = memoryIO({ "bad.bring": "a = {" });
+
+    expect(main(["types", "bad.bring"], io)).toBe(1);
+    expect(err.join("")).toMatch(/^bad\.bring: /);
+    expect(main(["types"], io)).toBe(2);
+    expect(main(["nope"], io)).toBe(2);
+  });
+});
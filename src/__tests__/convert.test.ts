@@ -0,0 +1,337 @@
+// src/__tests__/convert.test.ts
+import {
+  BringConvertError,
+  ConversionWarning,
+  fromJSON,
+  fromTOML,
+  fromXML,
+  fromYAML,
+  parse,
+  toObject,
+  toTOML,
+  toXML,
+  toYAML,
+} from "../index";
+
+const source = `name = "api" @description="Service name"
+port = 8080 @min=1024
+debug = false
+started = 2024-01-15T10:00:00Z
+tags = ["web", "internal"]
+owner = null
+db = { host = "localhost", ports = [5432, 5433] }
+`;
+
+describe("conversion", () => {
+  function collect() {
+    const warnings: ConversionWarning[] = [];
+    return { warnings, onWarning: (w: ConversionWarning) => warnings.push(w) };
+  }
+
+  describe("JSON", () => {
+    test("reads `@key` entries as attributes", () => {
+      const result = fromJSON(
+        `{ "port": 8080, "@port": { "min": 1024 }, "list": [1, "a", null] }`
+      );
+
+      expect(toObject(result)).toEqual({ port: 8080, list: [1, "a", null] });
+      expect((result as any).port.attributes).toEqual([
+        { name: "min", value: 1024 },
+      ]);
+    });
+
+    test("keeps `@key` entries without a sibling as data", () => {
+      const result = fromJSON(
+        `{ "@constructor": { "a": 1 }, "@toString": 2, "@b": { "c": 3 } }`
+      );
+
+      expect(toObject(result)).toEqual({
+        "@constructor": { a: 1 },
+        "@toString": 2,
+        "@b": { c: 3 },
+      });
+      expect((Object as any).attributes).toBeUndefined();
+    });
+
+    test("reports syntax errors with their position", () => {
+      expect(() => fromJSON(`{\n  "a": 1\n  "b": 2\n}`)).toThrow(
+        "Invalid JSON: Expected ',' or '}' after property value at line 3, column 3"
+      );
+      expect(() => fromJSON(`[1, 2]`)).toThrow(BringConvertError);
+    });
+  });
+
+  describe("YAML", () => {
+    test("reads block and flow collections and every scalar style", () => {
+      const result = fromYAML(`# settings
+name: api
+version: 1.2
+enabled: true
+nothing: ~
+quoted: 'it''s'
+escaped: "tab\\there"
+since: 2024-01-15
+servers:
+  - host: a
+    port: 80
+  - [x, y]
+limits: { cpu: 2, memory: 0x10 }
+script: |
+  echo one
+  echo two
+summary: >-
+  folded
+  text
+`);
+
+      expect(toObject(result)).toEqual({
+        name: "api",
+        version: 1.2,
+        enabled: true,
+        nothing: null,
+        quoted: "it's",
+        escaped: "tab\there",
+        since: new Date("2024-01-15"),
+        servers: [{ host: "a", port: 80 }, ["x", "y"]],
+        limits: { cpu: 2, memory: 16 },
+        script: "echo one\necho two\n",
+        summary: "folded text",
+      });
+      expect((result as any).since.kind).toBe("date");
+    });
+
+    test("resolves anchors, aliases and merge keys", () => {
+      const result = fromYAML(`base: &base
+  host: localhost
+  port: 80
+dev:
+  <<: *base
+  port: 8080
+copy: *base
+`);
+
+      expect(toObject(result)).toEqual({
+        base: { host: "localhost", port: 80 },
+        dev: { host: "localhost", port: 8080 },
+        copy: { host: "localhost", port: 80 },
+      });
+    });
+
+    test("round-trips through toYAML", () => {
+      const result = parse(source);
+      const yaml = toYAML(result);
+
+      expect(yaml).toContain(`port: 8080\n"@port":\n  min: 1024\n`);
+      expect(fromYAML(yaml)).toEqual(result);
+    });
+
+    test("rejects what it cannot read", () => {
+      expect(() => fromYAML("a: [1, 2\n")).toThrow(
+        "Invalid YAML: Expected ',' or ']' at line 2, column 1"
+      );
+      expect(() => fromYAML("a: 1\n---\nb: 2\n")).toThrow(
+        "Multiple documents are not supported"
+      );
+      expect(() => fromYAML("- 1\n- 2\n")).toThrow(
+        "the document must be a mapping of keys, not a list"
+      );
+      expect(fromYAML("")).toEqual({});
+    });
+  });
+
+  describe("TOML", () => {
+    test("reads tables, arrays of tables and every value type", () => {
+      const result = fromTOML(`title = "Example"
+owner.name = "Tom"
+
+[database]
+ports = [ 8000, 8001,
+  8002 ]
+limits = { cpu = 2, memory = 1_024 }
+path = 'C:\\data'
+text = """
+Roses \\
+  are red"""
+started = 1979-05-27T07:32:00Z
+
+[[products]]
+name = "Hammer"
+
+[[products]]
+name = "Nail"
+`);
+
+      expect(toObject(result)).toEqual({
+        title: "Example",
+        owner: { name: "Tom" },
+        database: {
+          ports: [8000, 8001, 8002],
+          limits: { cpu: 2, memory: 1024 },
+          path: "C:\\data",
+          text: "Roses are red",
+          started: new Date("1979-05-27T07:32:00Z"),
+        },
+        products: [{ name: "Hammer" }, { name: "Nail" }],
+      });
+    });
+
+    test("round-trips through toTOML", () => {
+      const result = parse(source.replace("owner = null\n", ""));
+      const toml = toTOML(result);
+
+      expect(toml).toBe(`name = "api"
+"@name" = { description = "Service name" }
+port = 8080
+"@port" = { min = 1024 }
+debug = false
+started = 2024-01-15T10:00:00Z
+tags = ["web", "internal"]
+
+[db]
+host = "localhost"
+ports = [5432, 5433]
+`);
+      expect(fromTOML(toml)).toEqual(result);
+    });
+
+    test("rejects invalid documents", () => {
+      expect(() => fromTOML("a = 1\na = 2\n")).toThrow(
+        "Invalid TOML: Duplicate key 'a' at line 2, column 6"
+      );
+      expect(() => fromTOML("[a]\n[a]\n")).toThrow(
+        "Table 'a' is already defined"
+      );
+      expect(() => fromTOML("a = 1 2\n")).toThrow(
+        "Expected a new line after value"
+      );
+    });
+  });
+
+  describe("XML", () => {
+    test("maps elements, lists and attributes", () => {
+      const result = fromXML(`<?xml version="1.0"?>
+<!-- settings -->
+<config>
+  <name lang="en">Tom &amp; Co</name>
+  <port min="1024">8080</port>
+  <tags><item>a</item><item>b</item></tags>
+  <server>one</server>
+  <server>two</server>
+  <owner/>
+  <raw><![CDATA[<b>bold</b>]]></raw>
+</config>`);
+
+      expect(toObject(result)).toEqual({
+        name: "Tom & Co",
+        port: 8080,
+        tags: ["a", "b"],
+        server: ["one", "two"],
+        owner: null,
+        raw: "<b>bold</b>",
+      });
+      expect((result as any).port.attributes).toEqual([
+        { name: "min", value: 1024 },
+      ]);
+    });
+
+    test("round-trips through toXML", () => {
+      const result = parse(source);
+      const xml = toXML(result, { root: "service" });
+
+      expect(xml).toBe(`<?xml version="1.0" encoding="UTF-8"?>
+<service>
+  <name description="Service name">api</name>
+  <port min="1024">8080</port>
+  <debug>false</debug>
+  <started>2024-01-15T10:00:00Z</started>
+  <tags>
+    <item>web</item>
+    <item>internal</item>
+  </tags>
+  <owner/>
+  <db>
+    <host>localhost</host>
+    <ports>
+      <item>5432</item>
+      <item>5433</item>
+    </ports>
+  </db>
+</service>
+`);
+      expect(fromXML(xml)).toEqual(result);
+    });
+
+    test("rejects malformed documents", () => {
+      expect(() => fromXML("<a><b></a>")).toThrow(
+        "Invalid XML: Expected </b>, found </a> at line 1, column 10"
+      );
+      expect(() => fromXML("<a>&nbsp;</a>")).toThrow("Unknown entity");
+    });
+  });
+
+  describe("warnings", () => {
+    test("report everything a format cannot hold", () => {
+      const result = parse(`schema S { id = number }
+timeout = 30s
+list = [1, null]
+text = "42"
+empty = []
+`);
+      (result as any).list.items[0].attributes = [{ name: "x", value: 1 }];
+
+      const yaml = collect();
+      toYAML(result, yaml);
+      expect(yaml.warnings).toEqual([
+        { path: "", message: "Schema 'S' has no YAML equivalent" },
+        { path: "list[0]", message: "Attributes of list items were left out" },
+        {
+          path: "timeout",
+          message: "duration 30s was written as 30000 milliseconds",
+        },
+      ]);
+
+      const toml = collect();
+      expect(toTOML(result, toml)).toBe(
+        `timeout = 30000\nlist = [1]\ntext = "42"\nempty = []\n`
+      );
+      expect(toml.warnings.map((w) => w.path)).toEqual([
+        "",
+        "list[0]",
+        "timeout",
+        "list[1]",
+      ]);
+
+      const xml = collect();
+      toXML(result, xml);
+      expect(xml.warnings.slice(1)).toEqual([
+        { path: "text", message: `"42" will read back as number` },
+        {
+          path: "empty",
+          message: "Empty list will read back as an empty string",
+        },
+      ]);
+    });
+
+    test("report lossy input", () => {
+      const yaml = collect();
+      fromYAML("a: 1\na: 2\nb: !custom x\n", yaml);
+      expect(yaml.warnings).toEqual([
+        { path: "a", message: "Duplicate key 'a', keeping the last value" },
+        {
+          path: "b",
+          message: "Tag '!custom' is not supported and was ignored",
+        },
+      ]);
+
+      const xml = collect();
+      fromXML(`<r id="1"><a>text<b/></a></r>`, xml);
+      expect(xml.warnings).toEqual([
+        {
+          path: "",
+          message: "Attributes of the document element <r> were left out",
+        },
+        { path: "a", message: "Text next to child elements was left out" },
+      ]);
+    });
+  });
+});
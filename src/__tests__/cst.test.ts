@@ -0,0 +1,197 @@
+// src/__tests__/cst.test.ts
+import { BringParser, parse, parseDocument, toObject } from "../index";
+
+const source = `# Package manifest
+package = {
+    # Published name
+    name = "http-server"
+    version = '2.3.0' # bumped by CI
+    keywords = ["http", "server"]
+
+    scripts = {
+        build = "tsc"
+    }
+}
+
+# Shared settings
+settings = { debug = false, level = 2 }
+`;
+
+describe("Concrete syntax tree", () => {
+  describe("Parsing", () => {
+    test("is only built in cst mode", () => {
+      const plain = new BringParser(source);
+      plain.parse();
+      expect(plain.getSyntaxTree()).toBeUndefined();
+
+      const parser = new BringParser(source, { cst: true });
+      const result = parser.parse();
+      expect(result).toEqual(parse(source));
+      expect(parser.getSyntaxTree()?.kind).toBe("document");
+    });
+
+    test("records spans, quotes and commas", () => {
+      const tree = parseDocument(source).syntaxTree;
+      const settings = tree.entries[1];
+
+      expect(settings.kind).toBe("entry");
+      if (settings.kind !== "entry" || settings.value.kind !== "object") {
+        throw new Error("expected an object entry");
+      }
+      expect(source.substring(settings.start, settings.end)).toBe(
+        "settings = { debug = false, level = 2 }"
+      );
+      expect(settings.value.entries[0].comma).not.toBeNull();
+      expect(settings.value.entries[1].comma).toBeNull();
+
+      const pkg = tree.entries[0];
+      if (pkg.kind !== "entry" || pkg.value.kind !== "object") {
+        throw new Error("expected an object entry");
+      }
+      const version = pkg.value.entries[1];
+      expect(version.value.kind === "scalar" && version.value.quote).toBe("'");
+    });
+
+    test("attaches comments to nodes", () => {
+      const tree = parseDocument(source).syntaxTree;
+
+      expect(tree.entries[0].leadingComments.map((c) => c.text)).toEqual([
+        " Package manifest",
+      ]);
+      expect(tree.entries[1].leadingComments.map((c) => c.text)).toEqual([
+        " Shared settings",
+      ]);
+
+      const pkg = tree.entries[0];
+      if (pkg.kind !== "entry" || pkg.value.kind !== "object") {
+        throw new Error("expected an object entry");
+      }
+      const [name, version] = pkg.value.entries;
+      expect(name.leadingComments[0].text).toBe(" Published name");
+      expect(version.trailingComment?.text).toBe(" bumped by CI");
+    });
+  });
+
+  describe("Editing", () => {
+    test("setValue only changes the edited span", () => {
+      const doc = parseDocument(source).setValue("package.version", "2.4.0");
+
+      expect(doc.text).toBe(
+        source.replace("version = '2.3.0'", "version = '2.4.0'")
+      );
+      expect(toObject(doc.result).package.version).toBe("2.4.0");
+    });
+
+    test("setValue indents nested values and inserts missing keys", () => {
+      const doc = parseDocument(source)
+        .setValue("package.scripts", { build: "tsc", test: "jest" })
+        .setValue("settings.verbose", true);
+
+      expect(doc.text).toContain(
+        `    scripts = {\n        build = "tsc"\n        test = "jest"\n    }\n`
+      );
+      expect(doc.text).toContain(
+        "settings = { debug = false, level = 2, verbose = true }"
+      );
+    });
+
+    test("deleteKey removes the entry with its comments", () => {
+      const doc = parseDocument(source)
+        .deleteKey("package.name")
+        .deleteKey("package.version")
+        .deleteKey("settings.debug");
+
+      expect(doc.text).not.toContain("Published name");
+      expect(doc.text).not.toContain("bumped by CI");
+      expect(doc.text).toContain("settings = { level = 2 }");
+      expect(doc.text).toContain(
+        "# Package manifest\npackage = {\n    keywords"
+      );
+    });
+
+    test("deleteKey removes array items", () => {
+      const doc = parseDocument(source).deleteKey("package.keywords[0]");
+
+      expect(doc.text).toContain('keywords = ["server"]');
+    });
+
+    test("deleteKey removes the separator before a last inline entry", () => {
+      const doc = parseDocument("a = { x = 1, y = 2 }\nb = [1, 2,  3]\n")
+        .deleteKey("a.y")
+        .deleteKey("b[2]")
+        .deleteKey("b[0]");
+
+      expect(doc.text).toBe("a = { x = 1 }\nb = [2]\n");
+      expect(parseDocument("c = { z = 1 }").deleteKey("c.z").text).toBe(
+        "c = { }"
+      );
+    });
+
+    test("insertKey follows the sibling layout", () => {
+      const doc = parseDocument(source)
+        .insertKey("package.license", "MIT", { after: "version" })
+        .insertKey("settings.mode", "fast", { before: "level" })
+        .insertKey("extra", { enabled: true });
+
+      expect(doc.text).toContain(
+        `    version = '2.3.0' # bumped by CI\n    license = "MIT"\n    keywords`
+      );
+      expect(doc.text).toContain(
+        'settings = { debug = false, mode = "fast", level = 2 }'
+      );
+      expect(doc.text.endsWith("extra = {\n    enabled = true\n}\n")).toBe(
+        true
+      );
+    });
+
+    test("insertKey fills empty objects and rejects existing keys", () => {
+      const doc = parseDocument("app = {}\n").insertKey("app.port", 8080);
+
+      expect(doc.text).toBe("app = {\n  port = 8080\n}\n");
+      expect(() => doc.insertKey("app.port", 1)).toThrow("already exists");
+    });
+
+    test("edits dotted keys and sections", () => {
+      const doc = parseDocument(
+        `app.name = "web"\n\n[db]\nhost = "localhost" # primary\n`
+      )
+        .setValue("app.name", "api")
+        .setValue("db.host", "db.internal")
+        .insertKey("app.port", 8080)
+        .insertKey("db.port", 5432)
+        .insertKey("region", "eu");
+
+      expect(doc.text).toBe(
+        `app.name = "api"\napp.port = 8080\nregion = "eu"\n\n[db]\nhost = "db.internal" # primary\nport = 5432\n`
+      );
+      expect(toObject(doc.result)).toEqual({
+        app: { name: "api", port: 8080 },
+        region: "eu",
+        db: { host: "db.internal", port: 5432 },
+      });
+      expect(doc.deleteKey("db.host").text).not.toContain("primary");
+    });
+
+    test("setAttribute replaces or appends attributes", () => {
+      const doc = parseDocument(`port = 8080 @min=1024 # listen port\n`)
+        .setAttribute("port", "min", 1)
+        .setAttribute("port", "env", "PORT");
+
+      expect(doc.text).toBe(`port = 8080 @min=1 @env="PORT" # listen port\n`);
+    });
+
+    test("setAttribute writes structured values", () => {
+      const doc = parseDocument(`role = "user" @enum="admin,user"\n`)
+        .setAttribute("role", "enum", ["admin", "user"])
+        .setAttribute("role", "meta", { since: 2 });
+
+      expect(doc.text).toBe(
+        `role = "user" @enum=["admin", "user"] @meta={ since = 2 }\n`
+      );
+      expect((doc.result.role as any).attributes[0].value).toEqual([
+        "admin",
+        "user",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,266 @@
+// src/__tests__/format.test.ts
+import { BringParseError, format, parse } from "../index";
+
+const messy = `# Service config
+include   "base.bring"
+
+
+name="api"   @description =  "Service name"
+port @min=1 = 8080 # listen port
+tags = [ "a","b" , 'c', ]
+server = { host = "0.0.0.0", port = 80 }
+nested = {   # inline note
+    deep = {
+      x = 1,
+      y = [ { a = 1 }, { b = 2 } ]
+
+
+    }
+  # trailing in nested
+}
+empty = {   }
+schema User {
+    id =   number   @min=1
+    name? = string|null
+    tags = ( string | number )[]
+  address = {
+      street = string # the street
+    }
+}
+
+[db]   # database
+host = "localhost"
+  port = 5432
+# end of file
+`;
+
+const formatted = `# Service config
+include "base.bring"
+
+name = "api" @description="Service name"
+port = 8080 @min=1 # listen port
+tags = ["a", "b", 'c']
+server = {
+  host = "0.0.0.0"
+  port = 80
+}
+nested = { # inline note
+  deep = {
+    x = 1
+    y = [
+      {
+        a = 1
+      }
+      {
+        b = 2
+      }
+    ]
+  }
+  # trailing in nested
+}
+empty = {}
+schema User {
+  id = number @min=1
+  name? = string | null
+  tags = (string | number)[]
+  address = {
+    street = string # the street
+  }
+}
+
+[db] # database
+host = "localhost"
+port = 5432
+# end of file
+`;
+
+describe("format", () => {
+  test("writes the canonical layout", () => {
+    expect(format(messy)).toBe(formatted);
+  });
+
+  test("is idempotent", () => {
+    expect(format(formatted)).toBe(formatted);
+
+    const options = { indent: 4, commas: true, sortKeys: true };
+    const once = format(messy, options);
+    expect(format(once, options)).toBe(once);
+  });
+
+  test("never changes the parsed data", () => {
+    const strip = (source: string) =>
+      parse(source.replace(/^include .*$/m, ""));
+
+    expect(strip(format(messy))).toEqual(strip(messy));
+    expect(
+      strip(format(messy, { commas: true, sortKeys: true, indent: "\t" }))
+    ).toEqual(strip(messy));
+  });
+
+  test("keeps multi-line strings as written", () => {
+    const source = `text = """
+  indented
+    more"""
+list = [
+  """a
+ b""" # first
+  "c"
+]
+`;
+
+    expect(format(source)).toBe(source);
+  });
+
+  test("applies the comma policy to multi-line blocks", () => {
+    const source = `a = { x = 1, y = [{ z = 2 }, 3] }\nb = [1, 2]\n`;
+
+    expect(format(source, { commas: true })).toBe(`a = {
+  x = 1,
+  y = [
+    {
+      z = 2
+    },
+    3
+  ]
+}
+b = [1, 2]
+`);
+  });
+
+  test("sorts keys only when asked", () => {
+    const source = `b = 1
+a = { d = 1, c = 2 }
+schema S {
+  z = string
+  y = number
+}
+
+[section]
+b = 1
+a = 2
+`;
+
+    expect(format(source, { sortKeys: true })).toBe(`schema S {
+  z = string
+  y = number
+}
+a = {
+  c = 2
+  d = 1
+}
+b = 1
+
+[section]
+a = 2
+b = 1
+`);
+    expect(format(source)).toBe(
+      source.replace("{ d = 1, c = 2 }", "{\n  d = 1\n  c = 2\n}")
+    );
+  });
+
+  test("keeps the blank line between comments and their entry", () => {
+    const source = `# header
+
+# about x
+x = 1
+
+# about y
+
+y = 2
+`;
+
+    expect(format(source)).toBe(source);
+  });
+
+  test("never reorders keys in a way that changes the data", () => {
+    const sources = [
+      "b = { y = 1 }\na.x = 1\na = { y = 2 }\n",
+      "c = 1\nb = 1\nb = 2\na = 3\n",
+      "z.y = 1\nz = 2\n",
+      "[b]\nk = 1\n[a]\nk = 2\n[b]\nk = 3\n",
+      "[b]\nk = 1\n[a.x]\nk = 2\n[a]\nx = 3\n",
+    ];
+
+    for (const source of sources) {
+      expect(parse(format(source, { sortKeys: true }))).toEqual(parse(source));
+    }
+    expect(format("c = 1\nb = 1\nb = 2\na = 3\n", { sortKeys: true })).toBe(
+      "a = 3\nb = 1\nb = 2\nc = 1\n"
+    );
+  });
+
+  test("keeps the blank lines between sorted sections", () => {
+    const source = `[b]
+k = 1
+
+# about a
+[a]
+k = 2
+`;
+
+    expect(format(source, { sortKeys: true })).toBe(`# about a
+[a]
+k = 2
+
+[b]
+k = 1
+`);
+  });
+
+  test("writes inline object types like schema blocks", () => {
+    expect(format("schema S {\n  b = {c=number,d=string}\n}\n")).toBe(
+      "schema S {\n  b = {\n    c = number\n    d = string\n  }\n}\n"
+    );
+    expect(format("schema S {\n  b = {c=number\n,d=string}\n}\n")).toBe(
+      "schema S {\n  b = {\n    c = number\n    d = string\n  }\n}\n"
+    );
+
+    const source = `schema S {
+  a = {  # open
+    x = {y=number # deep
+ }[]  |null
+      # lone
+  }? @required=true
+  e = {}
+}
+`;
+    expect(format(source)).toBe(`schema S {
+  a = { # open
+    x = {
+      y = number # deep
+    }[] | null
+    # lone
+  }? @required=true
+  e = {}
+}
+`);
+  });
+
+  test("keeps a blank line after a section header", () => {
+    expect(format("[sec]\n\nk = 1")).toBe("[sec]\n\nk = 1\n");
+    expect(format("[sec] # note\n\n# about k\nk = 1\n")).toBe(
+      "[sec] # note\n\n# about k\nk = 1\n"
+    );
+    expect(format("[sec]\nk = 1\n")).toBe("[sec]\nk = 1\n");
+  });
+
+  test("writes attribute values on one line", () => {
+    const source = `size = 3 @range={ min=1,
+  max=5 } @tags=[ "a" ]\n`;
+
+    expect(format(source)).toBe(
+      `size = 3 @range={ min = 1, max = 5 } @tags=["a"]\n`
+    );
+  });
+
+  test("handles empty documents and comment-only blocks", () => {
+    expect(format("")).toBe("");
+    expect(format("\n\n  \n")).toBe("");
+    expect(format("a = {\n\n   # todo\n\n}")).toBe("a = {\n  # todo\n}\n");
+  });
+
+  test("rejects invalid source", () => {
+    expect(() => format("a = {")).toThrow(BringParseError);
+  });
+});
@@ -0,0 +1,125 @@
+// src/__tests__/interpolate.test.ts
+import {
+  parse,
+  interpolate,
+  toObject,
+  BringInterpolationError,
+} from "../index";
+
+describe("interpolate", () => {
+  test("resolves references to other keys", () => {
+    const result = parse(`
+      app = {
+        host = "example.com"
+        port = 8443
+        url = "https://\${app.host}:\${app.port}/api"
+      }
+      servers = [{ name = "primary" }]
+      primary = "\${servers[0].name}"
+    `);
+
+    const obj = toObject(interpolate(result));
+
+    expect(obj.app.url).toBe("https://example.com:8443/api");
+    expect(obj.primary).toBe("primary");
+  });
+
+  test("keeps the type of whole-string references", () => {
+    const result = parse(`
+      defaults = { port = 80, tags = ["a", "b"] }
+      port = "\${defaults.port}"
+      tags = "\${defaults.tags}"
+    `);
+
+    const obj = toObject(interpolate(result));
+
+    expect(obj.port).toBe(80);
+    expect(obj.tags).toEqual(["a", "b"]);
+  });
+
+  test("keeps the kind of referenced typed scalars", () => {
+    const result = interpolate(
+      parse(`a = 30s\nb = "\${a}"\nc = "\${a} total"`)
+    );
+
+    expect(result.b).toMatchObject({ value: "30s", kind: "duration" });
+    expect(toObject(result)).toEqual({ a: 30000, b: 30000, c: "30s total" });
+  });
+
+  test("follows chained references", () => {
+    const result = parse(`
+      base = "/srv"
+      data = "\${base}/data"
+      cache = "\${data}/cache"
+    `);
+
+    expect(toObject(interpolate(result)).cache).toBe("/srv/data/cache");
+  });
+
+  test("reads environment variables", () => {
+    const result = parse(`home = "\${env:HOME_DIR}/app"`);
+
+    const obj = toObject(interpolate(result, { env: { HOME_DIR: "/home/u" } }));
+
+    expect(obj.home).toBe("/home/u/app");
+    expect(() => interpolate(result, { env: {} })).toThrow(
+      "Environment variable 'HOME_DIR' is not set"
+    );
+  });
+
+  test("can be disabled for literal strings", () => {
+    const result = parse(`
+      price = "$\${amount}"
+      template = "\${name}" @interpolate=false
+    `);
+
+    const obj = toObject(interpolate(result));
+
+    expect(obj.price).toBe("\${amount}");
+    expect(obj.template).toBe("\${name}");
+  });
+
+  test("reports unknown references with the referencing line", () => {
+    const result = parse(`
+      app = {
+        url = "http://\${app.hostname}"
+      }
+    `);
+
+    try {
+      interpolate(result);
+      throw new Error("Should have thrown an error");
+    } catch (error) {
+      expect(error).toBeInstanceOf(BringInterpolationError);
+      const interpolationError = error as BringInterpolationError;
+      expect(interpolationError.path).toBe("app.url");
+      expect(interpolationError.reference).toBe("app.hostname");
+      expect(interpolationError.line).toBe(3);
+    }
+  });
+
+  test("does not resolve inherited properties as references", () => {
+    for (const reference of ["app.constructor", "toString", "app.__proto__"]) {
+      const result = parse(`app = { name = "api" }\nx = "\${${reference}}"`);
+
+      expect(() => interpolate(result)).toThrow(
+        `Unknown reference '${reference}'`
+      );
+    }
+    expect(() => interpolate(parse(`x = "\${app..name}"`))).toThrow(
+      BringInterpolationError
+    );
+  });
+
+  test("detects reference cycles", () => {
+    const result = parse(`
+      a = "\${b}"
+      b = "x\${c}"
+      c = "\${a}"
+    `);
+
+    expect(() => interpolate(result)).toThrow(
+      "Circular reference a -> b -> c -> a"
+    );
+  });
+});
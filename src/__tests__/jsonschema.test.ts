@@ -0,0 +1,231 @@
+// src/__tests__/jsonschema.test.ts
+import {
+  BringSchema,
+  jsonSchemaToBring,
+  parse,
+  schemaToJSONSchema,
+} from "../index";
+
+const source = `
+schema User {
+  id = number @required=true @min=1
+  username = string @required=true @minLength=3 @maxLength=20
+  email = string @format="email"
+  homepage = string @format="url"
+  version = string @format="semver"
+  role = string @enum=["admin", "user"] @default="user"
+  limits = object @default={ rps = 10 }
+  tags = array @maxLength=5
+  address = Address
+  friends = User[]
+  nickname = string | null
+  scores = (number | string)[]
+}
+
+schema Address {
+  city = string @required=true
+}
+`;
+
+describe("JSON Schema", () => {
+  const result = parse(source);
+  const user = result["schema:User"] as BringSchema;
+
+  test("exports rules and attributes as keywords", () => {
+    const { schema, issues } = schemaToJSONSchema(user, { schemas: result });
+
+    expect(issues).toEqual([]);
+    expect(schema).toEqual({
+      $schema: "https://json-schema.org/draft/2020-12/schema",
+      title: "User",
+      type: "object",
+      properties: {
+        id: { type: "number", minimum: 1 },
+        username: { type: "string", minLength: 3, maxLength: 20 },
+        email: { type: "string", format: "email" },
+        homepage: { type: "string", format: "uri", pattern: "^https?://" },
+        version: {
+          type: "string",
+          pattern: expect.stringContaining("\\d+\\.\\d+"),
+        },
+        role: { type: "string", enum: ["admin", "user"], default: "user" },
+        tags: { type: "array", maxItems: 5 },
+        limits: { type: "object", default: { rps: 10 } },
+        address: { $ref: "#/$defs/Address" },
+        friends: { type: "array", items: { $ref: "#" } },
+        nickname: { type: ["string", "null"] },
+        scores: { type: "array", items: { type: ["number", "string"] } },
+      },
+      required: ["id", "username"],
+      $defs: {
+        Address: {
+          type: "object",
+          properties: { city: { type: "string" } },
+          required: ["city"],
+        },
+      },
+    });
+  });
+
+  test("round-trips through JSON Schema", () => {
+    const { schema } = schemaToJSONSchema(user, { schemas: result });
+    const { schemas, issues } = jsonSchemaToBring(schema);
+
+    expect(issues).toEqual([]);
+    expect(schemas.map((item) => item.name)).toEqual(["User", "Address"]);
+    for (const imported of schemas) {
+      const original = result[`schema:${imported.name}`] as BringSchema;
+      expect(
+        imported.rules.map(({ key, type, attributes }) => ({
+          key,
+          type,
+          attributes: [...attributes].sort((a, b) =>
+            a.name.localeCompare(b.name)
+          ),
+        }))
+      ).toEqual(
+        original.rules.map(({ key, type, attributes }) => ({
+          key,
+          type,
+          attributes: [...attributes].sort((a, b) =>
+            a.name.localeCompare(b.name)
+          ),
+        }))
+      );
+    }
+  });
+
+  test("reads enum values as the types a rule allows", () => {
+    const doc = parse(`schema Limits {
+  retries = number | null @enum="1, 3, null"
+  verbose = boolean @enum=["true", "false"]
+  level = string | number @enum="1,high"
+}`);
+    const { schema } = schemaToJSONSchema(doc["schema:Limits"] as BringSchema);
+
+    expect(schema.properties).toMatchObject({
+      retries: { enum: [1, 3, null] },
+      verbose: { enum: [true, false] },
+      level: { enum: ["1", "high"] },
+    });
+  });
+
+  test("imports nested objects as their own schemas", () => {
+    const { schemas } = jsonSchemaToBring({
+      title: "order",
+      type: "object",
+      properties: {
+        customer: {
+          type: "object",
+          properties: { name: { type: "string" } },
+          required: ["name"],
+        },
+        lines: {
+          type: "array",
+          minItems: 1,
+          items: {
+            type: "object",
+            properties: { sku: { type: "string", pattern: "^[A-Z]+$" } },
+          },
+        },
+      },
+    });
+
+    expect(schemas.map((schema) => schema.name)).toEqual([
+      "Order",
+      "OrderCustomer",
+      "OrderLines",
+    ]);
+    expect(
+      schemas[0].rules.map(({ key, type, attributes }) => ({
+        key,
+        type,
+        attributes,
+      }))
+    ).toEqual([
+      { key: "customer", type: "OrderCustomer", attributes: [] },
+      {
+        key: "lines",
+        type: "OrderLines[]",
+        attributes: [{ name: "minLength", value: 1 }],
+      },
+    ]);
+    expect(schemas[1].rules[0].attributes).toEqual([
+      { name: "required", value: true },
+    ]);
+  });
+
+  test("imports nullable, union and array types", () => {
+    const { schemas, issues } = jsonSchemaToBring({
+      type: "object",
+      properties: {
+        note: { type: ["string", "null"] },
+        ids: { type: "array", items: { type: "string" } },
+        value: { anyOf: [{ type: "number" }, { type: "boolean" }] },
+      },
+    });
+
+    expect(issues).toEqual([]);
+    expect(schemas[0].rules.map((rule) => rule.type)).toEqual([
+      "string | null",
+      "string[]",
+      "number | boolean",
+    ]);
+  });
+
+  test("reports what cannot be represented", () => {
+    const { issues } = jsonSchemaToBring({
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        count: { type: "integer", exclusiveMinimum: 0 },
+        ids: { type: "array", items: { type: "string", format: "email" } },
+        code: { type: "string", pattern: "^[A-Z]+$" },
+        mode: { oneOf: [{ type: "string" }, { type: "number" }] },
+      },
+    });
+
+    expect(issues).toEqual([
+      {
+        path: "#/additionalProperties",
+        message: "additionalProperties cannot be represented",
+      },
+      {
+        path: "#/properties/count/type",
+        message: "integer is imported as number",
+      },
+      {
+        path: "#/properties/count/exclusiveMinimum",
+        message: "Keyword 'exclusiveMinimum' cannot be represented",
+      },
+      {
+        path: "#/properties/ids/items/format",
+        message: "Keyword 'format' cannot be represented",
+      },
+      {
+        path: "#/properties/code/pattern",
+        message: "pattern cannot be represented",
+      },
+      {
+        path: "#/properties/mode/oneOf",
+        message: "Keyword 'oneOf' cannot be represented",
+      },
+    ]);
+
+    const exported = schemaToJSONSchema(
+      parse(`schema Item {
+        id = number @unique=true
+        kind = widget
+        parent = object @schema="Missing"
+      }`)["schema:Item"] as BringSchema
+    );
+    expect(exported.issues).toEqual([
+      {
+        path: "Item.id",
+        message: "Attribute '@unique' has no JSON Schema equivalent",
+      },
+      { path: "Item.kind", message: "Unknown rule type 'widget'" },
+      { path: "Item.parent", message: "Unknown schema 'Missing'" },
+    ]);
+  });
+});
@@ -0,0 +1,133 @@
+// src/__tests__/loader.test.ts
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  loadFile,
+  memoryResolver,
+  toObject,
+  BringLoadError,
+  BringParser,
+} from "../index";
+
+describe("loadFile", () => {
+  const files = {
+    "config/base.bring": `
+      database = {
+        host = "localhost"
+        port = 5432 @min=1
+        options = ["ssl"]
+      }
+      schema Db {
+        host = string
+      }
+    `,
+    "config/logging.bring": `logging = { level = "info" }`,
+    "config/prod.bring": `
+      include "base.bring"
+      import "./shared/../logging.bring"
+
+      database = {
+        host = "db.internal" @env="DB_HOST"
+        options = ["ssl", "pool"]
+      }
+      schema Db {
+        host = string @required=true
+      }
+    `,
+  };
+
+  test("merges included documents with the including file last", async () => {
+    const { result, files: loaded } = await loadFile("config/prod.bring", {
+      resolver: memoryResolver(files),
+    });
+
+    expect(loaded).toEqual([
+      "config/prod.bring",
+      "config/base.bring",
+      "config/logging.bring",
+    ]);
+    expect(toObject(result)).toEqual({
+      database: {
+        host: "db.internal",
+        port: 5432,
+        options: ["ssl", "pool"],
+      },
+      logging: { level: "info" },
+    });
+    expect((result["schema:Db"] as any).rules[0].attributes).toHaveLength(1);
+  });
+
+  test("records which file each value came from", async () => {
+    const { origins } = await loadFile("config/prod.bring", {
+      resolver: memoryResolver(files),
+    });
+
+    expect(origins["database"]).toBe("config/prod.bring");
+    expect(origins["database.host"]).toBe("config/prod.bring");
+    expect(origins["database.port"]).toBe("config/base.bring");
+    expect(origins["logging.level"]).toBe("config/logging.bring");
+  });
+
+  test("detects include cycles", async () => {
+    const resolver = memoryResolver({
+      "a.bring": `include "b.bring"`,
+      "b.bring": `include "a.bring"`,
+    });
+
+    await expect(loadFile("a.bring", { resolver })).rejects.toThrow(
+      "Include cycle a.bring -> b.bring -> a.bring"
+    );
+  });
+
+  test("reports errors with the file they occur in", async () => {
+    const resolver = memoryResolver({
+      "main.bring": `include "broken.bring"\ninclude "missing.bring"`,
+      "broken.bring": `\nname = @`,
+    });
+
+    try {
+      await loadFile("main.bring", { resolver });
+      throw new Error("Should have thrown an error");
+    } catch (error) {
+      expect(error).toBeInstanceOf(BringLoadError);
+      const loadError = error as BringLoadError;
+      expect(loadError.file).toBe("broken.bring");
+      expect(loadError.line).toBe(2);
+      expect(loadError.message).toBe(
+        "broken.bring:2:8: Unexpected character: @"
+      );
+    }
+
+    await expect(
+      loadFile("main.bring", {
+        resolver: memoryResolver({ "main.bring": `include "missing.bring"` }),
+      })
+    ).rejects.toThrow("missing.bring: File not found: missing.bring");
+  });
+
+  test("reads from the file system by default", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "bring-"));
+    fs.writeFileSync(path.join(dir, "base.bring"), `name = "base"\nport = 1`);
+    fs.writeFileSync(
+      path.join(dir, "app.bring"),
+      `include "base.bring"\nport = 2`
+    );
+
+    try {
+      const { result } = await loadFile(path.join(dir, "app.bring"));
+      expect(toObject(result)).toEqual({ name: "base", port: 2 });
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("only treats include followed by a string as a directive", () => {
+    const parser = new BringParser(`include = true\nimport "x.bring"`);
+
+    expect(toObject(parser.parse())).toEqual({ include: true });
+    expect(parser.getIncludes().map((include) => include.path)).toEqual([
+      "x.bring",
+    ]);
+  });
+});
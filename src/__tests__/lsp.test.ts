@@ -0,0 +1,466 @@
+// src/__tests__/lsp.test.ts
+import { PassThrough } from "stream";
+import { JsonRpcMessage, encodeMessage, startLanguageServer } from "../lsp";
+
+const uri = "file:///project/app.bring";
+
+const source = `# Users
+users = [
+  { id = 1, name = "Ann", email = "ann@example.com" },
+  { id = 0, name = "Bob" }
+] @schema="User"
+
+owner = {
+  id = 7
+
+} @schema="User"
+
+[server]
+port = 8080
+
+schema User {
+  id = number @min=1 @required=true
+  name = string @required=true
+  email? = string @format="email"
+  manager = User | null
+}
+include "base.bring"
+`;
+
+// Where `text` first occurs in the source, as an LSP position
+function at(text: string, shift = 0, doc = source) {
+  const offset = doc.indexOf(text) + shift;
+  const before = doc.slice(0, offset).split("\n");
+  return {
+    line: before.length - 1,
+    character: before[before.length - 1].length,
+  };
+}
+
+/**
+ * A client that talks to a server over a pair of streams, the way an editor
+ * does over stdio
+ */
+function connect() {
+  const input = new PassThrough();
+  const output = new PassThrough();
+  const received: JsonRpcMessage[] = [];
+  const waiting: (() => void)[] = [];
+  let exitCode: number | undefined;
+  let buffer = "";
+  let id = 0;
+
+  startLanguageServer(input, output, {
+    onExit: (code) => (exitCode = code),
+  });
+  output.setEncoding("utf8");
+  output.on("data", (chunk: string) => {
+    buffer += chunk;
+    for (;;) {
+      const match = /^Content-Length: (\d+)\r\n\r\n/.exec(buffer);
+      if (!match) break;
+      const bytes = Buffer.from(buffer.slice(match[0].length));
+      const length = Number(match[1]);
+      if (bytes.length < length) break;
+      received.push(JSON.parse(bytes.subarray(0, length).toString()));
+      buffer = bytes.subarray(length).toString();
+    }
+    waiting.splice(0).forEach((resolve) => resolve());
+  });
+
+  const next = (test: (message: JsonRpcMessage) => boolean) =>
+    new Promise<JsonRpcMessage>((resolve) => {
+      const check = () => {
+        const index = received.findIndex(test);
+        if (index === -1) {
+          waiting.push(check);
+        } else {
+          resolve(received.splice(index, 1)[0]);
+        }
+      };
+      check();
+    });
+
+  const client = {
+    input,
+    next,
+    exitCode: () => exitCode,
+    notify(method: string, params: unknown = {}) {
+      input.write(encodeMessage({ jsonrpc: "2.0", method, params }));
+    },
+    async send(method: string, params: unknown = {}) {
+      const requestId = ++id;
+      input.write(
+        encodeMessage({ jsonrpc: "2.0", id: requestId, method, params })
+      );
+      return next((message) => message.id === requestId);
+    },
+    async request(method: string, params: unknown = {}) {
+      return (await client.send(method, params)).result as any;
+    },
+    async diagnostics() {
+      const message = await next(
+        (item) => item.method === "textDocument/publishDiagnostics"
+      );
+      return (message.params as { diagnostics: any[] }).diagnostics;
+    },
+    async open(text = source) {
+      client.notify("textDocument/didOpen", {
+        textDocument: { uri, languageId: "bring", version: 1, text },
+      });
+      return client.diagnostics();
+    },
+    at: (text: string, shift = 0, doc = source) => ({
+      textDocument: { uri },
+      position: at(text, shift, doc),
+    }),
+  };
+  return client;
+}
+
+describe("language server", () => {
+  test("initializes, shuts down and exits", async () => {
+    const client = connect();
+    const init = await client.request("initialize", {
+      processId: null,
+      capabilities: {},
+    });
+
+    expect(init.capabilities).toMatchObject({
+      textDocumentSync: { openClose: true, change: 1 },
+      hoverProvider: true,
+      completionProvider: { triggerCharacters: ["@"] },
+      definitionProvider: true,
+      documentSymbolProvider: true,
+      documentFormattingProvider: true,
+    });
+    client.notify("initialized");
+
+    expect((await client.send("workspace/unknown")).error).toMatchObject({
+      code: -32601,
+    });
+    // Params are checked for what each method reads
+    expect(
+      (await client.send("textDocument/hover", { textDocument: { uri } })).error
+    ).toEqual({ code: -32602, message: "Expected params.position" });
+    expect(
+      (await client.send("textDocument/documentSymbol", { textDocument: 1 }))
+        .error
+    ).toEqual({ code: -32602, message: "Expected params.textDocument.uri" });
+    client.notify("textDocument/didOpen", { textDocument: { uri } });
+    expect(
+      (await client.next((message) => message.method === "window/logMessage"))
+        .params
+    ).toEqual({ type: 1, message: "Expected params.textDocument.text" });
+
+    expect(await client.request("shutdown")).toBeNull();
+    expect((await client.send("textDocument/hover")).error).toMatchObject({
+      code: -32600,
+    });
+    client.notify("exit");
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(client.exitCode()).toBe(0);
+  });
+
+  test("reads messages split across chunks and reports bad ones", async () => {
+    const client = connect();
+    client.input.write("Content-Length: 3\r\n\r\n{x}");
+    expect((await client.next((message) => message.id === null)).error).toEqual(
+      {
+        code: -32700,
+        message: "Parse error",
+      }
+    );
+
+    // Valid JSON that is not a message object, or has a bad id
+    for (const body of ["null", "[1]", '"x"', '{"id":{},"method":"x"}']) {
+      client.input.write(`Content-Length: ${body.length}\r\n\r\n${body}`);
+      expect(
+        (await client.next((message) => message.id === null)).error
+      ).toEqual({ code: -32600, message: "Invalid request" });
+    }
+
+    // Content-Length counts bytes, not characters
+    const frame = encodeMessage({
+      jsonrpc: "2.0",
+      id: "é😀",
+      method: "shutdown",
+    });
+    for (const byte of Buffer.from(frame)) {
+      client.input.write(Buffer.from([byte]));
+    }
+    expect(await client.next((message) => message.id === "é😀")).toEqual({
+      jsonrpc: "2.0",
+      id: "é😀",
+      result: null,
+    });
+  });
+
+  test("publishes syntax and schema diagnostics", async () => {
+    const client = connect();
+    const diagnostics = await client.open();
+
+    expect(
+      diagnostics.map((d: any) => [d.code, d.message, d.range.start])
+    ).toEqual([
+      ["min", "users[1].id: Value 0 is less than 1", at("0, name")],
+      [
+        "required",
+        "owner.name: Missing required key 'name'",
+        at("{\n  id = 7"),
+      ],
+    ]);
+    expect(diagnostics[0]).toMatchObject({ severity: 1, source: "bring" });
+
+    client.notify("textDocument/didChange", {
+      textDocument: { uri, version: 2 },
+      contentChanges: [{ text: 'a = 1\na = 2\nb = "x\n' }],
+    });
+    const changed = await client.diagnostics();
+    expect(
+      changed.map((d: any) => [d.code, d.message, d.range.start.line])
+    ).toEqual([
+      [
+        "duplicate-key",
+        "Duplicate key 'a' (first defined at line 1, column 1), keeping the last definition",
+        1,
+      ],
+      ["unterminated-string", "Unterminated string", 3],
+    ]);
+    expect(changed[0].relatedInformation).toEqual([
+      {
+        location: {
+          uri,
+          range: {
+            start: { line: 0, character: 0 },
+            end: { line: 0, character: 1 },
+          },
+        },
+        message: "First defined here",
+      },
+    ]);
+
+    client.notify("textDocument/didClose", { textDocument: { uri } });
+    expect(await client.diagnostics()).toEqual([]);
+  });
+
+  test("shows values, attributes and schema rules on hover", async () => {
+    const client = connect();
+    await client.open();
+
+    const value = await client.request(
+      "textDocument/hover",
+      client.at("email = ", 2)
+    );
+    expect(value.contents.value).toBe(
+      [
+        "**users[0].email**: string",
+        "Rule of schema `User`:",
+        '```bring\nemail? = string @format="email"\n```',
+      ].join("\n\n")
+    );
+    expect(value.range).toEqual({
+      start: at("email = "),
+      end: at(`com" }`, 4),
+    });
+
+    const attribute = await client.request(
+      "textDocument/hover",
+      client.at("@format", 3)
+    );
+    expect(attribute.contents.value).toMatch(
+      /^```bring\n@format="email"\n```\n\nA format the string must match: email, /
+    );
+
+    const rule = await client.request(
+      "textDocument/hover",
+      client.at("manager", 2)
+    );
+    expect(rule.contents.value).toBe(
+      "```bring\nmanager = User | null\n```\n\nRule of schema `User`, optional"
+    );
+
+    const bound = await client.request("textDocument/hover", client.at("port"));
+    expect(bound.contents.value).toBe("**server.port**: number");
+    expect(
+      await client.request("textDocument/hover", client.at("# Users"))
+    ).toBeNull();
+  });
+
+  test("completes keys, attribute names, schemas and types", async () => {
+    const client = connect();
+    await client.open();
+    const labels = async (text: string, shift = 0, doc = source) =>
+      (
+        await client.request(
+          "textDocument/completion",
+          client.at(text, shift, doc)
+        )
+      ).map((item: any) => item.label);
+
+    // The blank line in `owner`, which already has an id
+    expect(await labels("7\n\n}", 2)).toEqual(["name", "email", "manager"]);
+    const [name] = await client.request(
+      "textDocument/completion",
+      client.at("7\n\n}", 2)
+    );
+    expect(name).toMatchObject({
+      kind: 5,
+      detail: "string",
+      textEdit: { newText: "name = " },
+    });
+
+    expect(await labels("@min", 2)).toContain("@minLength");
+    expect(await labels("@min", 2)).not.toContain("@schema");
+    expect(await labels('@schema="', 9)).toEqual(["User"]);
+    expect(await labels("| null", 2)).toEqual(
+      expect.arrayContaining(["string", "duration", "User"])
+    );
+    // Not a key position, and not in a schema-bound object
+    expect(await labels("8080", 2)).toEqual([]);
+    expect(await labels("port")).toEqual([]);
+
+    // Keys still complete while a bound object is being typed
+    const editing = source.replace("id = 7", "id = 7, na");
+    client.notify("textDocument/didChange", {
+      textDocument: { uri, version: 2 },
+      contentChanges: [{ text: editing }],
+    });
+    await client.diagnostics();
+    const items = await client.request(
+      "textDocument/completion",
+      client.at("7, na", 5, editing)
+    );
+    expect(items[0]).toMatchObject({
+      label: "name",
+      textEdit: {
+        range: {
+          start: at("7, na", 3, editing),
+          end: at("7, na", 5, editing),
+        },
+      },
+    });
+  });
+
+  test("goes from schema references to the schema", async () => {
+    const client = connect();
+    await client.open();
+    const target = {
+      uri,
+      range: { start: at("User {"), end: at("User {", 4) },
+    };
+
+    expect(
+      await client.request("textDocument/definition", client.at('"User"', 2))
+    ).toEqual(target);
+    expect(
+      await client.request("textDocument/definition", client.at("User | null"))
+    ).toEqual(target);
+    expect(
+      await client.request("textDocument/definition", client.at('"base'))
+    ).toEqual({
+      uri: "file:///project/base.bring",
+      range: {
+        start: { line: 0, character: 0 },
+        end: { line: 0, character: 0 },
+      },
+    });
+    expect(
+      await client.request("textDocument/definition", client.at("name ="))
+    ).toBeNull();
+  });
+
+  test("outlines the document", async () => {
+    const client = connect();
+    await client.open();
+    const symbols = await client.request("textDocument/documentSymbol", {
+      textDocument: { uri },
+    });
+    const outline = (items: any[]): unknown =>
+      items.map((item) =>
+        item.children?.length
+          ? [item.name, item.kind, outline(item.children)]
+          : [item.name, item.kind]
+      );
+
+    expect(outline(symbols)).toEqual([
+      [
+        "users",
+        18,
+        [
+          [
+            "[0]",
+            19,
+            [
+              ["id", 16],
+              ["name", 15],
+              ["email", 15],
+            ],
+          ],
+          [
+            "[1]",
+            19,
+            [
+              ["id", 16],
+              ["name", 15],
+            ],
+          ],
+        ],
+      ],
+      ["owner", 19, [["id", 16]]],
+      ["server", 3, [["port", 16]]],
+      [
+        "User",
+        23,
+        [
+          ["id", 8],
+          ["name", 8],
+          ["email", 8],
+          ["manager", 8],
+        ],
+      ],
+    ]);
+    expect(symbols[0]).toMatchObject({
+      detail: "array, 2 items",
+      range: { start: at("users"), end: at(`"User"`, 6) },
+      selectionRange: { start: at("users"), end: at("users", 5) },
+    });
+    expect(symbols[2].range).toEqual({
+      start: at("port"),
+      end: at("8080", 4),
+    });
+  });
+
+  test("formats the whole document", async () => {
+    const client = connect();
+    await client.open("a={b=1,\nc=[1,2]}\n");
+    const options = { tabSize: 4, insertSpaces: true };
+
+    expect(
+      await client.request("textDocument/formatting", {
+        textDocument: { uri },
+        options,
+      })
+    ).toEqual([
+      {
+        range: {
+          start: { line: 0, character: 0 },
+          end: { line: 2, character: 0 },
+        },
+        newText: "a = {\n    b = 1\n    c = [1, 2]\n}\n",
+      },
+    ]);
+
+    client.notify("textDocument/didChange", {
+      textDocument: { uri, version: 2 },
+      contentChanges: [{ text: "a = {\n" }],
+    });
+    await client.diagnostics();
+    expect(
+      await client.request("textDocument/formatting", {
+        textDocument: { uri },
+        options,
+      })
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,122 @@
+// src/__tests__/merge.test.ts
+import { merge, mergeLayers, parse, toObject } from "../index";
+
+describe("merge", () => {
+  const base = parse(`
+    server = {
+      host = "localhost" @env="HOST"
+      port = 8080
+      hosts = ["a.internal"]
+      plugins = ["auth", "cache"] @merge="unique"
+      limits = { rps = 100, burst = 20 }
+    }
+    debug = true
+    schema Server {
+      host = string
+    }
+  `);
+  const production = parse(`
+    server = {
+      host = "0.0.0.0" @required=true
+      hosts = ["b.internal"] @merge="append"
+      plugins = ["cache", "metrics"]
+      limits = { rps = 500 } @merge="replace"
+    }
+    debug = false
+    schema Server {
+      host = string @required=true
+      port = number
+    }
+  `);
+
+  test("merges objects recursively with later layers winning", () => {
+    const { result } = merge(base, production);
+
+    expect(toObject(result)).toEqual({
+      server: {
+        host: "0.0.0.0",
+        port: 8080,
+        hosts: ["a.internal", "b.internal"],
+        plugins: ["auth", "cache", "metrics"],
+        limits: { rps: 500 },
+      },
+      debug: false,
+    });
+    expect((result["schema:Server"] as any).rules).toHaveLength(2);
+  });
+
+  test("replaces arrays by default", () => {
+    const { result } = merge(parse(`tags = ["a", "b"]`), parse(`tags = ["c"]`));
+
+    expect(toObject(result).tags).toEqual(["c"]);
+  });
+
+  test("merges attributes by name", () => {
+    const { result } = merge(base, production);
+    const server = result.server as any;
+
+    expect(server.items.host.attributes).toEqual([
+      { name: "env", value: "HOST" },
+      { name: "required", value: true },
+    ]);
+
+    const { result: port } = merge(
+      parse(`port = 8080 @min=1024 @env="PORT"`),
+      parse(`port = 9090 @env="APP_PORT"`)
+    );
+    expect(port.port).toEqual({
+      type: "primitive",
+      value: 9090,
+      attributes: [
+        { name: "min", value: 1024 },
+        { name: "env", value: "APP_PORT" },
+      ],
+    });
+
+    const { result: combined } = merge(
+      parse(`cfg = { a = 1 } @owner="ops" @version=1`),
+      parse(`cfg = { b = 2 } @version=2`)
+    );
+    expect((combined.cfg as any).attributes).toEqual([
+      { name: "owner", value: "ops" },
+      { name: "version", value: 2 },
+    ]);
+  });
+
+  test("records the layer each value came from", () => {
+    const { provenance } = merge(base, production);
+
+    expect(provenance["server"]).toBe(1);
+    expect(provenance["server.port"]).toBe(0);
+    expect(provenance["server.host"]).toBe(1);
+    expect(provenance["server.hosts[0]"]).toBe(0);
+    expect(provenance["server.hosts[1]"]).toBe(1);
+    expect(provenance["server.limits.burst"]).toBeUndefined();
+    expect(provenance["debug"]).toBe(1);
+  });
+
+  test("mergeLayers reports named sources", () => {
+    const { provenance } = mergeLayers([
+      { result: base, source: "base.bring" },
+      { result: production, source: "production.bring" },
+      { result: parse(`debug = true`), source: "local.bring" },
+    ]);
+
+    expect(provenance["server.port"]).toBe("base.bring");
+    expect(provenance["server.limits.rps"]).toBe("production.bring");
+    expect(provenance["debug"]).toBe("local.bring");
+  });
+
+  test("leaves its inputs untouched", () => {
+    const before = JSON.stringify(base);
+    merge(base, production);
+
+    expect(JSON.stringify(base)).toBe(before);
+  });
+
+  test("rejects unknown strategies", () => {
+    expect(() =>
+      merge(parse(`tags = ["a"]`), parse(`tags = ["b"] @merge="zip"`))
+    ).toThrow("Unknown merge strategy 'zip' at 'tags'");
+  });
+});
@@ -0,0 +1,131 @@
+// src/__tests__/objects.test.ts
+import { fromObject, parse, toJSON, toObject } from "../index";
+
+const source = `name = "api" @description="Service name"
+port = 8080 @min=1024 @max=65535
+timeout = 30s
+server = {
+  host = "localhost" @env="HOST"
+  tags = ["a", "b"]
+} @schema="Server"
+started = 2024-01-15T10:00Z @timezone="UTC"
+limits = { cpu = 2 } @range={ min = 1, max = [4, 8] }
+schema Server {
+  host = string
+}
+`;
+
+// The values of a document without their source locations
+function withoutLocations(value: unknown): unknown {
+  return JSON.parse(
+    JSON.stringify(value, (key, item) =>
+      key === "loc" || key === "keyLoc" ? undefined : item
+    )
+  );
+}
+
+describe("attribute-preserving objects", () => {
+  test("inline mode writes $value/$attrs nodes", () => {
+    expect(toObject(parse(source), { attributes: "inline" })).toEqual({
+      name: { $value: "api", $attrs: { description: "Service name" } },
+      port: { $value: 8080, $attrs: { min: 1024, max: 65535 } },
+      timeout: { $value: "30s", $kind: "duration" },
+      server: {
+        $value: {
+          host: { $value: "localhost", $attrs: { env: "HOST" } },
+          tags: ["a", "b"],
+        },
+        $attrs: { schema: "Server" },
+      },
+      started: {
+        $value: "2024-01-15T10:00Z",
+        $attrs: { timezone: "UTC" },
+        $kind: "datetime",
+      },
+      limits: {
+        $value: { cpu: 2 },
+        $attrs: { range: { min: 1, max: [4, 8] } },
+      },
+    });
+  });
+
+  test("sidecar mode keeps attributes in a map keyed by path", () => {
+    expect(toObject(parse(source), { attributes: "sidecar" })).toEqual({
+      data: {
+        name: "api",
+        port: 8080,
+        timeout: "30s",
+        server: { host: "localhost", tags: ["a", "b"] },
+        started: "2024-01-15T10:00Z",
+        limits: { cpu: 2 },
+      },
+      attributes: {
+        name: { description: "Service name" },
+        port: { min: 1024, max: 65535 },
+        server: { schema: "Server" },
+        "server.host": { env: "HOST" },
+        started: { timezone: "UTC" },
+        limits: { range: { min: 1, max: [4, 8] } },
+      },
+      kinds: { timeout: "duration", started: "datetime" },
+    });
+  });
+
+  test("fromObject rebuilds the original values in both modes", () => {
+    const result = parse(source);
+    const { "schema:Server": _schema, ...values } = result;
+    const expected = withoutLocations({ type: "object", items: values });
+
+    for (const attributes of ["inline", "sidecar"] as const) {
+      const json = toJSON(result, 2, { attributes });
+      expect(fromObject(JSON.parse(json), { attributes })).toEqual(expected);
+    }
+  });
+
+  test("sidecar paths quote keys that contain dots or brackets", () => {
+    const result = parse(`"a.b" = 1 @x=1
+a = { b = 2, "c[0]" = 30s }
+`);
+    const sidecar = toObject(result, { attributes: "sidecar" });
+
+    expect(sidecar.attributes).toEqual({ '"a.b"': { x: 1 } });
+    expect(sidecar.kinds).toEqual({ 'a."c[0]"': "duration" });
+    expect(fromObject(sidecar, { attributes: "sidecar" })).toEqual(
+      withoutLocations({ type: "object", items: result })
+    );
+  });
+
+  test("data that looks like a node survives the round trip", () => {
+    const result = parse(`weird = { "$value" = 1, "$kind" = "x" }
+wrapped = { "$value" = { "$attrs" = 2 } } @note="n"
+list = [{ "$value" = null }]
+`);
+    const inline = toObject(result, { attributes: "inline" });
+
+    expect(inline.weird).toEqual({ $value: { $value: 1, $kind: "x" } });
+    expect(fromObject(inline)).toEqual(
+      withoutLocations({ type: "object", items: result })
+    );
+  });
+
+  test("plain objects without nodes read as plain data", () => {
+    expect(fromObject({ a: [1, { b: null }] })).toEqual(
+      fromObject({ a: [1, { b: null }] }, { attributes: "drop" })
+    );
+  });
+
+  test("rejects malformed metadata", () => {
+    expect(() => fromObject({ a: { $value: 1, $kind: "duration" } })).toThrow(
+      "A duration at 'a' must be written as a string"
+    );
+    expect(() => fromObject({ a: { $value: "x", $kind: "color" } })).toThrow(
+      "Unknown scalar kind 'color' at 'a'"
+    );
+    expect(() => fromObject({ a: { $value: 1, $attrs: [1] } })).toThrow(
+      "Attributes at 'a' must be an object"
+    );
+    expect(() => fromObject({ data: {} }, { attributes: "sidecar" })).toThrow(
+      TypeError
+    );
+  });
+});
@@ -5,6 +5,7 @@ import {
   toJSON,
   BringParser,
   BringParseError,
+  extractAttributes,
 } from "../index";
 
 describe("BringParser", () => {
@@ -113,6 +114,260 @@ describe("BringParser", () => {
     });
   });
 
+  describe("Dotted keys and sections", () => {
+    test("expands dotted keys into nested objects", () => {
+      const obj = toObject(
+        parse(`
+          app.name = "web"
+          app.database.url = "postgres://localhost"
+          app.database."pool-size" = 5
+          app = { debug = true }
+          server = { tls.enabled = true }
+        `)
+      );
+
+      expect(obj).toEqual({
+        app: { debug: true },
+        server: { tls: { enabled: true } },
+      });
+    });
+
+    test("adds dotted keys to existing objects", () => {
+      const obj = toObject(
+        parse(`
+          app = { name = "web" }
+          app.database.url = "postgres://localhost"
+          app.database."pool-size" = 5
+        `)
+      );
+
+      expect(obj.app).toEqual({
+        name: "web",
+        database: { url: "postgres://localhost", "pool-size": 5 },
+      });
+    });
+
+    test("puts keys after a section header into that section", () => {
+      const obj = toObject(
+        parse(`
+          name = "web"
+
+          [app.database]
+          url = "postgres://localhost"
+          pool.size = 5
+
+          [app]
+          debug = true # also keeps app.database
+        `)
+      );
+
+      expect(obj).toEqual({
+        name: "web",
+        app: {
+          database: { url: "postgres://localhost", pool: { size: 5 } },
+          debug: true,
+        },
+      });
+    });
+
+    test("reports keys that collide with non-object values", () => {
+      expect(() => parse(`port = 80\nport.tls = true`)).toThrow(
+        "Cannot set 'port.tls': 'port' is a number, not an object"
+      );
+      expect(() => parse(`app = { hosts = [] }\n[app.hosts]`)).toThrow(
+        "Cannot open section [app.hosts]: 'app.hosts' is an array, not an object"
+      );
+      expect(() => parse(`[app] x = 1`)).toThrow(
+        "Expected a new line after section header"
+      );
+
+      try {
+        parse(`a = "x"\n  a.b = 1`);
+        throw new Error("Should have thrown an error");
+      } catch (error) {
+        expect((error as BringParseError).code).toBe("key-conflict");
+        expect((error as BringParseError).line).toBe(2);
+        expect((error as BringParseError).column).toBe(3);
+      }
+    });
+  });
+
+  describe("Duplicates", () => {
+    const source = `port = 80
+host = "a" @env="HOST" @env="SERVER_HOST"
+port = 8080
+schema User { id = number }
+schema User { name = string }
+`;
+
+    test("keeps the last definition and records warnings by default", () => {
+      const { result, diagnostics } = parse(source, { recover: true });
+
+      expect(toObject(result)).toEqual({ port: 8080, host: "a" });
+      expect((result.host as any).attributes).toEqual([
+        { name: "env", value: "SERVER_HOST" },
+      ]);
+      expect((result["schema:User"] as any).rules[0].key).toBe("name");
+      expect(diagnostics.map((d) => [d.severity, d.code])).toEqual([
+        ["warning", "duplicate-attribute"],
+        ["warning", "duplicate-key"],
+        ["warning", "duplicate-schema"],
+      ]);
+      expect(diagnostics[1].message).toBe(
+        "Duplicate key 'port' (first defined at line 1, column 1), keeping the last definition"
+      );
+      expect(diagnostics[1].range.start.line).toBe(3);
+      expect(diagnostics[1].related?.[0].range.start.line).toBe(1);
+    });
+
+    test("can keep the first definition", () => {
+      const warnings: string[] = [];
+      const result = parse(source, {
+        duplicates: "first",
+        onWarning: (warning) => warnings.push(warning.code),
+      });
+
+      expect(toObject(result).port).toBe(80);
+      expect((result.host as any).attributes[0].value).toBe("HOST");
+      expect((result["schema:User"] as any).rules[0].key).toBe("id");
+      expect(warnings).toHaveLength(3);
+    });
+
+    test("throws in strict mode with both locations", () => {
+      expect(() => parse(source, { strict: true })).toThrow(
+        "Duplicate attribute '@env' (first defined at line 2, column 12) at line 2, column 24"
+      );
+      expect(() =>
+        parse(`a = { b = 1 }\na.b = 2`, { duplicates: "error" })
+      ).toThrow("Duplicate key 'a.b' (first defined at line 1, column 7)");
+      expect(() =>
+        parse(`schema A { x = string, x = number }`, { strict: true })
+      ).toThrow("Duplicate key 'x'");
+
+      const { diagnostics } = parse(`a = 1\na = 2\nb = 3`, {
+        strict: true,
+        recover: true,
+      });
+      expect(diagnostics).toHaveLength(1);
+      expect(diagnostics[0].severity).toBe("error");
+      expect(diagnostics[0].related?.[0].range.start).toEqual({
+        line: 1,
+        column: 1,
+        offset: 0,
+      });
+    });
+
+    test("does not treat sections and nested keys as duplicates", () => {
+      const { diagnostics } = parse(
+        `a.b = 1\na.c = 2\n[a]\nd = 3\n[a]\ne = 4`,
+        { recover: true }
+      );
+
+      expect(diagnostics).toEqual([]);
+    });
+  });
+
+  describe("Attribute values", () => {
+    test("parses arrays, objects and null in attributes", () => {
+      const result = parse(`
+        port = 8080 @allowed=[80, 8080] @meta={ owner = "ops", tags = ["a"] }
+        name = "app" @deprecated=null
+        schema User {
+          role = string @enum=["admin", "user"]
+        }
+      `);
+
+      expect((result.port as any).attributes).toEqual([
+        { name: "allowed", value: [80, 8080] },
+        { name: "meta", value: { owner: "ops", tags: ["a"] } },
+      ]);
+      expect((result.name as any).attributes).toEqual([
+        { name: "deprecated", value: null },
+      ]);
+      expect((result["schema:User"] as any).rules[0].attributes).toEqual([
+        { name: "enum", value: ["admin", "user"] },
+      ]);
+      expect(extractAttributes(result.port as any)).toEqual({
+        allowed: [80, 8080],
+        meta: { owner: "ops", tags: ["a"] },
+      });
+    });
+  });
+
+  describe("Schema types", () => {
+    const source = `
+      schema Team {
+        name = string @required=true
+        owner = User
+        tags = string[] @maxLength=10
+        matrix = number[][]
+        id = string | number
+        manager? = User?
+        members = (User | string)[]
+        database = {
+          host = string, port = number @min=1
+          pool = { size = number }
+        }
+        parent = Team |
+          null
+      }
+    `;
+
+    test("parses type expressions into typeExpr", () => {
+      const rules = (parse(source)["schema:Team"] as any).rules;
+      const byKey = (key: string) => rules.find((r: any) => r.key === key);
+
+      expect(byKey("owner").typeExpr).toEqual({ kind: "name", name: "User" });
+      expect(byKey("tags").typeExpr).toEqual({
+        kind: "array",
+        element: { kind: "name", name: "string" },
+      });
+      expect(byKey("tags").attributes).toEqual([
+        { name: "maxLength", value: 10 },
+      ]);
+      expect(byKey("matrix").type).toBe("number[][]");
+      expect(byKey("id").typeExpr).toEqual({
+        kind: "union",
+        types: [
+          { kind: "name", name: "string" },
+          { kind: "name", name: "number" },
+        ],
+      });
+      expect(byKey("members").type).toBe("(User | string)[]");
+      expect(byKey("parent").type).toBe("Team | null");
+    });
+
+    test("parses optional keys and nullable types", () => {
+      const manager = (parse(source)["schema:Team"] as any).rules[5];
+
+      expect(manager.key).toBe("manager");
+      expect(manager.optional).toBe(true);
+      expect(manager.type).toBe("User | null");
+    });
+
+    test("parses inline object rules", () => {
+      const database = (parse(source)["schema:Team"] as any).rules[7];
+
+      expect(database.type).toBe("object");
+      expect(database.typeExpr.kind).toBe("object");
+      expect(
+        database.typeExpr.rules.map((rule: any) => [rule.key, rule.type])
+      ).toEqual([
+        ["host", "string"],
+        ["port", "number"],
+        ["pool", "object"],
+      ]);
+      expect(database.typeExpr.rules[1].attributes).toEqual([
+        { name: "min", value: 1 },
+      ]);
+    });
+
+    test("reports malformed types", () => {
+      expect(() => parse(`schema A { a = string | }`)).toThrow(BringParseError);
+      expect(() => parse(`schema A { a = (string }`)).toThrow("Expected ')'");
+    });
+  });
+
   describe("String parsing", () => {
     test("handles escape sequences", () => {
       const config = `
@@ -137,6 +392,59 @@ describe("BringParser", () => {
 
       expect(obj.name).toBe("Alice");
     });
+
+    test("handles unicode escapes", () => {
+      const obj = toObject(
+        parse(`
+          letter = "caf\\u00e9"
+          emoji = "\\u{1F600}"
+          pair = "\\uD83D\\uDE00"
+        `)
+      );
+
+      expect(obj.letter).toBe("café");
+      expect(obj.emoji).toBe("😀");
+      expect(obj.pair).toBe("😀");
+    });
+
+    test("handles multi-line strings", () => {
+      const obj = toObject(
+        parse(`
+script = """
+echo "start"
+exit 0
+"""
+single = '''one
+two'''
+`)
+      );
+
+      expect(obj.script).toBe('echo "start"\nexit 0\n');
+      expect(obj.single).toBe("one\ntwo");
+    });
+
+    test("handles raw strings", () => {
+      const obj = toObject(
+        parse(`
+          path = r"C:\\Users\\app"
+          pattern = r'^\\d+\\.\\d+$'
+          block = r"""\\n stays"""
+        `)
+      );
+
+      expect(obj.path).toBe("C:\\Users\\app");
+      expect(obj.pattern).toBe("^\\d+\\.\\d+$");
+      expect(obj.block).toBe("\\n stays");
+    });
+
+    test("reports malformed strings", () => {
+      expect(() => parse(`a = "\\u12"`)).toThrow("Invalid unicode escape");
+      expect(() => parse(`a = "\\u{110000}"`)).toThrow("out of range");
+      expect(() => parse(`a = """open`)).toThrow(
+        "Unterminated multi-line string"
+      );
+      expect(() => parse(`a = r"open`)).toThrow("Unterminated string");
+    });
   });
 
   describe("Number parsing", () => {
@@ -161,6 +469,70 @@ describe("BringParser", () => {
 
       expect(obj.pi).toBe(3.14159);
     });
+
+    test("parses exponents, signs and separators", () => {
+      const obj = toObject(
+        parse(`
+          big = 1e6
+          small = 2.5E-3
+          positive = +5
+          grouped = 1_000_000
+          fraction = 0.000_1
+        `)
+      );
+
+      expect(obj).toEqual({
+        big: 1e6,
+        small: 2.5e-3,
+        positive: 5,
+        grouped: 1000000,
+        fraction: 0.0001,
+      });
+    });
+
+    test("parses hexadecimal, octal and binary", () => {
+      const obj = toObject(
+        parse(`
+          hex = 0xFF
+          mask = 0xdead_beef
+          octal = 0o755
+          binary = -0b1010
+        `)
+      );
+
+      expect(obj).toEqual({
+        hex: 255,
+        mask: 0xdeadbeef,
+        octal: 493,
+        binary: -10,
+      });
+    });
+
+    test("parses inf and nan", () => {
+      const obj = toObject(parse(`a = inf\nb = -inf\nc = +inf\nd = nan`));
+
+      expect(obj.a).toBe(Infinity);
+      expect(obj.b).toBe(-Infinity);
+      expect(obj.c).toBe(Infinity);
+      expect(obj.d).toBeNaN();
+    });
+
+    test("reports malformed numbers", () => {
+      const cases: [string, string][] = [
+        ["1__0", "Underscores in numbers must be between digits"],
+        ["1_", "Underscores in numbers must be between digits"],
+        ["1e", "Expected digit in exponent"],
+        ["1.", "Expected digit after decimal point"],
+        ["0x", "Expected hexadecimal digit after 0x"],
+        ["0b102", "Invalid number format: 0b102"],
+        ["12abc", "Invalid number format: 12abc"],
+        ["+", "Expected digit after plus sign"],
+      ];
+
+      for (const [literal, message] of cases) {
+        expect(() => parse(`a = ${literal}`)).toThrow(message);
+      }
+    });
   });
 
   describe("Complex structures", () => {
@@ -230,6 +602,175 @@ describe("BringParser", () => {
     });
   });
 
+  describe("Error recovery", () => {
+    test("returns every diagnostic with the partial result", () => {
+      const config = [
+        'name = "app"',
+        "port = @",
+        "host 'localhost'",
+        "debug = true",
+      ].join("\n");
+
+      const { result, diagnostics } = parse(config, { recover: true });
+
+      expect(toObject(result)).toEqual({ name: "app", debug: true });
+      expect(diagnostics.map((d) => d.code)).toEqual([
+        "unexpected-character",
+        "expected-equals",
+      ]);
+      expect(diagnostics[0].severity).toBe("error");
+      expect(diagnostics[0].range.start).toMatchObject({ line: 2, column: 8 });
+      expect(diagnostics[1].range.start).toMatchObject({ line: 3, column: 6 });
+    });
+
+    test("resynchronises inside objects and arrays", () => {
+      const config = `
+        app = {
+          name = "app"
+          port = 80.
+          features = [1, -, 3]
+          debug = false
+        }
+        after = 1
+      `;
+
+      const { result, diagnostics } = parse(config, { recover: true });
+
+      expect(toObject(result)).toEqual({
+        app: { name: "app", features: [1, 3], debug: false },
+        after: 1,
+      });
+      expect(diagnostics.map((d) => d.code)).toEqual([
+        "expected-digit",
+        "expected-digit",
+      ]);
+    });
+
+    test("reports unclosed structures at end of input", () => {
+      const { result, diagnostics } = parse(`obj = { key = "value"`, {
+        recover: true,
+      });
+
+      expect(toObject(result)).toEqual({ obj: { key: "value" } });
+      expect(diagnostics.map((d) => d.code)).toEqual(["expected-close-brace"]);
+    });
+
+    test("skips stray characters and schema errors", () => {
+      const config = `
+        } ]
+        schema User {
+          id = 5
+          name = string
+        }
+        ok = "yes"
+        broken = "unterminated
+      `;
+
+      const { result, diagnostics } = parse(config, { recover: true });
+
+      expect((result["schema:User"] as any).rules).toHaveLength(1);
+      expect(toObject(result)).toEqual({ ok: "yes" });
+      expect(diagnostics.map((d) => d.code)).toEqual([
+        "expected-identifier",
+        "expected-identifier",
+        "expected-identifier",
+        "unterminated-string",
+      ]);
+    });
+
+    test("error codes are exposed when throwing", () => {
+      try {
+        parse(`name "x"`);
+        throw new Error("Should have thrown an error");
+      } catch (error) {
+        expect((error as BringParseError).code).toBe("expected-equals");
+      }
+    });
+  });
+
+  describe("Source locations", () => {
+    test("are only attached when requested", () => {
+      const result = parse(`port = 8080 @min=1024`);
+
+      expect((result.port as any).loc).toBeUndefined();
+    });
+
+    test("attaches ranges to values, keys and attributes", () => {
+      const config = `name = "app"\nport = 8080 @min=1024`;
+      const result = parse(config, { locations: true });
+      const port = result.port as any;
+
+      expect(port.keyLoc).toEqual({
+        start: { line: 2, column: 1, offset: 13 },
+        end: { line: 2, column: 5, offset: 17 },
+      });
+      expect(port.loc).toEqual({
+        start: { line: 2, column: 8, offset: 20 },
+        end: { line: 2, column: 12, offset: 24 },
+      });
+      expect(port.attributes[0].loc).toEqual({
+        start: { line: 2, column: 13, offset: 25 },
+        end: { line: 2, column: 22, offset: 34 },
+      });
+      expect(config.substring(port.loc.start.offset, port.loc.end.offset)).toBe(
+        "8080"
+      );
+    });
+
+    test("counts lines across multi-line strings and comments", () => {
+      const config = [
+        "# header comment",
+        "",
+        'text = "line one',
+        'line two"',
+        "  # indented comment",
+        "nested = {",
+        "  items = [1, 2]",
+        "}",
+      ].join("\n");
+
+      const result = parse(config, { locations: true });
+      const text = result.text as any;
+      const nested = result.nested as any;
+      const items = nested.items.items;
+
+      expect(text.loc.start).toMatchObject({ line: 3, column: 8 });
+      expect(text.loc.end).toMatchObject({ line: 4, column: 10 });
+      expect(nested.loc.start).toMatchObject({ line: 6, column: 10 });
+      expect(nested.loc.end).toMatchObject({ line: 8, column: 2 });
+      expect(items.keyLoc.start).toMatchObject({ line: 7, column: 3 });
+      expect(items.items[1].loc.start).toMatchObject({ line: 7, column: 15 });
+    });
+
+    test("attaches ranges to schemas and their rules", () => {
+      const config = `schema User {\n  id = number @min=1\n}`;
+      const schema = parse(config, { locations: true })["schema:User"] as any;
+
+      expect(schema.loc.start).toMatchObject({ line: 1, column: 1 });
+      expect(schema.loc.end).toMatchObject({ line: 3, column: 2 });
+      expect(schema.rules[0].loc).toEqual({
+        start: { line: 2, column: 3, offset: 16 },
+        end: { line: 2, column: 21, offset: 34 },
+      });
+      expect(schema.rules[0].keyLoc.end).toMatchObject({ line: 2, column: 5 });
+      expect(schema.rules[0].attributes[0].loc.start).toMatchObject({
+        line: 2,
+        column: 15,
+      });
+    });
+
+    test("error positions count each newline once", () => {
+      try {
+        parse(`a = 1\n\n\nb = @`);
+        throw new Error("Should have thrown an error");
+      } catch (error) {
+        const parseError = error as BringParseError;
+        expect(parseError.line).toBe(4);
+        expect(parseError.column).toBe(5);
+      }
+    });
+  });
+
   describe("Utility functions", () => {
     test("toObject converts correctly", () => {
       const config = `app = { name = "test", port = 8080 }`;
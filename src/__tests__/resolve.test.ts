@@ -0,0 +1,109 @@
+// src/__tests__/resolve.test.ts
+import { parse, resolve, toObject, BringResolveError } from "../index";
+
+describe("resolve", () => {
+  const config = `
+    app = {
+      host = "localhost" @env="HOST"
+      port = 8080 @env="PORT" @default=8080
+      debug = false @env="DEBUG"
+      workers = null @default=4
+      name = "web"
+    }
+  `;
+
+  test("reads values from the environment", () => {
+    const { result } = resolve(parse(config), {
+      env: { HOST: "0.0.0.0", PORT: "3000", DEBUG: "true" },
+    });
+    const obj = toObject(result);
+
+    expect(obj.app.host).toBe("0.0.0.0");
+    expect(obj.app.port).toBe(3000);
+    expect(obj.app.debug).toBe(true);
+  });
+
+  test("falls back to the file and then @default", () => {
+    const { result } = resolve(parse(config), { env: {} });
+    const obj = toObject(result);
+
+    expect(obj.app).toEqual({
+      host: "localhost",
+      port: 8080,
+      debug: false,
+      workers: 4,
+      name: "web",
+    });
+  });
+
+  test("reports where each value came from", () => {
+    const { sources } = resolve(parse(config), { env: { PORT: "9000" } });
+
+    expect(sources).toEqual([
+      { path: "app.host", source: "file" },
+      { path: "app.port", source: "env", variable: "PORT" },
+      { path: "app.debug", source: "file" },
+      { path: "app.workers", source: "default" },
+    ]);
+  });
+
+  test("keeps attributes and leaves the input untouched", () => {
+    const parsed = parse(config);
+    const { result } = resolve(parsed, { env: { PORT: "1" } });
+
+    expect((result.app as any).items.port.attributes).toHaveLength(2);
+    expect(toObject(parsed).app.port).toBe(8080);
+  });
+
+  test("uses structured @default values", () => {
+    const { result } = resolve(
+      parse(`hosts = null @env="HOSTS" @default=["a", "b"]`),
+      { env: {} }
+    );
+
+    expect(toObject(result).hosts).toEqual(["a", "b"]);
+  });
+
+  test("reads typed scalars from the environment", () => {
+    const source = `timeout = 30s @env="TIMEOUT"`;
+
+    const { result } = resolve(parse(source), { env: { TIMEOUT: "2m" } });
+    expect(toObject(result).timeout).toBe(120000);
+    expect(() => resolve(parse(source), { env: { TIMEOUT: "120" } })).toThrow(
+      "expected a duration literal, got '120'"
+    );
+  });
+
+  test("keeps the kind of typed scalar defaults", () => {
+    const source = `timeout = null @env="TIMEOUT" @default=30s`;
+
+    const fallback = resolve(parse(source), { env: {} }).result;
+    expect(fallback.timeout).toMatchObject({ value: "30s", kind: "duration" });
+    expect(toObject(fallback).timeout).toBe(30000);
+
+    const { result } = resolve(parse(source), { env: { TIMEOUT: "2m" } });
+    expect(toObject(result).timeout).toBe(120000);
+    expect(() => resolve(parse(source), { env: { TIMEOUT: "120" } })).toThrow(
+      "expected a duration literal, got '120'"
+    );
+  });
+
+  test("throws for missing required values and bad env values", () => {
+    const source = `
+      secret = null @env="SECRET" @required=true
+      port = 80 @env="PORT"
+    `;
+
+    try {
+      resolve(parse(source), { env: { PORT: "eighty" } });
+      throw new Error("Should have thrown an error");
+    } catch (error) {
+      expect(error).toBeInstanceOf(BringResolveError);
+      const issues = (error as BringResolveError).issues;
+      expect(issues.map((issue) => issue.path)).toEqual(["secret", "port"]);
+      expect(issues[0].message).toContain("SECRET");
+      expect(issues[0].line).toBe(2);
+      expect(issues[1].message).toContain("expected a number");
+    }
+  });
+});
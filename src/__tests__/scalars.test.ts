@@ -0,0 +1,98 @@
+// src/__tests__/scalars.test.ts
+import {
+  BringParseError,
+  isScalar,
+  parse,
+  stringify,
+  toObject,
+} from "../index";
+
+const source = `release = {
+  day = 2024-01-15
+  at = 2024-01-15T10:30:00Z
+  local = 2024-01-15T10:30
+  timeout = 30s
+  window = 1h30m
+  poll = 250ms
+  upload = 512MB
+  cache = 64KiB
+  version = 1.4.2-beta.1
+  requires = ^1.2.0
+  engines = [>=18, ~20.1]
+}
+`;
+
+describe("Typed scalars", () => {
+  test("parses scalars with their kind and written text", () => {
+    const items = (parse(source).release as any).items;
+
+    expect(items.day).toEqual({
+      type: "primitive",
+      value: "2024-01-15",
+      kind: "date",
+    });
+    expect(
+      Object.values(items)
+        .filter((value: any) => value.type === "primitive")
+        .map((value: any) => value.kind)
+    ).toEqual([
+      "date",
+      "datetime",
+      "datetime",
+      "duration",
+      "duration",
+      "duration",
+      "bytes",
+      "bytes",
+      "semver",
+      "semver",
+    ]);
+    expect(items.engines.items.map((item: any) => item.value)).toEqual([
+      ">=18",
+      "~20.1",
+    ]);
+    expect(isScalar(items.timeout)).toBe(true);
+  });
+
+  test("converts scalars to JavaScript values", () => {
+    const release = toObject(parse(source)).release;
+
+    expect(release.day).toEqual(new Date(Date.UTC(2024, 0, 15)));
+    expect(release.at.toISOString()).toBe("2024-01-15T10:30:00.000Z");
+    expect(release.timeout).toBe(30000);
+    expect(release.window).toBe(5400000);
+    expect(release.poll).toBe(250);
+    expect(release.upload).toBe(512000000);
+    expect(release.cache).toBe(65536);
+    expect(release.requires).toBe("^1.2.0");
+  });
+
+  test("round-trips through stringify", () => {
+    const result = parse(source);
+
+    expect(stringify(result)).toBe(source);
+    expect(stringify({ at: new Date(Date.UTC(2024, 0, 15)) })).toBe(
+      "at = 2024-01-15T00:00:00.000Z\n"
+    );
+  });
+
+  test("leaves numbers and quoted strings alone", () => {
+    const obj = toObject(parse(`a = 30\nb = "30s"\nc = 1.5\nd = "2024-01-15"`));
+
+    expect(obj).toEqual({ a: 30, b: "30s", c: 1.5, d: "2024-01-15" });
+  });
+
+  test("reports malformed scalars", () => {
+    expect(() => parse(`a = 2024-02-30`)).toThrow("Invalid date: 2024-02-30");
+    expect(() => parse(`a = 2024-01-15T25:00`)).toThrow("Invalid time");
+    expect(() => parse(`a = 2024-01-15T25:30:00.5Z`)).toThrow(
+      "Invalid time: 2024-01-15T25:30:00.5Z"
+    );
+    expect(() => parse(`a = 2024-01-15T10:30:60.25+01:00`)).toThrow(
+      "Invalid time"
+    );
+    expect(() => parse(`a = 2024-01-15T10:30:59.999Z`)).not.toThrow();
+    expect(() => parse(`a = 30sec`)).toThrow("Invalid number format: 30sec");
+    expect(() => parse(`a = 2024-01-15T25:00`)).toThrow(BringParseError);
+  });
+});
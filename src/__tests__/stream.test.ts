@@ -0,0 +1,260 @@
+// src/__tests__/stream.test.ts
+import {
+  BringDiagnostic,
+  BringParseError,
+  BringStreamEvent,
+  BringStreamParser,
+  ParseOptions,
+  ParseResult,
+  parse,
+  parseStream,
+  toObject,
+} from "../index";
+
+const source = `# Export
+version = 2
+users = [
+  { name = "Ann", roles = ["admin", "dev"] }, # first
+  # between items
+  { name = "Bob, Jr.", note = """multi
+line ] text""" }
+  { name = 'C[#]' }
+] @count=3
+[meta]
+created = 2024-01-15
+tags = []
+schema User {
+  name = string
+}
+`;
+
+// Feed the text in chunks of the given size and collect every event
+function events(text: string, size: number): BringStreamEvent[] {
+  const parser = new BringStreamParser();
+  const result: BringStreamEvent[] = [];
+  for (let i = 0; i < text.length; i += size) {
+    result.push(...parser.write(text.slice(i, i + size)));
+  }
+  result.push(...parser.end());
+  return result;
+}
+
+// Build the parse result the events describe
+function assemble(stream: BringStreamEvent[]): ParseResult {
+  const result: ParseResult = {};
+  const set = (path: string[], value: any) => {
+    let items: any = result;
+    for (const key of path.slice(0, -1)) {
+      items[key] ??= { type: "object", items: {} };
+      items = items[key].items;
+    }
+    items[path[path.length - 1]] = value;
+  };
+  const get = (path: string[]) =>
+    path.reduce((value: any, key, i) => (i ? value.items : value)[key], result);
+
+  for (const event of stream) {
+    if (event.type === "entry") set(event.path, event.value);
+    if (event.type === "section")
+      set(event.path, { type: "object", items: {} });
+    if (event.type === "schema")
+      result[`schema:${event.schema.name}`] = event.schema;
+    if (event.type === "arrayStart")
+      set(event.path, { type: "array", items: [] });
+    if (event.type === "item") get(event.path).items.push(event.value);
+    if (event.type === "arrayEnd" && event.attributes) {
+      get(event.path).attributes = event.attributes;
+    }
+  }
+  return result;
+}
+
+function errorOf(run: () => unknown): BringParseError {
+  try {
+    run();
+  } catch (error) {
+    return error as BringParseError;
+  }
+  throw new Error("Expected an error");
+}
+
+describe("streaming parser", () => {
+  test("emits statements and top-level array items as they complete", () => {
+    const stream = events(source, 1000);
+
+    expect(stream.map((event) => event.type)).toEqual([
+      "entry",
+      "arrayStart",
+      "item",
+      "item",
+      "item",
+      "arrayEnd",
+      "section",
+      "entry",
+      "arrayStart",
+      "arrayEnd",
+      "schema",
+    ]);
+    expect(stream[3]).toMatchObject({ type: "item", index: 1 });
+    expect(toObject((stream[3] as any).value)).toEqual({
+      name: "Bob, Jr.",
+      note: "multi\nline ] text",
+    });
+    expect(stream[5]).toEqual({
+      type: "arrayEnd",
+      path: ["users"],
+      attributes: [{ name: "count", value: 3 }],
+    });
+    expect(stream[8]).toEqual({ type: "arrayStart", path: ["meta", "tags"] });
+  });
+
+  test("gives the batch result for any chunk size", () => {
+    const expected = parse(source);
+    for (const size of [1, 2, 3, 7, 64]) {
+      expect(assemble(events(source, size))).toEqual(expected);
+    }
+  });
+
+  test("yields items before the array is complete", () => {
+    const parser = new BringStreamParser();
+
+    expect(parser.write("rows = [\n  { id = 1 },\n  { id")).toEqual([
+      { type: "arrayStart", path: ["rows"] },
+      {
+        type: "item",
+        path: ["rows"],
+        index: 0,
+        value: parse("v = { id = 1 }").v,
+      },
+    ]);
+    // A newline could still be followed by the item's comma
+    expect(parser.write(" = 2 }\n")).toEqual([]);
+    expect(parser.write("  ,")).toHaveLength(1);
+    expect(parser.end("]\n")).toEqual([{ type: "arrayEnd", path: ["rows"] }]);
+  });
+
+  test("reports errors at the same positions as parse", () => {
+    const cases = [
+      "users = [\n  { id = 1 },\n  { id = }\n]",
+      "users = [1, 2",
+      "a =\n  # comment\n  1",
+      'a = 1\nb = "open\n',
+      "[s]\nx = 1 @y=\n",
+    ];
+    for (const text of cases) {
+      const expected = errorOf(() => parse(text));
+      for (const size of [1, 4, 100]) {
+        const error = errorOf(() => events(text, size));
+        expect(error).toBeInstanceOf(BringParseError);
+        expect([error.message, error.position]).toEqual([
+          expected.message,
+          expected.position,
+        ]);
+      }
+    }
+  });
+
+  test("finds duplicate keys and key conflicts across statements", () => {
+    const cases: [string, ParseOptions][] = [
+      ["a = 1\na = 2", { strict: true }],
+      ["a = 1\na.b = 2", {}],
+      ["u=[1]\nu=[2]", { strict: true }],
+      ["[s]\nk = 1\n[s]\nk = 2", { strict: true }],
+      [
+        "schema A { x = string }\ns = 1\nschema A { y = string }",
+        { strict: true },
+      ],
+    ];
+    for (const [text, options] of cases) {
+      const expected = errorOf(() => parse(text, options));
+      for (const size of [1, 100]) {
+        const error = errorOf(() => {
+          const parser = new BringStreamParser(options);
+          for (let i = 0; i < text.length; i += size) {
+            parser.write(text.slice(i, i + size));
+          }
+          parser.end();
+        });
+        expect([error.message, error.position]).toEqual([
+          expected.message,
+          expected.position,
+        ]);
+      }
+    }
+
+    // Outside strict mode the policy decides which value is kept
+    const text = "a = { x = 1 }\na.x = 2\nu = [1]\nu = [2]\n";
+    for (const duplicates of ["first", "last"] as const) {
+      const warnings: string[] = [];
+      const onWarning = (warning: BringDiagnostic) =>
+        warnings.push(warning.message);
+      const parser = new BringStreamParser({ duplicates, onWarning });
+      const stream = [...parser.write(text), ...parser.end()];
+
+      expect(assemble(stream)).toEqual(parse(text, { duplicates }));
+      expect(warnings).toEqual([
+        `Duplicate key 'a.x' (first defined at line 1, column 7), keeping the ${duplicates} definition`,
+        `Duplicate key 'u' (first defined at line 3, column 1), keeping the ${duplicates} definition`,
+      ]);
+    }
+  });
+
+  test("reads bytes split inside a character", () => {
+    const bytes = Buffer.from(`name = "Zoë 😀"\n`);
+    const parser = new BringStreamParser();
+    const stream: BringStreamEvent[] = [];
+    for (let i = 0; i < bytes.length; i++) {
+      stream.push(...parser.write(bytes.subarray(i, i + 1)));
+    }
+    stream.push(...parser.end());
+
+    expect(stream).toEqual([
+      { type: "entry", path: ["name"], value: parse(`n = "Zoë 😀"`).n },
+    ]);
+  });
+
+  test("can keep arrays whole", () => {
+    const stream = events("a = [1, 2]\n", 3);
+    expect(stream.map((event) => event.type)).toEqual([
+      "arrayStart",
+      "item",
+      "item",
+      "arrayEnd",
+    ]);
+
+    const parser = new BringStreamParser({ arrays: false });
+    expect([...parser.write("a = [1, 2]\n"), ...parser.end()]).toEqual([
+      { type: "entry", path: ["a"], value: parse("a = [1, 2]").a },
+    ]);
+  });
+
+  test("parseStream reads async iterables and readable streams", async () => {
+    async function* chunks() {
+      yield "a = 1\nlist = [";
+      yield Buffer.from("1, 2]\n");
+    }
+    const types: string[] = [];
+    for await (const event of parseStream(chunks())) {
+      types.push(event.type);
+    }
+    expect(types).toEqual(["entry", "arrayStart", "item", "item", "arrayEnd"]);
+
+    const parts = ["x = ", "true\n"];
+    const readable = {
+      getReader: () => ({
+        read: async () =>
+          parts.length > 0
+            ? { done: false, value: parts.shift() }
+            : { done: true },
+        releaseLock: () => undefined,
+      }),
+    };
+    const result: BringStreamEvent[] = [];
+    for await (const event of parseStream(readable)) {
+      result.push(event);
+    }
+    expect(result).toEqual([
+      { type: "entry", path: ["x"], value: parse("x = true").x },
+    ]);
+  });
+});
@@ -0,0 +1,161 @@
+// src/__tests__/stringify.test.ts
+import { parse, stringify, toObject } from "../index";
+
+describe("stringify", () => {
+  describe("Round-trip", () => {
+    test("round-trips documents through parse", () => {
+      const config = `
+        schema User {
+          id = number @min=1 @required=true
+          "display name" = string @maxLength=50
+        }
+
+        app = {
+          name = "WebApp" @version="2.1.0"
+          port = 3000 @min=1024 @max=65535
+          ratio = -0.25
+          debug = false
+          empty = null
+          quote = 'He said "hi"\\n'
+          database = {
+            host = "localhost"
+            timeout = 30 @unit="seconds"
+          }
+          features = ["auth", "api"]
+          "kebab-key" = {}
+        }
+
+        users = [
+          { id = 1, username = "alice" }
+          [1, [2, 3]]
+          []
+        ]
+      `;
+
+      const result = parse(config);
+
+      expect(parse(stringify(result))).toEqual(result);
+      expect(parse(stringify(result, { commas: true }))).toEqual(result);
+      expect(parse(stringify(result, { quote: "single" }))).toEqual(result);
+    });
+
+    test("round-trips schema types", () => {
+      const result = parse(`
+        schema Team {
+          lead = User @required=true
+          members = (User | string)[]
+          manager? = User?
+          settings = { region = string @required=true, zones = string[] }
+        }
+      `);
+      const text = stringify(result);
+
+      expect(parse(text)).toEqual(result);
+      expect(text).toContain(`  settings = {
+    region = string @required=true
+    zones = string[]
+  }`);
+      expect(text).toContain("  manager? = User | null\n");
+    });
+
+    test("round-trips numbers that print with exponents", () => {
+      const result = parse(stringify({ big: 1e21, small: 1.5e-7 }));
+      const obj = toObject(result);
+
+      expect(obj.big).toBe(1e21);
+      expect(obj.small).toBe(1.5e-7);
+    });
+
+    test("round-trips non-finite numbers", () => {
+      const text = stringify({ up: Infinity, down: -Infinity, none: NaN });
+
+      expect(text).toBe("up = inf\ndown = -inf\nnone = nan\n");
+      expect(toObject(parse(text))).toEqual({
+        up: Infinity,
+        down: -Infinity,
+        none: NaN,
+      });
+    });
+
+    test("quotes keys the parser would read as keywords", () => {
+      const text = stringify({ schema: 1, schemas: 2 });
+
+      expect(text).toBe(`"schema" = 1\nschemas = 2\n`);
+      expect(toObject(parse(text))).toEqual({ schema: 1, schemas: 2 });
+    });
+
+    test("round-trips structured attribute values", () => {
+      const source = `port = 8080 @allowed=[80, 8080] @meta={ owner = "ops" } @note=null
+schema User {
+  role = string @enum=["admin", "user"]
+}
+`;
+      const result = parse(source);
+
+      expect(stringify(result)).toBe(source);
+      expect(parse(stringify(result))).toEqual(result);
+    });
+
+    test("round-trips typed scalar attribute values", () => {
+      const source = `t = null @default=30s @until=2024-01-15 @size=1KiB\n`;
+      const result = parse(source);
+
+      expect(stringify(result)).toBe(source);
+      expect(parse(stringify(result))).toEqual(result);
+    });
+  });
+
+  describe("Output style", () => {
+    test("writes objects, attributes and schemas", () => {
+      const result = parse(`
+        schema Port {
+          value = number @min=1
+        }
+        server = { host = "localhost", port = 8080 @min=1024 }
+      `);
+
+      expect(stringify(result)).toBe(
+        [
+          "schema Port {",
+          "  value = number @min=1",
+          "}",
+          "server = {",
+          '  host = "localhost"',
+          "  port = 8080 @min=1024",
+          "}",
+          "",
+        ].join("\n")
+      );
+    });
+
+    test("applies indentation, quote and comma options", () => {
+      const text = stringify(
+        { server: { host: "localhost", port: 8080 } },
+        { indent: "\t", quote: "single", commas: true }
+      );
+
+      expect(text).toBe(
+        "server = {\n\thost = 'localhost',\n\tport = 8080\n}\n"
+      );
+    });
+
+    test("sorts keys when asked", () => {
+      const text = stringify(
+        { b: 1, a: { d: true, c: false } },
+        { sortKeys: true }
+      );
+
+      expect(text).toBe("a = {\n  c = false\n  d = true\n}\nb = 1\n");
+    });
+
+    test("writes single values", () => {
+      expect(stringify("text")).toBe('"text"');
+      expect(stringify([1, "two", null])).toBe('[1, "two", null]');
+      expect(stringify({ type: "primitive", value: 42 })).toBe("42");
+    });
+
+    test("rejects values Bring cannot represent", () => {
+      expect(() => stringify({ fn: () => 1 })).toThrow(TypeError);
+    });
+  });
+});
@@ -0,0 +1,114 @@
+// src/__tests__/tokenizer.test.ts
+import { BringToken, tokenize } from "../index";
+
+const source = `# app
+name = "api" @env="NAME"
+port = 8_080
+timeout = 30s
+flags = [true, null, -1.5e3, +inf]
+path = r"C:\\dir"
+schema Server {
+  host? = string | null
+}
+include "base.bring"
+`;
+
+const pairs = (tokens: BringToken[]) =>
+  tokens.map((token) => [token.type, token.text]);
+
+describe("tokenize", () => {
+  test("splits a document into typed tokens", () => {
+    const tokens = tokenize(source);
+
+    expect(pairs(tokens)).toEqual([
+      ["comment", "# app"],
+      ["identifier", "name"],
+      ["operator", "="],
+      ["string", `"api"`],
+      ["attribute", "@env"],
+      ["operator", "="],
+      ["string", `"NAME"`],
+      ["identifier", "port"],
+      ["operator", "="],
+      ["number", "8_080"],
+      ["identifier", "timeout"],
+      ["operator", "="],
+      ["scalar", "30s"],
+      ["identifier", "flags"],
+      ["operator", "="],
+      ["punctuation", "["],
+      ["boolean", "true"],
+      ["punctuation", ","],
+      ["null", "null"],
+      ["punctuation", ","],
+      ["number", "-1.5e3"],
+      ["punctuation", ","],
+      ["number", "+inf"],
+      ["punctuation", "]"],
+      ["identifier", "path"],
+      ["operator", "="],
+      ["string", `r"C:\\dir"`],
+      ["keyword", "schema"],
+      ["identifier", "Server"],
+      ["punctuation", "{"],
+      ["identifier", "host"],
+      ["operator", "?"],
+      ["operator", "="],
+      ["identifier", "string"],
+      ["operator", "|"],
+      ["null", "null"],
+      ["punctuation", "}"],
+      ["keyword", "include"],
+      ["string", `"base.bring"`],
+    ]);
+    expect(tokens.find((token) => token.type === "scalar")?.kind).toBe(
+      "duration"
+    );
+    // Only directives are keywords
+    expect(pairs(tokenize("s = { schema = 1, include = 2 }"))).toContainEqual([
+      "identifier",
+      "schema",
+    ]);
+  });
+
+  test("reports where each token starts", () => {
+    const tokens = tokenize(`a = """one\ntwo""" b\n  c`);
+
+    expect(
+      tokens.map(({ text, start, end, line, column }) => [
+        text,
+        start,
+        end,
+        line,
+        column,
+      ])
+    ).toEqual([
+      ["a", 0, 1, 1, 1],
+      ["=", 2, 3, 1, 3],
+      [`"""one\ntwo"""`, 4, 17, 1, 5],
+      ["b", 18, 19, 2, 8],
+      ["c", 22, 23, 3, 3],
+    ]);
+  });
+
+  test("covers the whole text when whitespace is kept", () => {
+    const tokens = tokenize(source, { whitespace: true });
+
+    expect(tokens.map((token) => token.text).join("")).toBe(source);
+    for (const token of tokens) {
+      expect(source.slice(token.start, token.end)).toBe(token.text);
+    }
+  });
+
+  test("turns what the parser rejects into invalid tokens", () => {
+    expect(pairs(tokenize(`12abc @ 0x 1__0 - ✓ "open\nstill open`))).toEqual([
+      ["invalid", "12abc"],
+      ["invalid", "@"],
+      ["invalid", "0x"],
+      ["invalid", "1__0"],
+      ["invalid", "-"],
+      ["invalid", "✓"],
+      ["invalid", `"open\nstill open`],
+    ]);
+  });
+});
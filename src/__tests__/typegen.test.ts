@@ -0,0 +1,124 @@
+// src/__tests__/typegen.test.ts
+import {
+  BringSchema,
+  BringValidationError,
+  generateTypes,
+  parse,
+  parseAs,
+} from "../index";
+
+const schemas = `
+schema User {
+  id = number @required=true
+  username = string @required=true
+  email = string @format="email"
+  role = string @enum="admin,user"
+  level = number @enum="1,2,3"
+  "display-name" = string
+  tags = array
+  meta = object
+  extra = any
+  since = date
+  timeout = duration
+}
+
+schema Empty {
+}
+`;
+
+describe("generateTypes", () => {
+  test("writes an interface per schema", () => {
+    expect(generateTypes(parse(schemas))).toBe(
+      `export interface User {
+  id: number;
+  username: string;
+  email?: string;
+  role?: "admin" | "user";
+  level?: 1 | 2 | 3;
+  "display-name"?: string;
+  tags?: unknown[];
+  meta?: Record<string, unknown>;
+  extra?: unknown;
+  since?: Date;
+  timeout?: number;
+}
+
+export interface Empty {
+}
+`
+    );
+  });
+
+  test("writes references, arrays, unions and inline objects", () => {
+    const result = parse(`
+      schema Team {
+        lead = User @required=true
+        members = (User | string)[]
+        manager? = User? @required=true
+        settings = {
+          region = string @required=true
+        }
+        other = Missing
+      }
+      schema User {
+        id = number
+      }
+    `);
+
+    expect(generateTypes(result)).toContain(`export interface Team {
+  lead: User;
+  members?: (User | string)[];
+  manager?: User | null;
+  settings?: {
+    region: string;
+  };
+  other?: unknown;
+}`);
+  });
+
+  test("ignores values", () => {
+    expect(generateTypes(parse(`name = "app"`))).toBe("");
+  });
+});
+
+describe("parseAs", () => {
+  interface Config {
+    host: string;
+    port?: number;
+  }
+  const schema = `schema Config {
+    host = string @required=true
+    port = number @min=1
+  }`;
+
+  test("returns plain data when valid", () => {
+    const config = parseAs<Config>(`${schema}\nhost = "localhost"`, "Config");
+    expect(config).toEqual({ host: "localhost" });
+  });
+
+  test("accepts a schema object", () => {
+    const external = parse(schema)["schema:Config"] as BringSchema;
+    expect(parseAs<Config>(`host = "a"\nport = 80`, external)).toEqual({
+      host: "a",
+      port: 80,
+    });
+  });
+
+  test("throws every violation", () => {
+    let error: BringValidationError | undefined;
+    try {
+      parseAs<Config>(`${schema}\nport = 0`, "Config");
+    } catch (e) {
+      error = e as BringValidationError;
+    }
+
+    expect(error).toBeInstanceOf(BringValidationError);
+    expect(error?.errors.map((issue) => issue.rule)).toEqual([
+      "required",
+      "min",
+    ]);
+    expect(() => parseAs(`a = 1`, "Missing")).toThrow(
+      "Unknown schema 'Missing'"
+    );
+  });
+});
@@ -0,0 +1,284 @@
+// src/__tests__/validator.test.ts
+import { parse, validate, validateDocument, BringSchema } from "../index";
+
+const schemas = `
+  schema User {
+    id = number @min=1 @required=true
+    username = string @minLength=3 @maxLength=20 @required=true
+    email = string @format="email" @required=true @unique=true
+    role = string @enum="admin,user,guest" @default="user"
+    active = boolean @default=true
+  }
+`;
+
+describe("Schema validation", () => {
+  describe("validate", () => {
+    test("accepts valid data", () => {
+      const result = parse(`
+        ${schemas}
+        user = { id = 1, username = "alice", email = "alice@example.com" }
+      `);
+
+      const report = validate(
+        result.user as any,
+        result["schema:User"] as BringSchema
+      );
+
+      expect(report.valid).toBe(true);
+      expect(report.errors).toEqual([]);
+    });
+
+    test("reports missing required keys", () => {
+      const result = parse(`
+        ${schemas}
+        user = { username = "alice" }
+      `);
+
+      const report = validate(
+        result.user as any,
+        result["schema:User"] as BringSchema
+      );
+
+      expect(report.valid).toBe(false);
+      expect(report.errors.map((e) => [e.path, e.rule])).toEqual([
+        ["id", "required"],
+        ["email", "required"],
+      ]);
+    });
+
+    test("checks types and attribute constraints", () => {
+      const result = parse(`
+        ${schemas}
+        user = {
+          id = 0
+          username = "al"
+          email = "not-an-email"
+          role = "owner"
+          active = "yes"
+        }
+      `);
+
+      const report = validate(
+        result.user as any,
+        result["schema:User"] as BringSchema
+      );
+
+      expect(report.errors.map((e) => [e.path, e.rule])).toEqual([
+        ["id", "min"],
+        ["username", "minLength"],
+        ["email", "format"],
+        ["role", "enum"],
+        ["active", "type"],
+      ]);
+    });
+
+    test("reports the source line of each bad value", () => {
+      const result = parse(
+        [
+          "schema Port {",
+          "  value = number @max=65535",
+          "}",
+          "server = {",
+          "  value = 70000",
+          "}",
+        ].join("\n")
+      );
+
+      const report = validate(
+        result.server as any,
+        result["schema:Port"] as BringSchema
+      );
+
+      expect(report.errors).toHaveLength(1);
+      expect(report.errors[0].line).toBe(5);
+      expect(report.errors[0].column).toBe(11);
+    });
+
+    test("validates arrays element by element", () => {
+      const result = parse(`
+        ${schemas}
+        users = [
+          { id = 1, username = "alice", email = "a@example.com" }
+          { id = 2, username = "bob", email = "a@example.com" }
+          { id = -1, username = "carol", email = "c@example.com" }
+        ]
+      `);
+
+      const report = validate(
+        result.users as any,
+        result["schema:User"] as BringSchema
+      );
+
+      expect(report.errors.map((e) => [e.path, e.rule])).toEqual([
+        ["[2].id", "min"],
+        ["[1].email", "unique"],
+      ]);
+    });
+
+    test("accepts enums written as arrays", () => {
+      const result = parse(`
+        schema Plan {
+          tier = string @enum=["free", "pro"]
+          seats = number @enum=[1, 5, 10]
+        }
+        ok = { tier = "pro", seats = 5 }
+        bad = { tier = "gold", seats = 2 }
+      `);
+      const schema = result["schema:Plan"] as BringSchema;
+
+      expect(validate(result.ok as any, schema).valid).toBe(true);
+      expect(
+        validate(result.bad as any, schema).errors.map((issue) => issue.path)
+      ).toEqual(["tier", "seats"]);
+    });
+  });
+
+  describe("Schema types", () => {
+    const types = `
+      schema Team {
+        name = string @required=true
+        lead = User @required=true
+        members = User[]
+        tags = string[] @maxLength=2
+        id = string | number
+        note? = string? @required=true
+        settings = {
+          region = string @required=true
+          replicas = number @min=1
+        }
+      }
+      ${schemas}
+    `;
+
+    test("validates references, arrays, unions and inline objects", () => {
+      const result = parse(`${types}
+        team = {
+          name = "core"
+          lead = { id = 1, username = "alice", email = "alice@example.com" }
+          members = [
+            { id = 2, username = "bob", email = "bob@example.com" }
+          ]
+          tags = ["a"]
+          id = 7
+          note = null
+          settings = { region = "eu", replicas = 3 }
+        }
+      `);
+
+      const report = validate(
+        result.team as any,
+        result["schema:Team"] as BringSchema,
+        { schemas: result }
+      );
+
+      expect(report.errors).toEqual([]);
+    });
+
+    test("reports nested errors by path", () => {
+      const result = parse(`${types}
+        team = {
+          name = "core"
+          lead = { id = 0, username = "alice", email = "alice@example.com" }
+          members = [{ id = 2, username = "bob" }, "carol"]
+          tags = ["a", 2, "c"]
+          id = true
+          settings = { replicas = 0 }
+        }
+      `);
+
+      const report = validate(
+        result.team as any,
+        result["schema:Team"] as BringSchema,
+        { schemas: result }
+      );
+
+      expect(
+        report.errors.map((error) => `${error.path}: ${error.message}`)
+      ).toEqual([
+        "lead.id: Value 0 is less than 1",
+        "members[0].email: Missing required key 'email'",
+        "members[1]: Expected User, got string",
+        "tags[1]: Expected string, got number",
+        "tags: Length 3 is greater than 2",
+        "id: Expected string | number, got boolean",
+        "settings.region: Missing required key 'region'",
+        "settings.replicas: Value 0 is less than 1",
+      ]);
+    });
+
+    test("only nullable types accept null for required keys", () => {
+      const result = parse(`
+        schema A {
+          a = string @required=true
+          b = string? @required=true
+          c = string | null @required=true
+        }
+        value = { a = null, b = null, c = null }
+      `);
+
+      const report = validate(result.value as any, result["schema:A"] as any);
+
+      expect(report.errors.map((error) => error.path)).toEqual(["a"]);
+    });
+
+    test("reports unknown type names", () => {
+      const result = parse(`
+        schema A { owner = Person }
+        value = { owner = {} }
+      `);
+
+      const report = validate(result.value as any, result["schema:A"] as any);
+
+      expect(report.errors[0].message).toBe("Unknown type 'Person'");
+    });
+
+    test("checks typed scalar types", () => {
+      const result = parse(`
+        schema Job {
+          started = datetime
+          timeout = duration
+          limit = bytes
+          name = string
+        }
+        ok = { started = 2024-01-15T08:00:00Z, timeout = 30s, limit = 1GB, name = "x" }
+        bad = { started = "2024-01-15", timeout = 30, limit = 5m, name = 1.0.0 }
+      `);
+      const schema = result["schema:Job"] as BringSchema;
+
+      expect(validate(result.ok as any, schema).valid).toBe(true);
+      expect(
+        validate(result.bad as any, schema).errors.map((e) => e.message)
+      ).toEqual([
+        "Expected datetime, got string",
+        "Expected duration, got number",
+        "Expected bytes, got duration",
+        "Expected string, got semver",
+      ]);
+    });
+  });
+
+  describe("validateDocument", () => {
+    test("validates values bound with @schema", () => {
+      const result = parse(`
+        ${schemas}
+        admin = { id = 1, username = "root" } @schema="User"
+        other = { anything = true }
+      `);
+
+      const report = validateDocument(result);
+
+      expect(report.valid).toBe(false);
+      expect(report.errors).toHaveLength(1);
+      expect(report.errors[0].path).toBe("admin.email");
+    });
+
+    test("reports unknown schema bindings", () => {
+      const result = parse(`config = {} @schema="Missing"`);
+
+      const report = validateDocument(result);
+
+      expect(report.errors[0].rule).toBe("schema");
+      expect(report.errors[0].message).toContain("Missing");
+    });
+  });
+});
@@ -0,0 +1,195 @@
+// src/accessor.ts - Typed value access
+
+/**
+ * Reading values out of parse results by path, e.g. `users[0].email`
+ */
+
+import {
+  BringAttribute,
+  BringValue,
+  ParseResult,
+  getPosition,
+  isBringValue,
+  toObject,
+} from "./index";
+import { PathSegment, formatPath, parsePath } from "./path";
+import { describeValue } from "./validator";
+
+export class BringAccessError extends Error {
+  public path: string;
+  public line?: number;
+  public column?: number;
+
+  constructor(message: string, path: string, line?: number, column?: number) {
+    super(
+      line !== undefined
+        ? `${message} at line ${line}, column ${column}`
+        : message
+    );
+    this.name = "BringAccessError";
+    this.path = path;
+    this.line = line;
+    this.column = column;
+  }
+}
+
+type Primitive = string | number | boolean;
+
+/**
+ * Parse a path, reporting a malformed one as a `BringAccessError`
+ */
+function segmentsOf(path: string | PathSegment[]): PathSegment[] {
+  try {
+    return parsePath(path);
+  } catch (error) {
+    throw new BringAccessError((error as Error).message, String(path));
+  }
+}
+
+/**
+ * Walk a path, returning the value found or why the walk stopped
+ */
+function walk(
+  result: ParseResult,
+  segments: PathSegment[]
+): BringValue | string {
+  if (segments.length === 0) {
+    return "Empty path";
+  }
+
+  let current: BringValue | undefined;
+  for (const [index, segment] of segments.entries()) {
+    const parent = formatPath(segments.slice(0, index));
+    if (index === 0) {
+      // Only own keys count, never inherited ones such as `constructor`
+      const root = Object.prototype.hasOwnProperty.call(result, segment)
+        ? result[String(segment)]
+        : undefined;
+      if (!isBringValue(root)) return `Key '${segment}' not found`;
+      current = root;
+    } else if (current!.type === "object" && typeof segment === "string") {
+      if (!Object.prototype.hasOwnProperty.call(current!.items, segment)) {
+        return `Key '${segment}' not found in '${parent}'`;
+      }
+      current = current!.items[segment];
+    } else if (current!.type === "array" && typeof segment === "number") {
+      const length = current!.items.length;
+      current = current!.items[segment];
+      if (!current) {
+        return `Index ${segment} is out of range for '${parent}' (length ${length})`;
+      }
+    } else {
+      return typeof segment === "number"
+        ? `Cannot index ${describeValue(current!)} '${parent}'`
+        : `Cannot read key '${segment}' of ${describeValue(current!)} '${parent}'`;
+    }
+  }
+  return current!;
+}
+
+/**
+ * Find the value at a path, or undefined when there is none
+ */
+export function findValue(
+  result: ParseResult,
+  path: string | PathSegment[]
+): BringValue | undefined {
+  const found = walk(result, segmentsOf(path));
+  return typeof found === "string" ? undefined : found;
+}
+
+/**
+ * Get the Bring value at a path, throwing a `BringAccessError` when missing
+ */
+export function getValue(
+  result: ParseResult,
+  path: string | PathSegment[]
+): BringValue {
+  const found = walk(result, segmentsOf(path));
+  if (typeof found === "string") {
+    throw new BringAccessError(found, formatPath(segmentsOf(path)));
+  }
+  return found;
+}
+
+function getTyped<T extends Primitive>(
+  type: "string" | "number" | "boolean",
+  result: ParseResult,
+  path: string | PathSegment[],
+  fallback: T | undefined
+): T {
+  const value = findValue(result, path);
+  if (!value && fallback !== undefined) {
+    return fallback;
+  }
+
+  const found = value ?? getValue(result, path);
+  if (found.type !== "primitive" || typeof found.value !== type) {
+    const position = found.loc?.start ?? getPosition(found);
+    const formatted = formatPath(segmentsOf(path));
+    throw new BringAccessError(
+      `Expected ${type} at '${formatted}', got ${describeValue(found)}`,
+      formatted,
+      position?.line,
+      position?.column
+    );
+  }
+  return found.value as T;
+}
+
+/**
+ * Get the plain JavaScript value at a path
+ */
+export function get<T = unknown>(
+  result: ParseResult,
+  path: string | PathSegment[]
+): T {
+  return toObject(getValue(result, path));
+}
+
+/**
+ * Get the number at a path; `fallback` is returned when the path is missing
+ */
+export function getNumber(
+  result: ParseResult,
+  path: string | PathSegment[],
+  fallback?: number
+): number {
+  return getTyped("number", result, path, fallback);
+}
+
+/**
+ * Get the string at a path; `fallback` is returned when the path is missing
+ */
+export function getString(
+  result: ParseResult,
+  path: string | PathSegment[],
+  fallback?: string
+): string {
+  return getTyped("string", result, path, fallback);
+}
+
+/**
+ * Get the boolean at a path; `fallback` is returned when the path is missing
+ */
+export function getBoolean(
+  result: ParseResult,
+  path: string | PathSegment[],
+  fallback?: boolean
+): boolean {
+  return getTyped("boolean", result, path, fallback);
+}
+
+/**
+ * Get the attributes of the value at a path, keyed by name
+ */
+export function getAttributes(
+  result: ParseResult,
+  path: string | PathSegment[]
+): Record<string, BringAttribute["value"]> {
+  const attributes: Record<string, BringAttribute["value"]> = {};
+  for (const attr of getValue(result, path).attributes ?? []) {
+    attributes[attr.name] = attr.value;
+  }
+  return attributes;
+}
@@ -0,0 +1,341 @@
+#!/usr/bin/env node
+// src/cli.ts - Command line interface
+
+/**
+ * The `bring` command
+ */
+
+import * as fs from "fs";
+import {
+  BringConvertError,
+  BringParseError,
+  ConversionWarning,
+  ConvertOptions,
+  FormatOptions,
+  ParseResult,
+  format,
+  parse,
+  stringify,
+  toJSON,
+  toObject,
+} from "./index";
+import { getValue } from "./accessor";
+import {
+  fromJSON,
+  fromTOML,
+  fromXML,
+  fromYAML,
+  toTOML,
+  toXML,
+  toYAML,
+} from "./convert";
+import { generateTypes } from "./typegen";
+import { validateDocument } from "./validator";
+
+export interface CliIO {
+  stdout(text: string): void;
+  stderr(text: string): void;
+  readFile(path: string): string;
+  writeFile(path: string, content: string): void;
+  readStdin(): string;
+}
+
+const USAGE = `Usage: bring <command> [options]
+
+Files may be given as '-' or left out to read from stdin.
+
+Commands:
+  parse [file]                       Print the document as JSON
+  validate [file] [--schema <file>]  Check syntax and @schema bindings
+  convert [file] --to <format>       Convert between bring, json, yaml, toml
+      [--from <format>]              and xml; --from defaults to the extension
+  fmt [files...] [--check]           Rewrite files in the canonical layout
+      [--indent <n>] [--commas] [--sort-keys]
+  get <file> <path>                  Print the value at a dotted path
+  types <file> [-o <out>]            Generate TypeScript interfaces from schemas
+`;
+
+// Options that are switches rather than taking a value
+const FLAGS = ["check", "commas", "sort-keys"];
+
+const nodeIO: CliIO = {
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+  readFile: (path) => fs.readFileSync(path, "utf-8"),
+  writeFile: (path, content) => fs.writeFileSync(path, content),
+  readStdin: () => fs.readFileSync(0, "utf-8"),
+};
+
+class UsageError extends Error {}
+
+/**
+ * Split arguments into positionals and `-x value` / `--name value` options
+ */
+function parseArgs(args: string[]): {
+  positional: string[];
+  options: Record<string, string>;
+} {
+  const positional: string[] = [];
+  const options: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg.startsWith("-") && arg.length > 1) {
+      const name = arg.replace(/^--?/, "");
+      options[name] = FLAGS.includes(name) ? "true" : (args[++i] ?? "");
+    } else {
+      positional.push(arg);
+    }
+  }
+  return { positional, options };
+}
+
+function read(file: string | undefined, io: CliIO): string {
+  return file === undefined || file === "-"
+    ? io.readStdin()
+    : io.readFile(file);
+}
+
+function output(
+  text: string,
+  options: Record<string, string>,
+  io: CliIO
+): void {
+  const out = options.o ?? options.out;
+  if (out) {
+    io.writeFile(out, text);
+  } else {
+    io.stdout(text);
+  }
+}
+
+function parseCommand(args: string[], io: CliIO): number {
+  const { positional } = parseArgs(args);
+  if (positional.length > 1) throw new UsageError();
+
+  io.stdout(`${toJSON(parse(read(positional[0], io)))}\n`);
+  return 0;
+}
+
+function validateCommand(args: string[], io: CliIO): number {
+  const { positional, options } = parseArgs(args);
+  if (positional.length > 1) throw new UsageError();
+
+  const name = positional[0] ?? "<stdin>";
+  const { result, diagnostics } = parse(read(positional[0], io), {
+    recover: true,
+  });
+  let failed = false;
+
+  for (const diagnostic of diagnostics) {
+    const { line, column } = diagnostic.range.start;
+    // Parse errors already end with their position
+    const message = diagnostic.message.replace(/ at line \d+, column \d+$/, "");
+    io.stderr(
+      `${name}:${line}:${column}: ${diagnostic.severity}: ${message} [${diagnostic.code}]\n`
+    );
+    failed = failed || diagnostic.severity === "error";
+  }
+
+  let schemas: ParseResult = {};
+  if (options.schema) {
+    try {
+      schemas = parse(io.readFile(options.schema));
+    } catch (error) {
+      // Name the schema file, not the document being validated
+      if (!(error instanceof BringParseError)) throw error;
+      io.stderr(`${options.schema}: ${error.message}\n`);
+      return 1;
+    }
+  }
+  for (const issue of validateDocument({ ...schemas, ...result }).errors) {
+    io.stderr(
+      `${name}:${issue.line ?? 0}:${issue.column ?? 0}: error: ${issue.path}: ${issue.message} [${issue.rule}]\n`
+    );
+    failed = true;
+  }
+
+  return failed ? 1 : 0;
+}
+
+const FORMATS = ["bring", "json", "yaml", "toml", "xml"];
+
+const EXTENSIONS: Record<string, string> = {
+  ".json": "json",
+  ".yaml": "yaml",
+  ".yml": "yaml",
+  ".toml": "toml",
+  ".xml": "xml",
+};
+
+function formatOption(value: string | undefined, fallback?: string): string {
+  const format = value ?? fallback;
+  if (format === undefined || !FORMATS.includes(format)) {
+    throw new UsageError(
+      `Unknown format '${format ?? ""}', expected ${FORMATS.join(", ")}`
+    );
+  }
+  return format;
+}
+
+function convertCommand(args: string[], io: CliIO): number {
+  const { positional, options } = parseArgs(args);
+  if (positional.length > 1) throw new UsageError();
+
+  const file = positional[0];
+  const extension = /\.[^./\\]+$/.exec(file ?? "")?.[0].toLowerCase();
+  const from = formatOption(
+    options.from,
+    (extension && EXTENSIONS[extension]) || "bring"
+  );
+  const to = formatOption(options.to);
+
+  const name = file === undefined || file === "-" ? "<stdin>" : file;
+  const convertOptions: ConvertOptions = {
+    onWarning: ({ path, message }: ConversionWarning) =>
+      io.stderr(`${name}: warning: ${path ? `${path}: ` : ""}${message}\n`),
+  };
+
+  const source = read(file, io);
+  const readers: Record<string, (text: string) => ParseResult> = {
+    bring: (text) => parse(text),
+    json: (text) => fromJSON(text, convertOptions),
+    yaml: (text) => fromYAML(text, convertOptions),
+    toml: (text) => fromTOML(text, convertOptions),
+    xml: (text) => fromXML(text, convertOptions),
+  };
+  const result = readers[from](source);
+
+  switch (to) {
+    case "json":
+      output(`${toJSON(result)}\n`, options, io);
+      break;
+    case "yaml":
+      output(toYAML(result, convertOptions), options, io);
+      break;
+    case "toml":
+      output(toTOML(result, convertOptions), options, io);
+      break;
+    case "xml":
+      output(toXML(result, convertOptions), options, io);
+      break;
+    default:
+      output(stringify(result), options, io);
+  }
+  return 0;
+}
+
+function fmtCommand(args: string[], io: CliIO): number {
+  const { positional, options } = parseArgs(args);
+  const check = options.check === "true";
+  const formatOptions: FormatOptions = {
+    commas: options.commas === "true",
+    sortKeys: options["sort-keys"] === "true",
+  };
+  if (options.indent !== undefined) {
+    const indent = Number(options.indent);
+    if (!Number.isInteger(indent) || indent < 0) {
+      throw new UsageError(`Invalid indent '${options.indent}'`);
+    }
+    formatOptions.indent = indent;
+  }
+
+  if (positional.length === 0 || positional[0] === "-") {
+    const source = io.readStdin();
+    const formatted = format(source, formatOptions);
+    if (check) {
+      if (formatted === source) return 0;
+      io.stderr("<stdin>: not formatted\n");
+      return 1;
+    }
+    io.stdout(formatted);
+    return 0;
+  }
+
+  let unformatted = 0;
+  for (const file of positional) {
+    const source = io.readFile(file);
+    const formatted = format(source, formatOptions);
+    if (formatted === source) continue;
+    if (check) {
+      io.stderr(`${file}: not formatted\n`);
+      unformatted += 1;
+    } else {
+      io.writeFile(file, formatted);
+    }
+  }
+  return unformatted > 0 ? 1 : 0;
+}
+
+function getCommand(args: string[], io: CliIO): number {
+  const { positional } = parseArgs(args);
+  if (positional.length !== 2) throw new UsageError();
+
+  const value = getValue(parse(read(positional[0], io)), positional[1]);
+  const data = toObject(value);
+  // Strings print bare so they can be used in shell scripts
+  io.stdout(
+    typeof data === "string" ? `${data}\n` : `${JSON.stringify(data)}\n`
+  );
+  return 0;
+}
+
+function typesCommand(args: string[], io: CliIO): number {
+  const { positional, options } = parseArgs(args);
+  if (positional.length !== 1) throw new UsageError();
+
+  output(generateTypes(parse(io.readFile(positional[0]))), options, io);
+  return 0;
+}
+
+const COMMANDS: Record<string, (args: string[], io: CliIO) => number> = {
+  parse: parseCommand,
+  validate: validateCommand,
+  convert: convertCommand,
+  fmt: fmtCommand,
+  get: getCommand,
+  types: typesCommand,
+};
+
+/**
+ * Run the CLI with the given arguments, returning the exit code
+ */
+export function main(argv: string[], io: CliIO = nodeIO): number {
+  const [command, ...args] = argv;
+  try {
+    if (
+      command === undefined ||
+      command === "help" ||
+      command === "--help" ||
+      command === "-h"
+    ) {
+      io.stdout(USAGE);
+      return command === undefined ? 2 : 0;
+    }
+    const run = Object.prototype.hasOwnProperty.call(COMMANDS, command)
+      ? COMMANDS[command]
+      : undefined;
+    if (!run) {
+      io.stderr(`Unknown command '${command}'\n\n${USAGE}`);
+      return 2;
+    }
+    return run(args, io);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      io.stderr(error.message ? `${error.message}\n` : USAGE);
+      return 2;
+    }
+    const file = parseArgs(args).positional[0];
+    const prefix =
+      (error instanceof BringParseError ||
+        error instanceof BringConvertError) &&
+      file
+        ? `${file}: `
+        : "";
+    io.stderr(`${prefix}${(error as Error).message}\n`);
+    return 1;
+  }
+}
+
+if (require.main === module) {
+  process.exitCode = main(process.argv.slice(2));
+}
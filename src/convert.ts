@@ -0,0 +1,359 @@
+// src/convert.ts - Conversion to and from other formats
+
+/**
+ * Readers and writers for JSON, YAML, TOML and XML
+ *
+ * Attributes have no direct equivalent in JSON, YAML or TOML, so they travel
+ * as sidecar keys: `port = 8080 @min=1024` becomes `port: 8080` next to
+ * `"@port": { min: 1024 }`. In XML they are the attributes of the element.
+ * Anything a format cannot hold is reported through `onWarning`.
+ */
+
+import {
+  BringAttribute,
+  BringAttributeValue,
+  BringPrimitive,
+  BringValue,
+  ParseResult,
+  isBringSchema,
+  isParseResult,
+  toObject,
+} from "./index";
+import { PathSegment, formatPath } from "./path";
+import { scalarValue } from "./scalars";
+import { fromPlain } from "./stringify";
+import { readYAML, writeYAML } from "./yaml";
+import { readTOML, writeTOML } from "./toml";
+import { readXML, writeXML } from "./xml";
+
+export interface ConversionWarning {
+  /** Path of the value, e.g. `app.ports[0]`; empty for the document */
+  path: string;
+  message: string;
+}
+
+export interface ConvertOptions {
+  /** Called for everything the target format cannot represent */
+  onWarning?: (warning: ConversionWarning) => void;
+}
+
+export interface XMLOptions extends ConvertOptions {
+  /** Name of the document element (default "bring") */
+  root?: string;
+}
+
+export type ConvertFormat = "json" | "yaml" | "toml" | "xml";
+
+export class BringConvertError extends Error {
+  public format: ConvertFormat;
+  public line?: number;
+  public column?: number;
+
+  constructor(
+    message: string,
+    format: ConvertFormat,
+    line?: number,
+    column?: number
+  ) {
+    super(
+      line !== undefined
+        ? `Invalid ${format.toUpperCase()}: ${message} at line ${line}, column ${column}`
+        : `Invalid ${format.toUpperCase()}: ${message}`
+    );
+    this.name = "BringConvertError";
+    this.format = format;
+    this.line = line;
+    this.column = column;
+  }
+}
+
+/** Report a warning for the value at a path */
+export type Warn = (path: PathSegment[], message: string) => void;
+
+function warner(options: ConvertOptions): Warn {
+  return (path, message) =>
+    options.onWarning?.({ path: formatPath(path), message });
+}
+
+/**
+ * The value to write for a document, leaving out its schemas
+ */
+function documentValue(
+  value: BringValue | ParseResult,
+  format: string,
+  warn: Warn
+): BringValue {
+  if (!isParseResult(value)) {
+    return value;
+  }
+
+  const items: Record<string, BringValue> = {};
+  for (const [key, item] of Object.entries(value)) {
+    if (isBringSchema(item)) {
+      warn([], `Schema '${item.name}' has no ${format} equivalent`);
+    } else if (item !== undefined) {
+      items[key] = item;
+    }
+  }
+  return { type: "object", items };
+}
+
+/**
+ * Turn the root of a converted document into a parse result
+ */
+function documentResult(
+  value: BringValue,
+  format: ConvertFormat,
+  warn: Warn
+): ParseResult {
+  if (value.type === "primitive" && value.value === null) {
+    return {};
+  }
+  if (value.type !== "object") {
+    throw new BringConvertError(
+      `the document must be a mapping of keys, not ${value.type === "array" ? "a list" : "a single value"}`,
+      format
+    );
+  }
+  return attachSidecars(value, [], warn).items;
+}
+
+function attributeValue(value: BringValue): BringAttributeValue {
+  return value.type === "primitive" ? value.value : toObject(value);
+}
+
+/**
+ * Move `@key` sidecar entries onto the attributes of `key`
+ */
+function attachSidecars<T extends BringValue>(
+  value: T,
+  path: PathSegment[],
+  warn: Warn
+): T {
+  if (value.type === "array") {
+    value.items.forEach((item, index) =>
+      attachSidecars(item, [...path, index], warn)
+    );
+  }
+  if (value.type !== "object") {
+    return value;
+  }
+
+  for (const [key, item] of Object.entries(value.items)) {
+    const name = key.substring(1);
+    // Only a sibling key can take attributes, not an inherited property
+    const target =
+      key.startsWith("@") &&
+      Object.prototype.hasOwnProperty.call(value.items, name)
+        ? value.items[name]
+        : undefined;
+    if (!target) {
+      attachSidecars(item, [...path, key], warn);
+      continue;
+    }
+    if (item.type !== "object") {
+      warn([...path, key], `Attributes of '${name}' must be a mapping`);
+      continue;
+    }
+    target.attributes = Object.entries(item.items).map(([name, attr]) => ({
+      name,
+      value: attributeValue(attr),
+    }));
+    delete value.items[key];
+  }
+  return value;
+}
+
+/**
+ * Copy a value with attributes written as `@key` sidecar entries, for
+ * formats without attributes
+ */
+export function withSidecars(
+  value: BringValue,
+  path: PathSegment[],
+  warn: Warn
+): BringValue {
+  switch (value.type) {
+    case "primitive":
+      return value.kind
+        ? { type: "primitive", value: value.value, kind: value.kind }
+        : { type: "primitive", value: value.value };
+    case "array":
+      return {
+        type: "array",
+        items: value.items.map((item, index) => {
+          if (item.attributes?.length) {
+            warn([...path, index], "Attributes of list items were left out");
+          }
+          return withSidecars(item, [...path, index], warn);
+        }),
+      };
+    case "object": {
+      const items: Record<string, BringValue> = {};
+      for (const [key, item] of Object.entries(value.items)) {
+        items[key] = withSidecars(item, [...path, key], warn);
+        if (item.attributes?.length) {
+          items[`@${key}`] = fromPlain(attributeObject(item.attributes));
+        }
+      }
+      return { type: "object", items };
+    }
+  }
+}
+
+export function attributeObject(
+  attributes: BringAttribute[]
+): Record<string, BringAttributeValue> {
+  const object: Record<string, BringAttributeValue> = {};
+  for (const attr of attributes) {
+    object[attr.name] = attr.value;
+  }
+  return object;
+}
+
+/**
+ * Durations and byte sizes become numbers in formats without those types
+ */
+export function scalarNumber(
+  value: BringPrimitive,
+  path: PathSegment[],
+  warn: Warn
+): number {
+  const text = String(value.value);
+  const number = scalarValue(value.kind!, text) as number;
+  const unit = value.kind === "duration" ? "milliseconds" : "bytes";
+  warn(path, `${value.kind} ${text} was written as ${number} ${unit}`);
+  return number;
+}
+
+/**
+ * Read a JSON document, with `@key` entries as attributes of `key`
+ */
+export function fromJSON(
+  text: string,
+  options: ConvertOptions = {}
+): ParseResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    const message = (error as Error).message;
+    const position = /position (\d+)/.exec(message);
+    if (!position) {
+      // Some engines quote the source instead of giving a position
+      throw new BringConvertError(
+        message.replace(/, ".*" is not valid JSON$/s, ""),
+        "json"
+      );
+    }
+    const before = text.substring(0, Number(position[1]));
+    const line = before.split("\n").length;
+    const column = before.length - before.lastIndexOf("\n");
+    throw new BringConvertError(
+      message.replace(/ (?:in JSON )?at position.*$/, ""),
+      "json",
+      line,
+      column
+    );
+  }
+  return documentResult(fromPlain(data), "json", warner(options));
+}
+
+/**
+ * Read a YAML document, with `@key` entries as attributes of `key`
+ *
+ * Block and flow collections, every scalar style, anchors, aliases and `<<`
+ * merge keys are supported; multiple documents and complex keys are not.
+ * Timestamps become `date` and `datetime` scalars.
+ */
+export function fromYAML(
+  text: string,
+  options: ConvertOptions = {}
+): ParseResult {
+  const warn = warner(options);
+  return documentResult(readYAML(text, warn), "yaml", warn);
+}
+
+/**
+ * Read a TOML document, with `@key` entries as attributes of `key`
+ *
+ * Dates and date-times become `date` and `datetime` scalars; local times
+ * have no Bring equivalent and are read as strings.
+ */
+export function fromTOML(
+  text: string,
+  options: ConvertOptions = {}
+): ParseResult {
+  const warn = warner(options);
+  return documentResult(readTOML(text, warn), "toml", warn);
+}
+
+/**
+ * Read an XML document
+ *
+ * The children of the document element become its keys. Elements holding
+ * only `<item>` elements become lists, as do repeated elements; XML
+ * attributes become attributes. Text is read as a number, boolean or typed
+ * scalar when it looks like one, and `<empty/>` is `null`.
+ */
+export function fromXML(
+  text: string,
+  options: ConvertOptions = {}
+): ParseResult {
+  const warn = warner(options);
+  return documentResult(readXML(text, warn), "xml", warn);
+}
+
+/**
+ * Convert Bring data to a YAML document
+ *
+ * Attributes are written as `"@key"` sidecar entries; durations and byte
+ * sizes become numbers.
+ */
+export function toYAML(
+  value: BringValue | ParseResult,
+  options: ConvertOptions = {}
+): string {
+  const warn = warner(options);
+  return writeYAML(
+    withSidecars(documentValue(value, "YAML", warn), [], warn),
+    warn
+  );
+}
+
+/**
+ * Convert Bring data to a TOML document
+ *
+ * Attributes are written as `"@key"` sidecar entries. TOML has no `null`,
+ * so keys set to `null` are left out.
+ */
+export function toTOML(
+  value: BringValue | ParseResult,
+  options: ConvertOptions = {}
+): string {
+  const warn = warner(options);
+  const data = withSidecars(documentValue(value, "TOML", warn), [], warn);
+  if (data.type !== "object") {
+    throw new TypeError("A TOML document must be an object");
+  }
+  return writeTOML(data, warn);
+}
+
+/**
+ * Convert Bring data to an XML document
+ *
+ * Keys become elements, list items `<item>` elements and attributes XML
+ * attributes. Values that would read back differently, such as the string
+ * "42" or an empty list, are reported.
+ */
+export function toXML(
+  value: BringValue | ParseResult,
+  options: XMLOptions = {}
+): string {
+  const warn = warner(options);
+  return writeXML(
+    documentValue(value, "XML", warn),
+    options.root ?? "bring",
+    warn
+  );
+}
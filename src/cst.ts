@@ -0,0 +1,694 @@
+// src/cst.ts - Lossless concrete syntax tree and editing
+
+/**
+ * Concrete syntax tree for Bring documents
+ *
+ * Every node records the `start`/`end` offsets of its source text, so the
+ * original text (comments, whitespace, quotes and commas included) can be
+ * edited by replacing only the spans that change.
+ */
+
+import {
+  BringAttributeValue,
+  BringParser,
+  BringValue,
+  ParseResult,
+} from "./index";
+import { PathSegment, formatPath, parsePath } from "./path";
+import { fromPlain, stringify, stringifyAttributeValue } from "./stringify";
+
+export interface CstSpan {
+  start: number;
+  end: number;
+}
+
+export interface CstComment extends CstSpan {
+  kind: "comment";
+  /** Comment text without the leading '#' */
+  text: string;
+}
+
+export interface CstKey extends CstSpan {
+  kind: "key";
+  /** The last key of a dotted key such as `app.port` */
+  name: string;
+  path: string[];
+  quote: '"' | "'" | null;
+}
+
+export interface CstScalar extends CstSpan {
+  kind: "scalar";
+  raw: string;
+  quote: '"' | "'" | null;
+}
+
+export interface CstAttribute extends CstSpan {
+  kind: "attribute";
+  name: string;
+  value: CstValue;
+}
+
+export interface CstObject extends CstSpan {
+  kind: "object";
+  entries: CstEntry[];
+  /** Comments not attached to any entry, e.g. in an otherwise empty object */
+  comments: CstComment[];
+}
+
+export interface CstArray extends CstSpan {
+  kind: "array";
+  items: CstItem[];
+  comments: CstComment[];
+}
+
+export type CstValue = CstScalar | CstObject | CstArray;
+
+interface CstCommented {
+  leadingComments: CstComment[];
+  trailingComment: CstComment | null;
+}
+
+export interface CstEntry extends CstSpan, CstCommented {
+  kind: "entry";
+  key: CstKey;
+  value: CstValue;
+  attributes: CstAttribute[];
+  comma: CstSpan | null;
+}
+
+export interface CstItem extends CstSpan, CstCommented {
+  kind: "item";
+  value: CstValue;
+  comma: CstSpan | null;
+}
+
+export interface CstSchemaRule extends CstSpan, CstCommented {
+  kind: "rule";
+  key: CstKey;
+  /** The type as written, and the inline object types in it, in order */
+  type: CstSpan & { name: string; objects: CstObjectType[] };
+  attributes: CstAttribute[];
+  comma: CstSpan | null;
+}
+
+/** An inline object type such as `{ city = string }` in a rule type */
+export interface CstObjectType extends CstSpan {
+  kind: "object-type";
+  rules: CstSchemaRule[];
+  comments: CstComment[];
+}
+
+export interface CstSchema extends CstSpan, CstCommented {
+  kind: "schema";
+  name: string;
+  rules: CstSchemaRule[];
+  comments: CstComment[];
+}
+
+/** An `include "file"` directive */
+export interface CstInclude extends CstSpan, CstCommented {
+  kind: "include";
+  path: string;
+}
+
+/** A `[a.b]` header and the entries that follow it, up to the next header */
+export interface CstSection extends CstSpan, CstCommented {
+  kind: "section";
+  header: CstSpan & { key: CstKey };
+  entries: (CstEntry | CstSchema | CstInclude)[];
+  comments: CstComment[];
+}
+
+export interface CstDocument extends CstSpan {
+  kind: "document";
+  entries: (CstEntry | CstSchema | CstInclude | CstSection)[];
+  comments: CstComment[];
+}
+
+type CstContainer =
+  | CstDocument
+  | CstObject
+  | CstArray
+  | CstSchema
+  | CstObjectType
+  | CstSection;
+export type CstChild =
+  | CstEntry
+  | CstSchema
+  | CstItem
+  | CstSchemaRule
+  | CstInclude
+  | CstSection;
+
+export type CstPath = string | PathSegment[];
+
+export interface InsertOptions {
+  /** Insert before the entry with this key */
+  before?: string;
+  /** Insert after the entry with this key (default: after the last entry) */
+  after?: string;
+}
+
+function childrenOf(container: CstContainer): CstChild[] {
+  switch (container.kind) {
+    case "document":
+    case "object":
+    case "section":
+      return container.entries;
+    case "array":
+      return container.items;
+    case "schema":
+    case "object-type":
+      return container.rules;
+  }
+}
+
+function innerContainer(child: CstChild): CstContainer | undefined {
+  if (child.kind === "schema" || child.kind === "section") return child;
+  if (child.kind === "rule" || child.kind === "include") return undefined;
+  return child.value.kind === "scalar" ? undefined : child.value;
+}
+
+function childEnd(child: CstChild): number {
+  return "comma" in child && child.comma ? child.comma.end : child.end;
+}
+
+/**
+ * Attach comments to the nodes they belong to
+ *
+ * A comment on the same line as the end of a node trails that node; any other
+ * comment leads the next node, or stays on the container when none follows.
+ */
+export function attachComments<T extends CstContainer>(
+  text: string,
+  container: T,
+  comments: CstComment[]
+): T {
+  const children = childrenOf(container);
+  const nested = new Map<CstChild, CstComment[]>();
+
+  for (const comment of comments) {
+    const owner = children.find(
+      (child) => child.start <= comment.start && comment.end <= child.end
+    );
+    if (owner) {
+      nested.set(owner, [...(nested.get(owner) ?? []), comment]);
+      continue;
+    }
+
+    const previous = children
+      .filter((child) => childEnd(child) <= comment.start)
+      .pop();
+    const next = children.find((child) => child.start >= comment.end);
+    if (
+      previous &&
+      !previous.trailingComment &&
+      !text.substring(childEnd(previous), comment.start).includes("\n")
+    ) {
+      previous.trailingComment = comment;
+    } else if (next) {
+      next.leadingComments.push(comment);
+    } else {
+      container.comments.push(comment);
+    }
+  }
+
+  for (const [owner, ownComments] of nested) {
+    const inner = innerContainer(owner);
+    if (inner) {
+      attachComments(text, inner, ownComments);
+      continue;
+    }
+    // Comments inside an inline object type belong to its rules
+    const objects = owner.kind === "rule" ? owner.type.objects : [];
+    const within = (object: CstObjectType, comment: CstComment) =>
+      object.start <= comment.start && comment.end <= object.end;
+    for (const object of objects) {
+      const inside = ownComments.filter((comment) => within(object, comment));
+      if (inside.length > 0) attachComments(text, object, inside);
+    }
+    container.comments.push(
+      ...ownComments.filter(
+        (comment) => !objects.some((object) => within(object, comment))
+      )
+    );
+  }
+
+  return container;
+}
+
+interface Edit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * A Bring document that can be edited without losing comments or layout
+ */
+export class BringDocument {
+  private source: string;
+  private tree!: CstDocument;
+  private data!: ParseResult;
+
+  constructor(text: string) {
+    this.source = text;
+    this.reparse();
+  }
+
+  public get text(): string {
+    return this.source;
+  }
+
+  public get result(): ParseResult {
+    return this.data;
+  }
+
+  public get syntaxTree(): CstDocument {
+    return this.tree;
+  }
+
+  public toString(): string {
+    return this.source;
+  }
+
+  /**
+   * Replace the value at a path, or insert it when the key does not exist yet
+   */
+  public setValue(path: CstPath, value: BringValue | unknown): this {
+    const segments = parsePath(path);
+    const node = this.find(segments);
+    if (!node) {
+      return this.insertKey(segments, value);
+    }
+
+    const target = node.value;
+    const quote = target.kind === "scalar" ? target.quote : null;
+    return this.apply([
+      {
+        start: target.start,
+        end: target.end,
+        text: this.render(value, this.indentAt(node.start), quote),
+      },
+    ]);
+  }
+
+  /**
+   * Remove a key or array item along with its comments and separator
+   */
+  public deleteKey(path: CstPath): this {
+    const segments = parsePath(path);
+    const node = this.find(segments);
+    if (!node) {
+      throw new Error(`No value at path '${formatPath(segments)}'`);
+    }
+
+    let start = node.leadingComments[0]?.start ?? node.start;
+    let end = Math.max(childEnd(node), node.trailingComment?.end ?? 0);
+
+    const lineStart = this.source.lastIndexOf("\n", start - 1) + 1;
+    let lineEnd = this.source.indexOf("\n", end);
+    if (lineEnd === -1) lineEnd = this.source.length;
+
+    if (
+      this.source.substring(lineStart, start).trim() === "" &&
+      this.source.substring(end, lineEnd).trim() === ""
+    ) {
+      // The node owns its lines: drop them entirely
+      start = lineStart;
+      end = Math.min(lineEnd + 1, this.source.length);
+    } else {
+      let before = start;
+      while (
+        this.source[before - 1] === " " ||
+        this.source[before - 1] === "\t"
+      ) {
+        before--;
+      }
+      if (!node.comma && this.source[before - 1] === ",") {
+        // The last of several on a line: drop the separator before it
+        start = before - 1;
+      } else {
+        while (this.source[end] === " " || this.source[end] === "\t") end++;
+      }
+    }
+
+    return this.apply([{ start, end, text: "" }]);
+  }
+
+  /**
+   * Insert a new key into an object (or the document), keeping the layout and
+   * comma style of its siblings
+   */
+  public insertKey(
+    path: CstPath,
+    value: BringValue | unknown,
+    options: InsertOptions = {}
+  ): this {
+    const segments = parsePath(path);
+    const key = segments[segments.length - 1];
+    if (typeof key !== "string") {
+      throw new Error(`Cannot insert array index ${formatPath(segments)}`);
+    }
+    if (this.find(segments)) {
+      throw new Error(`Key '${formatPath(segments)}' already exists`);
+    }
+
+    // Objects that only exist through dotted keys get a dotted key too
+    let depth = segments.length - 1;
+    while (
+      depth > 0 &&
+      !this.containerAt(segments.slice(0, depth)) &&
+      !this.find(segments.slice(0, depth)) &&
+      typeof segments[depth - 1] === "string"
+    ) {
+      depth -= 1;
+    }
+    const container = this.containerAt(segments.slice(0, depth));
+    if (!container || container.kind === "array") {
+      throw new Error(
+        `No object at path '${formatPath(segments.slice(0, -1))}'`
+      );
+    }
+    const keys = segments.slice(depth) as string[];
+
+    // Document entries after the first section header belong to a section
+    const firstSection = container.entries.findIndex(
+      (entry) => entry.kind === "section"
+    );
+    const entries = (
+      firstSection === -1
+        ? container.entries
+        : container.entries.slice(0, firstSection)
+    ) as (CstEntry | CstSchema | CstInclude)[];
+    const usesCommas = entries.some(
+      (entry) => entry.kind === "entry" && entry.comma !== null
+    );
+
+    if (entries.length === 0) {
+      if (firstSection !== -1) {
+        const section = container.entries[firstSection];
+        const start = section.leadingComments[0]?.start ?? section.start;
+        const entryText = this.renderEntry(keys, value, "");
+        return this.apply([{ start, end: start, text: `${entryText}\n\n` }]);
+      }
+      return this.apply([this.insertIntoEmpty(container, keys, value)]);
+    }
+
+    const anchorKey = options.before ?? options.after;
+    const anchor =
+      anchorKey === undefined
+        ? entries[entries.length - 1]
+        : entries.find(
+            (entry) => entry.kind === "entry" && entry.key.name === anchorKey
+          );
+    if (!anchor) {
+      throw new Error(`No key '${anchorKey}' to insert next to`);
+    }
+
+    const indent = this.indentAt(anchor.start);
+    const entryText = this.renderEntry(keys, value, indent);
+    const ownLine = this.startsLine(anchor.start);
+    const hasComma = anchor.kind === "entry" && anchor.comma !== null;
+
+    if (options.before !== undefined) {
+      const start = anchor.leadingComments[0]?.start ?? anchor.start;
+      const separator = ownLine
+        ? `${usesCommas ? "," : ""}\n${indent}`
+        : usesCommas
+          ? ", "
+          : " ";
+      return this.apply([{ start, end: start, text: entryText + separator }]);
+    }
+
+    const edits: Edit[] = [];
+    if (usesCommas && !hasComma) {
+      edits.push({ start: anchor.end, end: anchor.end, text: "," });
+    }
+    const position = Math.max(
+      childEnd(anchor),
+      anchor.trailingComment?.end ?? 0
+    );
+    const separator =
+      ownLine || container.kind !== "object" ? `\n${indent}` : " ";
+    edits.push({
+      start: position,
+      end: position,
+      text: `${separator}${entryText}${hasComma ? "," : ""}`,
+    });
+    return this.apply(edits);
+  }
+
+  /**
+   * Set an attribute on the value at a path, replacing an existing one
+   */
+  public setAttribute(
+    path: CstPath,
+    name: string,
+    value: BringAttributeValue
+  ): this {
+    const segments = parsePath(path);
+    const node = this.find(segments);
+    if (!node || node.kind !== "entry") {
+      throw new Error(`No key at path '${formatPath(segments)}'`);
+    }
+
+    const existing = node.attributes.filter((attr) => attr.name === name).pop();
+    if (existing) {
+      return this.apply([
+        {
+          start: existing.value.start,
+          end: existing.value.end,
+          text: this.renderAttribute(
+            value,
+            existing.value.kind === "scalar" ? existing.value.quote : null
+          ),
+        },
+      ]);
+    }
+
+    return this.apply([
+      {
+        start: node.end,
+        end: node.end,
+        text: ` @${name}=${this.renderAttribute(value, null)}`,
+      },
+    ]);
+  }
+
+  private insertIntoEmpty(
+    container: CstDocument | CstObject | CstSection,
+    keys: string[],
+    value: unknown
+  ): Edit {
+    if (container.kind === "document") {
+      const end = this.source.length;
+      const prefix = end > 0 && !this.source.endsWith("\n") ? "\n" : "";
+      return {
+        start: end,
+        end,
+        text: `${prefix}${this.renderEntry(keys, value, "")}\n`,
+      };
+    }
+    if (container.kind === "section") {
+      // On the line after the header and any comment that follows it
+      const lineEnd = this.source.indexOf("\n", container.header.end);
+      const end = lineEnd === -1 ? this.source.length : lineEnd;
+      return {
+        start: end,
+        end,
+        text: `\n${this.renderEntry(keys, value, "")}`,
+      };
+    }
+
+    const indent = this.indentAt(container.start);
+    const inner = indent + this.indentUnit();
+    const entryText = this.renderEntry(keys, value, inner);
+    const body = this.source.substring(container.start + 1, container.end - 1);
+
+    if (body.trim() === "") {
+      return {
+        start: container.start,
+        end: container.end,
+        text: `{\n${inner}${entryText}\n${indent}}`,
+      };
+    }
+
+    // Only comments inside: add the entry on its own line before the '}'
+    const close = container.end - 1;
+    const lineStart = this.source.lastIndexOf("\n", close - 1) + 1;
+    if (this.source.substring(lineStart, close).trim() === "") {
+      return {
+        start: lineStart,
+        end: lineStart,
+        text: `${inner}${entryText}\n`,
+      };
+    }
+    return {
+      start: close,
+      end: close,
+      text: `\n${inner}${entryText}\n${indent}`,
+    };
+  }
+
+  private find(segments: PathSegment[]): CstEntry | CstItem | undefined {
+    return this.lookup(this.tree, segments);
+  }
+
+  /**
+   * Find the node at a path below a container, following dotted keys and
+   * section headers
+   */
+  private lookup(
+    container: CstDocument | CstObject | CstArray | CstSection,
+    segments: PathSegment[]
+  ): CstEntry | CstItem | undefined {
+    const [first, ...rest] = segments;
+    if (first === undefined) return undefined;
+
+    if (container.kind === "array") {
+      const item =
+        typeof first === "number" ? container.items[first] : undefined;
+      return item && rest.length > 0 ? this.lookupIn(item, rest) : item;
+    }
+
+    // Later duplicates win, as they do in the parse result
+    for (const entry of [...container.entries].reverse()) {
+      if (entry.kind === "schema" || entry.kind === "include") continue;
+      const keys =
+        entry.kind === "section" ? entry.header.key.path : entry.key.path;
+      if (!keys.every((key, index) => segments[index] === key)) continue;
+
+      const remaining = segments.slice(keys.length);
+      const found =
+        entry.kind === "section"
+          ? this.lookup(entry, remaining)
+          : remaining.length === 0
+            ? entry
+            : this.lookupIn(entry, remaining);
+      if (found) return found;
+    }
+    return undefined;
+  }
+
+  private lookupIn(
+    node: CstEntry | CstItem,
+    segments: PathSegment[]
+  ): CstEntry | CstItem | undefined {
+    return node.value.kind === "scalar"
+      ? undefined
+      : this.lookup(node.value, segments);
+  }
+
+  private containerAt(
+    segments: PathSegment[]
+  ): CstDocument | CstObject | CstArray | CstSection | undefined {
+    if (segments.length === 0) return this.tree;
+
+    const node = this.find(segments);
+    if (node) {
+      return node.value.kind === "scalar" ? undefined : node.value;
+    }
+    // A section header names the object its entries belong to
+    return this.tree.entries
+      .filter(
+        (entry): entry is CstSection =>
+          entry.kind === "section" &&
+          formatPath(entry.header.key.path) === formatPath(segments)
+      )
+      .pop();
+  }
+
+  private render(
+    value: unknown,
+    indent: string,
+    quote: '"' | "'" | null
+  ): string {
+    const text = stringify(fromPlain(value), {
+      indent: this.indentUnit(),
+      quote: quote === "'" ? "single" : "double",
+    });
+    return text.replace(/\n/g, `\n${indent}`);
+  }
+
+  private renderAttribute(
+    value: BringAttributeValue,
+    quote: '"' | "'" | null
+  ): string {
+    return stringifyAttributeValue(value, {
+      quote: quote === "'" ? "single" : "double",
+    });
+  }
+
+  private renderEntry(keys: string[], value: unknown, indent: string): string {
+    const last = keys[keys.length - 1];
+    const text = stringify({ [last]: value }, { indent: this.indentUnit() });
+    const prefix = keys
+      .slice(0, -1)
+      .map((key) =>
+        /^[a-zA-Z_][a-zA-Z0-9_]*$/.test(key) && key !== "schema"
+          ? `${key}.`
+          : `${stringify(key).trimEnd()}.`
+      )
+      .join("");
+    return (prefix + text).trimEnd().replace(/\n/g, `\n${indent}`);
+  }
+
+  private indentAt(offset: number): string {
+    const lineStart = this.source.lastIndexOf("\n", offset - 1) + 1;
+    return this.source.substring(lineStart).match(/^[ \t]*/)![0];
+  }
+
+  private startsLine(offset: number): boolean {
+    const lineStart = this.source.lastIndexOf("\n", offset - 1) + 1;
+    return this.source.substring(lineStart, offset).trim() === "";
+  }
+
+  private indentUnit(): string {
+    // The first increase in indentation between two lines is one level
+    let previous: string | null = null;
+    for (const line of this.source.split("\n")) {
+      if (line.trim() === "" || line.trim().startsWith("#")) continue;
+      const indent = line.match(/^[ \t]*/)![0];
+      if (
+        previous !== null &&
+        indent.length > previous.length &&
+        indent.startsWith(previous)
+      ) {
+        return indent.substring(previous.length);
+      }
+      previous = indent;
+    }
+    return "  ";
+  }
+
+  private apply(edits: Edit[]): this {
+    // Apply from the end so earlier offsets stay valid; edits at the same
+    // offset keep their listed order in the output
+    const sorted = edits
+      .map((edit, index) => ({ edit, index }))
+      .sort((a, b) => b.edit.start - a.edit.start || b.index - a.index)
+      .map(({ edit }) => edit);
+    let text = this.source;
+    for (const edit of sorted) {
+      text =
+        text.substring(0, edit.start) + edit.text + text.substring(edit.end);
+    }
+    this.source = text;
+    this.reparse();
+    return this;
+  }
+
+  private reparse(): void {
+    const parser = new BringParser(this.source, { cst: true });
+    this.data = parser.parse();
+    this.tree = parser.getSyntaxTree()!;
+  }
+}
+
+/**
+ * Parse a Bring document for lossless editing
+ */
+export function parseDocument(content: string): BringDocument {
+  return new BringDocument(content);
+}
@@ -0,0 +1,409 @@
+// src/format.ts - Canonical formatter
+
+/**
+ * Rewrites Bring source in one stable layout
+ *
+ * Formatting works on the concrete syntax tree, so comments, blank lines and
+ * the way each key and literal was written are kept while indentation,
+ * spacing, separators and attribute placement are made consistent.
+ */
+
+import { BringParser } from "./index";
+import {
+  CstArray,
+  CstAttribute,
+  CstChild,
+  CstComment,
+  CstEntry,
+  CstInclude,
+  CstObject,
+  CstSchema,
+  CstSchemaRule,
+  CstSection,
+  CstValue,
+} from "./cst";
+
+export interface FormatOptions {
+  /** Spaces per level, or the indentation string itself (default 2) */
+  indent?: number | string;
+  /** Separate multi-line object entries and array items with commas */
+  commas?: boolean;
+  /**
+   * Sort keys, alphabetically or with a compare function. Schemas, sections
+   * and the keys within them are sorted too; schema rules, dotted keys and
+   * repeated or overlapping keys keep their order.
+   */
+  sortKeys?: boolean | ((a: string, b: string) => number);
+}
+
+// Tokens of a type expression other than an inline `{ ... }` object type
+const TYPE_TOKEN = /\[\]|[|?()]|[^\s|?()[\]]+/g;
+
+class BringFormatter {
+  private indentUnit: string;
+  // Comments already written on the line of an opening brace or header
+  private written = new Set<CstComment>();
+
+  constructor(
+    private source: string,
+    private options: FormatOptions
+  ) {
+    const indent = options.indent ?? 2;
+    this.indentUnit = typeof indent === "number" ? " ".repeat(indent) : indent;
+  }
+
+  public document(children: CstChild[], comments: CstComment[]): string {
+    const lines = this.block(children, comments, "", false);
+    return lines.length > 0 ? `${lines.join("\n")}\n` : "";
+  }
+
+  /**
+   * Write the children of a container one per line, each preceded by its
+   * comments and at most one of the blank lines that separated it. A blank
+   * line before a child stays in its place when sorting moves the child.
+   */
+  private block(
+    children: CstChild[],
+    comments: CstComment[],
+    indent: string,
+    commas: boolean
+  ): string[] {
+    const lines: string[] = [];
+    const ordered = this.order(children);
+
+    ordered.forEach((child, index) => {
+      const leading = this.leading(child);
+      const place = children[index];
+      if (
+        lines.length > 0 &&
+        this.blankLineBefore(this.leading(place)[0] ?? place)
+      ) {
+        lines.push("");
+      }
+      leading.forEach((comment, i) => {
+        if (i > 0 && this.blankLineBefore(comment)) lines.push("");
+        lines.push(`${indent}${this.comment(comment)}`);
+      });
+      if (leading.length > 0 && this.blankLineBefore(child)) {
+        lines.push("");
+      }
+      const comma = commas && index < ordered.length - 1 ? "," : "";
+      const trailing = child.trailingComment
+        ? ` ${this.comment(child.trailingComment)}`
+        : "";
+      lines.push(`${indent}${this.child(child, indent)}${comma}${trailing}`);
+    });
+
+    for (const comment of comments) {
+      if (this.written.has(comment)) continue;
+      if (lines.length > 0 && this.blankLineBefore(comment)) lines.push("");
+      lines.push(`${indent}${this.comment(comment)}`);
+    }
+    return lines;
+  }
+
+  private leading(child: CstChild): CstComment[] {
+    return child.leadingComments.filter(
+      (comment) => !this.written.has(comment)
+    );
+  }
+
+  private child(child: CstChild, indent: string): string {
+    switch (child.kind) {
+      case "entry":
+        return this.entry(child, indent);
+      case "item":
+        return this.value(child.value, indent);
+      case "schema":
+        return this.schema(child, indent);
+      case "rule":
+        return this.rule(child, indent);
+      case "include":
+        return this.include(child);
+      case "section":
+        return this.section(child);
+    }
+  }
+
+  private entry(entry: CstEntry, indent: string): string {
+    return `${this.raw(entry.key)} = ${this.value(entry.value, indent)}${this.attributes(entry.attributes)}`;
+  }
+
+  private value(value: CstValue, indent: string): string {
+    switch (value.kind) {
+      case "scalar":
+        return value.raw;
+      case "object":
+        return this.object(value, indent);
+      case "array":
+        return this.array(value, indent);
+    }
+  }
+
+  private object(object: CstObject, indent: string): string {
+    return this.braces("{", "}", object, object.entries, indent);
+  }
+
+  private array(array: CstArray, indent: string): string {
+    // Arrays of scalars stay on one line unless they hold comments
+    if (
+      array.comments.length === 0 &&
+      array.items.every(
+        (item) =>
+          item.value.kind === "scalar" &&
+          item.leadingComments.length === 0 &&
+          item.trailingComment === null
+      )
+    ) {
+      return `[${array.items.map((item) => this.value(item.value, indent)).join(", ")}]`;
+    }
+    return this.braces("[", "]", array, array.items, indent);
+  }
+
+  private schema(schema: CstSchema, indent: string): string {
+    return `schema ${schema.name} ${this.braces("{", "}", schema, schema.rules, indent, false)}`;
+  }
+
+  private rule(rule: CstSchemaRule, indent: string): string {
+    const optional = this.source[rule.key.end] === "?" ? "?" : "";
+    return `${this.raw(rule.key)}${optional} = ${this.type(rule, indent)}${this.attributes(rule.attributes)}`;
+  }
+
+  /**
+   * Normalise spacing in a rule type; inline object types are written like
+   * schema blocks
+   */
+  private type(rule: CstSchemaRule, indent: string): string {
+    let text = "";
+    let offset = rule.type.start;
+    for (const object of rule.type.objects) {
+      text += this.typeTokens(this.source.substring(offset, object.start));
+      text += this.braces("{", "}", object, object.rules, indent, false);
+      offset = object.end;
+    }
+    return text + this.typeTokens(this.source.substring(offset, rule.type.end));
+  }
+
+  private typeTokens(text: string): string {
+    // Comments between type members are written with the schema
+    return (text.replace(/#.*$/gm, "").match(TYPE_TOKEN) ?? [])
+      .map((token) => (token === "|" ? " | " : token))
+      .join("");
+  }
+
+  private include(include: CstInclude): string {
+    return this.raw(include).replace(/^(\w+)[ \t]+/, "$1 ");
+  }
+
+  private section(section: CstSection): string {
+    const header = `[${this.raw(section.header.key)}]`;
+    const comment = this.openingComment(section.header.end, section);
+    const first = section.entries[0];
+    const start = first
+      ? (this.leading(first)[0] ?? first)
+      : section.comments.find((item) => !this.written.has(item));
+    const lines = this.block(section.entries, section.comments, "", false);
+    // A blank line after the header stays
+    if (lines.length > 0 && start && this.blankLineBefore(start)) {
+      lines.unshift("");
+    }
+    return [header + comment, ...lines].join("\n");
+  }
+
+  /**
+   * Write a bracketed container, or `{}` / `[]` when there is nothing in it
+   */
+  private braces(
+    open: string,
+    close: string,
+    container: Pick<CstObject, "start" | "comments">,
+    children: CstChild[],
+    indent: string,
+    commas: boolean = this.options.commas ?? false
+  ): string {
+    if (children.length === 0 && container.comments.length === 0) {
+      return `${open}${close}`;
+    }
+    const comment = this.openingComment(
+      this.source.indexOf(open, container.start) + 1,
+      { entries: children, comments: container.comments }
+    );
+    const inner = indent + this.indentUnit;
+    const lines = this.block(children, container.comments, inner, commas);
+    const body = lines.map((line) => `${line}\n`).join("");
+    return `${open}${comment}\n${body}${indent}${close}`;
+  }
+
+  /**
+   * A comment right after an opening brace or section header stays on its line
+   */
+  private openingComment(
+    offset: number,
+    container: { entries: CstChild[]; comments: CstComment[] }
+  ): string {
+    const first = container.entries[0];
+    const comment = first ? first.leadingComments[0] : container.comments[0];
+    if (
+      !comment ||
+      this.source.substring(offset, comment.start).includes("\n")
+    ) {
+      return "";
+    }
+    this.written.add(comment);
+    return ` ${this.comment(comment)}`;
+  }
+
+  private attributes(attributes: CstAttribute[]): string {
+    // Attributes written before the '=' move after the value
+    return attributes
+      .map((attr) => ` @${attr.name}=${this.attributeValue(attr.value)}`)
+      .join("");
+  }
+
+  /**
+   * Attribute values are written on one line, e.g. `{ min = 1, max = 5 }`
+   */
+  private attributeValue(value: CstValue): string {
+    switch (value.kind) {
+      case "scalar":
+        return value.raw;
+      case "array":
+        return `[${value.items.map((item) => this.attributeValue(item.value)).join(", ")}]`;
+      case "object": {
+        if (value.entries.length === 0) return "{}";
+        const entries = value.entries.map(
+          (entry) =>
+            `${this.raw(entry.key)} = ${this.attributeValue(entry.value)}${this.attributes(entry.attributes)}`
+        );
+        return `{ ${entries.join(", ")} }`;
+      }
+    }
+  }
+
+  private comment(comment: CstComment): string {
+    return `#${comment.text}`.trimEnd();
+  }
+
+  /**
+   * Sort entries and schemas among themselves, and sections among
+   * themselves; everything else keeps its place. So that sorting never
+   * changes what a document means, dotted keys and paths that overlap
+   * another, such as `a` and `a.x` or a repeated key, keep their place too.
+   */
+  private order(children: CstChild[]): CstChild[] {
+    const sortKeys = this.options.sortKeys;
+    if (!sortKeys) {
+      return children;
+    }
+    const compare =
+      typeof sortKeys === "function"
+        ? sortKeys
+        : (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+    const pinned = new Set<CstChild>();
+    const sort = (kinds: string[]) => {
+      const group = children.filter((child) => kinds.includes(child.kind));
+      this.pinned(group).forEach((child) => pinned.add(child));
+      return group
+        .filter((child) => !pinned.has(child))
+        .sort((a, b) => {
+          // Schemas lead, so data always follows its types
+          if ((a.kind === "schema") !== (b.kind === "schema")) {
+            return a.kind === "schema" ? -1 : 1;
+          }
+          return compare(this.sortKey(a), this.sortKey(b));
+        });
+    };
+
+    const entries = sort(["entry", "schema"]);
+    const sections = sort(["section"]);
+    return children.map((child) => {
+      if (pinned.has(child)) {
+        return child;
+      }
+      if (child.kind === "entry" || child.kind === "schema") {
+        return entries.shift()!;
+      }
+      return child.kind === "section" ? sections.shift()! : child;
+    });
+  }
+
+  private sortKey(child: CstChild): string {
+    return child.kind === "schema" ? child.name : this.path(child).join(".");
+  }
+
+  private path(child: CstChild): string[] {
+    switch (child.kind) {
+      case "entry":
+        return child.key.path;
+      case "schema":
+        return [`schema:${child.name}`];
+      case "section":
+        return child.header.key.path;
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * The children whose order matters: dotted keys, and paths that equal or
+   * start with the path of another child
+   */
+  private pinned(children: CstChild[]): CstChild[] {
+    const paths = children.map((child) => this.path(child));
+    const join = (path: string[]) => path.join("\0");
+    const exact = new Set(paths.map(join));
+    // How many paths start with each prefix, themselves included
+    const prefixes = new Map<string, number>();
+    for (const path of paths) {
+      for (let i = 1; i <= path.length; i++) {
+        const prefix = join(path.slice(0, i));
+        prefixes.set(prefix, (prefixes.get(prefix) ?? 0) + 1);
+      }
+    }
+    return children.filter((child, index) => {
+      const path = paths[index];
+      return (
+        (child.kind === "entry" && path.length > 1) ||
+        prefixes.get(join(path))! > 1 ||
+        path.some((_, i) => i > 0 && exact.has(join(path.slice(0, i))))
+      );
+    });
+  }
+
+  private blankLineBefore(node: { start: number }): boolean {
+    const lineStart = this.source.lastIndexOf("\n", node.start - 1);
+    if (
+      lineStart <= 0 ||
+      this.source.substring(lineStart + 1, node.start).trim() !== ""
+    ) {
+      return false;
+    }
+    const previous = this.source.lastIndexOf("\n", lineStart - 1) + 1;
+    return this.source.substring(previous, lineStart).trim() === "";
+  }
+
+  private raw(node: { start: number; end: number }): string {
+    return this.source.substring(node.start, node.end);
+  }
+}
+
+/**
+ * Format Bring source in the canonical layout
+ *
+ * Objects, schemas and arrays that contain more than scalars get one entry
+ * per line; attributes follow the value they belong to. Comments and single
+ * blank lines are kept, as is the text of every key and literal, so
+ * formatting never changes what a document means. Formatting formatted
+ * source returns it unchanged.
+ *
+ * @throws {BringParseError} If the source is not valid Bring
+ */
+export function format(source: string, options: FormatOptions = {}): string {
+  const parser = new BringParser(source, { cst: true });
+  parser.parse();
+  const tree = parser.getSyntaxTree()!;
+  return new BringFormatter(source, options).document(
+    tree.entries,
+    tree.comments
+  );
+}
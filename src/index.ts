@@ -4,44 +4,190 @@
  * Bring Parser for JavaScript/TypeScript - Final Type Fix
  */
 
+import { BringValidationError, validate, validateDocument } from "./validator";
+import { stringify } from "./stringify";
+import { BringResolveError, resolve } from "./resolve";
+import { BringInterpolationError, interpolate } from "./interpolate";
+import { BringLoadError, loadFile } from "./loader";
+import { merge, mergeLayers } from "./merge";
+import { generateTypes, parseAs } from "./typegen";
+import { jsonSchemaToBring, schemaToJSONSchema } from "./jsonschema";
+import { matchScalar, scalarError, scalarValue } from "./scalars";
+import {
+  BringConvertError,
+  fromJSON,
+  fromTOML,
+  fromXML,
+  fromYAML,
+  toTOML,
+  toXML,
+  toYAML,
+} from "./convert";
+import { format } from "./format";
+import { BringStreamParser, parseStream } from "./stream";
+import {
+  BACKSLASH,
+  NEWLINE,
+  UNDERSCORE,
+  isBinaryDigit,
+  isDigit,
+  isHexDigit,
+  isIdentifierPart,
+  isIdentifierStart,
+  isNumberPart,
+  isOctalDigit,
+  isWhitespace,
+  scanWhile,
+  tokenize,
+} from "./tokenizer";
+import {
+  ObjectOptions,
+  SidecarObject,
+  fromObject,
+  toInlineObject,
+  toSidecarObject,
+} from "./objects";
+import {
+  BringAccessError,
+  get,
+  getAttributes,
+  getBoolean,
+  getNumber,
+  getString,
+  getValue,
+} from "./accessor";
+import {
+  BringDocument,
+  CstArray,
+  CstAttribute,
+  CstComment,
+  CstDocument,
+  CstEntry,
+  CstInclude,
+  CstItem,
+  CstKey,
+  CstScalar,
+  CstSchema,
+  CstObjectType,
+  CstSchemaRule,
+  CstSection,
+  CstValue,
+  attachComments,
+  parseDocument,
+} from "./cst";
+
+// Source locations (line and column are 1-based, offset is 0-based)
+export interface SourcePosition {
+  line: number;
+  column: number;
+  offset: number;
+}
+
+export interface SourceRange {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
 // Base interfaces
 export interface BringAttribute {
   name: string;
-  value: string | number | boolean;
+  value: BringAttributeValue;
+  /** Set when the value is a typed scalar, as in `@default=30s` */
+  kind?: BringScalarKind;
+  loc?: SourceRange;
 }
 
+// Attribute values are plain data: `@enum=["a", "b"]`, `@range={ min = 1 }`
+export type BringAttributeValue =
+  | string
+  | number
+  | boolean
+  | null
+  | BringAttributeValue[]
+  | { [key: string]: BringAttributeValue };
+
 export interface BringSchema {
   name: string;
   rules: BringSchemaRule[];
+  loc?: SourceRange;
 }
 
 export interface BringSchemaRule {
   key: string;
+  /** The type on one line, e.g. `string[]` or `User | null` */
   type: string;
+  /** The structured type; rules built without it have a plain named type */
+  typeExpr?: BringTypeExpr;
+  /** Written `key? = ...`: the key may be left out, even with `@required` */
+  optional?: boolean;
   attributes: BringAttribute[];
+  loc?: SourceRange;
+  keyLoc?: SourceRange;
 }
 
+// Schema rule types: `string`, `User`, `string[]`, `A | B`, `T?` and `{ ... }`
+export type BringTypeExpr =
+  | { kind: "name"; name: string }
+  | { kind: "null" }
+  | { kind: "array"; element: BringTypeExpr }
+  | { kind: "union"; types: BringTypeExpr[] }
+  | { kind: "object"; rules: BringSchemaRule[] };
+
 // Value types with discriminated union
 export type BringValue = BringPrimitive | BringObject | BringArray;
 
 export interface BringPrimitive {
   type: "primitive";
   value: string | number | boolean | null;
+  /** Set on typed scalars, whose value is the literal as written */
+  kind?: BringScalarKind;
   attributes?: BringAttribute[];
+  loc?: SourceRange;
+  /** Location of the key this value is assigned to, if any */
+  keyLoc?: SourceRange;
+}
+
+// Typed scalars: `2024-01-15`, `2024-01-15T10:30:00Z`, `30s`, `512MB`, `^1.2.0`
+export type BringScalarKind =
+  | "date"
+  | "datetime"
+  | "duration"
+  | "bytes"
+  | "semver";
+
+export interface BringScalar extends BringPrimitive {
+  kind: BringScalarKind;
+  value: string;
 }
 
 export interface BringObject {
   type: "object";
   items: Record<string, BringValue>;
   attributes?: BringAttribute[];
+  loc?: SourceRange;
+  keyLoc?: SourceRange;
 }
 
 export interface BringArray {
   type: "array";
   items: BringValue[];
   attributes?: BringAttribute[];
+  loc?: SourceRange;
+  keyLoc?: SourceRange;
+}
+
+export interface BringInclude {
+  path: string;
+  loc: SourceRange;
 }
 
+// One top-level statement, in the order it appears in the source
+export type BringStatement =
+  | { type: "entry"; path: string[]; value: BringValue }
+  | { type: "schema"; schema: BringSchema }
+  | { type: "include"; include: BringInclude }
+  | { type: "section"; path: string[] };
+
 export interface ParseResult {
   [key: string]: BringValue | BringSchema;
 }
@@ -58,7 +204,10 @@ export function isBringValue(value: any): value is BringValue {
 
 export function isBringSchema(value: any): value is BringSchema {
   return (
-    value && typeof value === "object" && "name" in value && "rules" in value
+    value &&
+    typeof value === "object" &&
+    typeof value.name === "string" &&
+    Array.isArray(value.rules)
   );
 }
 
@@ -66,8 +215,9 @@ export function isParseResult(value: any): value is ParseResult {
   return (
     value &&
     typeof value === "object" &&
-    !("type" in value) &&
-    !("name" in value)
+    !Array.isArray(value) &&
+    !isBringValue(value) &&
+    !isBringSchema(value)
   );
 }
 
@@ -75,6 +225,10 @@ export function isPrimitive(value: BringValue): value is BringPrimitive {
   return value.type === "primitive";
 }
 
+export function isScalar(value: BringValue): value is BringScalar {
+  return value.type === "primitive" && value.kind !== undefined;
+}
+
 export function isObject(value: BringValue): value is BringObject {
   return value.type === "object";
 }
@@ -83,115 +237,717 @@ export function isArray(value: BringValue): value is BringArray {
   return value.type === "array";
 }
 
+/**
+ * The structured type of a schema rule
+ */
+export function getRuleType(rule: BringSchemaRule): BringTypeExpr {
+  return rule.typeExpr ?? { kind: "name", name: rule.type };
+}
+
+/**
+ * Write a rule type on one line, with inline objects written as `object`
+ */
+export function formatType(type: BringTypeExpr): string {
+  switch (type.kind) {
+    case "name":
+      return type.name;
+    case "null":
+      return "null";
+    case "object":
+      return "object";
+    case "array": {
+      const element = formatType(type.element);
+      return type.element.kind === "union" ? `(${element})[]` : `${element}[]`;
+    }
+    case "union":
+      return type.types.map(formatType).join(" | ");
+  }
+}
+
+// Positions of parsed values, kept outside the value objects themselves
+const valuePositions = new WeakMap<BringValue, SourcePosition>();
+
+/**
+ * Get the line and column where a parsed value starts, if known
+ */
+export function getPosition(value: BringValue): SourcePosition | undefined {
+  return valuePositions.get(value);
+}
+
+// Stable identifiers for each way parsing can fail
+export type BringErrorCode =
+  | "unexpected-character"
+  | "unterminated-string"
+  | "expected-identifier"
+  | "expected-equals"
+  | "expected-open-brace"
+  | "expected-close-brace"
+  | "expected-close-bracket"
+  | "expected-digit"
+  | "invalid-number"
+  | "invalid-escape"
+  | "invalid-scalar"
+  | "key-conflict"
+  | "duplicate-key"
+  | "duplicate-attribute"
+  | "duplicate-schema"
+  | "expected-token";
+
+const RADIX_PREFIXES: Record<string, number> = {
+  "0x": 16,
+  "0X": 16,
+  "0o": 8,
+  "0O": 8,
+  "0b": 2,
+  "0B": 2,
+};
+
+const RADIX_DIGITS: Record<number, (code: number) => boolean> = {
+  16: isHexDigit,
+  8: isOctalDigit,
+  2: isBinaryDigit,
+};
+
+const RADIX_NAMES: Record<number, string> = {
+  16: "hexadecimal",
+  8: "octal",
+  2: "binary",
+};
+
+const UNICODE_ESCAPE = /\{([0-9a-fA-F]+)\}|([0-9a-fA-F]{4})/y;
+const DIRECTIVE_ARGUMENT = /[ \t]+r?["']/y;
+
+const EXPECTED_CODES: Record<string, BringErrorCode> = {
+  "=": "expected-equals",
+  "{": "expected-open-brace",
+  "}": "expected-close-brace",
+  "]": "expected-close-bracket",
+};
+
+export interface BringRelatedLocation {
+  message: string;
+  range: SourceRange;
+}
+
 export class BringParseError extends Error {
   public line: number;
   public column: number;
   public position: number;
+  public code: BringErrorCode;
+  /** Other places involved, such as the first definition of a duplicate */
+  public related?: BringRelatedLocation[];
 
   constructor(
     message: string,
     line: number = 0,
     column: number = 0,
-    position: number = 0
+    position: number = 0,
+    code: BringErrorCode = "unexpected-character"
   ) {
     super(`${message} at line ${line}, column ${column}`);
     this.name = "BringParseError";
     this.line = line;
     this.column = column;
     this.position = position;
+    this.code = code;
   }
 }
 
+export interface BringDiagnostic {
+  message: string;
+  severity: "error" | "warning";
+  range: SourceRange;
+  code: BringErrorCode;
+  related?: BringRelatedLocation[];
+}
+
+// Which definition a repeated key, attribute or schema name keeps
+export type DuplicatePolicy = "last" | "first" | "error";
+
+export interface RecoveredParseResult {
+  result: ParseResult;
+  diagnostics: BringDiagnostic[];
+}
+
+export interface ParseOptions {
+  /** Build a lossless concrete syntax tree alongside the parse result */
+  cst?: boolean;
+  /** Attach `loc` ranges to values, keys, attributes and schema rules */
+  locations?: boolean;
+  /** Collect diagnostics and keep parsing instead of throwing on errors */
+  recover?: boolean;
+  /** Throw on duplicate keys, attributes and schema names */
+  strict?: boolean;
+  /** Outside strict mode, which duplicate is kept (default "last") */
+  duplicates?: DuplicatePolicy;
+  /** Called with each warning, such as a duplicate that was dropped */
+  onWarning?: (warning: BringDiagnostic) => void;
+}
+
+/**
+ * What earlier pieces of an input defined, so that parsing the next piece
+ * finds duplicates and conflicts with them, as in a stream
+ */
+export interface ParseContext {
+  /** Everything defined so far; only the keys and value types matter */
+  result: ParseResult;
+  /** The section the piece starts in */
+  section: string[];
+  /** Where each key of an object in `result` was first defined */
+  keyRanges: WeakMap<object, Map<string, SourceRange>>;
+}
+
 export class BringParser {
   private text: string;
   private pos: number = 0;
   private line: number = 1;
-  private col: number = 1;
-
-  constructor(text: string) {
+  // Index of the first character of the current line, so the column is
+  // `pos - lineStart + 1`; negative when the text starts mid-line
+  private lineStart: number = 0;
+  private options: ParseOptions;
+  private comments: CstComment[] = [];
+  private nodes = new WeakMap<BringValue | BringSchema, CstValue | CstSchema>();
+  // Collects the inline object types of the rule type being parsed
+  private typeObjects: CstObjectType[] = [];
+  private syntaxTree?: CstDocument;
+  private diagnostics: BringDiagnostic[] = [];
+  private includes: BringInclude[] = [];
+  private statements: BringStatement[] = [];
+  // Offset of the text in a larger input; `pos` stays relative to the text
+  private startOffset: number = 0;
+  // Where each key of an object (or the result) was first defined
+  private keyRanges = new WeakMap<object, Map<string, SourceRange>>();
+  // Undoes the definitions made in a context, newest last
+  private undo: (() => void)[] = [];
+  private attributeRanges = new WeakMap<BringAttribute, SourceRange>();
+
+  /**
+   * `start` is where the text begins in a larger input, such as one chunk of
+   * a stream; positions and errors are reported relative to it. With a
+   * `context`, `parse()` adds to what the earlier pieces defined.
+   */
+  constructor(
+    text: string,
+    options: ParseOptions = {},
+    start?: SourcePosition,
+    private context?: ParseContext
+  ) {
     this.text = text;
+    this.options = options;
+    if (start) {
+      this.line = start.line;
+      this.lineStart = 1 - start.column;
+      this.startOffset = start.offset;
+    }
+    if (context) {
+      this.keyRanges = context.keyRanges;
+    }
   }
 
   public parse(): ParseResult {
-    const result: ParseResult = {};
+    const result: ParseResult = this.context?.result ?? {};
+    const entries: (CstEntry | CstSchema | CstInclude | CstSection)[] = [];
+    // Keys after a `[section]` header belong to that section
+    let section: { path: string[]; node?: CstSection } = {
+      path: this.context?.section ?? [],
+    };
 
     while (!this.isEof()) {
       this.skipWhitespace();
       if (this.isEof()) break;
 
       if (this.peek() === "#") {
+        const commentStart = this.pos;
         this.skipComment();
+        // A comment on the line a section ends on still belongs to it
+        const node = section.node;
+        if (
+          node &&
+          !this.text.substring(node.end, commentStart).includes("\n")
+        ) {
+          node.end = this.pos;
+        }
         continue;
       }
 
-      if (this.match("schema")) {
-        this.skipWhitespace();
-        const schema = this.parseSchema();
-        result[`schema:${schema.name}`] = schema;
-        continue;
+      const start = this.point();
+      const sectionEntries = section.node?.entries ?? entries;
+      try {
+        if (this.peek() === "[") {
+          section = this.parseSection(result);
+          if (section.node) entries.push(section.node);
+          this.statements.push({ type: "section", path: section.path });
+          continue;
+        }
+
+        if (this.matchKeyword("schema")) {
+          this.skipWhitespace();
+          const schema = this.parseSchema(start);
+          this.pushNode(sectionEntries, schema);
+          this.define(
+            result,
+            `schema:${schema.name}`,
+            schema,
+            this.rangeFrom(start),
+            "duplicate-schema",
+            `schema '${schema.name}'`
+          );
+          this.statements.push({ type: "schema", schema });
+          continue;
+        }
+
+        if (this.isDirective("include") || this.isDirective("import")) {
+          this.parseInclude(start, sectionEntries);
+          continue;
+        }
+
+        const kvPair = this.parseKeyValuePair();
+        const path = [...section.path, ...kvPair.path];
+        this.assign(result, path, kvPair.value, kvPair.keyLoc);
+        if (kvPair.node) sectionEntries.push(kvPair.node);
+        this.statements.push({ type: "entry", path, value: kvPair.value });
+      } catch (error) {
+        this.recoverFrom(error, this.textOffset(start));
+      }
+      if (section.node) {
+        const last = section.node.entries[section.node.entries.length - 1];
+        section.node.end = last?.end ?? section.node.header.end;
       }
+    }
 
-      const kvPair = this.parseKeyValuePair();
-      result[kvPair.key] = kvPair.value;
+    if (this.options.cst) {
+      this.syntaxTree = attachComments(
+        this.text,
+        {
+          kind: "document",
+          start: 0,
+          end: this.text.length,
+          entries,
+          comments: [],
+        },
+        this.comments
+      );
     }
 
     return result;
   }
 
-  private parseKeyValuePair(): { key: string; value: BringValue } {
-    const key = this.parseKey();
+  /**
+   * The concrete syntax tree of the last parse, when the `cst` option is set
+   */
+  public getSyntaxTree(): CstDocument | undefined {
+    return this.syntaxTree;
+  }
+
+  /**
+   * The `include "file"` directives of the last parse, in source order
+   */
+  public getIncludes(): BringInclude[] {
+    return this.includes;
+  }
+
+  /**
+   * The top-level statements of the last parse, in source order
+   */
+  public getStatements(): BringStatement[] {
+    return this.statements;
+  }
+
+  /**
+   * Take back what the last parse defined in its context, so the piece can
+   * be parsed again once more text arrives
+   */
+  public revert(): void {
+    while (this.undo.length > 0) {
+      this.undo.pop()!();
+    }
+  }
+
+  /**
+   * Warnings found by the last parse, and errors when `recover` is set
+   */
+  public getDiagnostics(): BringDiagnostic[] {
+    return this.diagnostics;
+  }
+
+  private isDirective(word: string): boolean {
+    if (!this.text.startsWith(word, this.pos)) return false;
+    DIRECTIVE_ARGUMENT.lastIndex = this.pos + word.length;
+    return DIRECTIVE_ARGUMENT.test(this.text);
+  }
+
+  private parseInclude(
+    start: SourcePosition,
+    entries: (CstEntry | CstSchema | CstInclude | CstSection)[]
+  ): void {
+    this.parseIdentifier();
+    this.skipWhitespace();
+    const path = this.parseString();
+    const include: BringInclude = { path, loc: this.rangeFrom(start) };
+    this.includes.push(include);
+    this.statements.push({ type: "include", include });
+    if (this.options.cst) {
+      entries.push({
+        kind: "include",
+        start: this.textOffset(start),
+        end: this.pos,
+        path,
+        leadingComments: [],
+        trailingComment: null,
+      });
+    }
+  }
+
+  /**
+   * Parse a `[a.b]` header, creating the objects it names
+   */
+  private parseSection(result: ParseResult): {
+    path: string[];
+    node?: CstSection;
+  } {
+    const start = this.point();
+    this.expect("[");
+    this.skipWhitespace();
+    const keyNode = this.parseKeyNode(true);
+    this.skipWhitespace();
+    this.expect("]");
+    const end = this.pos;
+
+    while (this.peek() === " " || this.peek() === "\t") this.advance();
+    if (!this.isEof() && this.peek() !== "\n" && this.peek() !== "#") {
+      throw this.error(
+        "Expected a new line after section header",
+        "expected-token"
+      );
+    }
+
+    const path = keyNode.path;
+    this.objectAt(
+      result,
+      path,
+      this.rangeFrom(start),
+      `open section [${path.join(".")}]`
+    );
+    if (!this.options.cst) {
+      return { path };
+    }
+
+    const node: CstSection = {
+      kind: "section",
+      start: this.textOffset(start),
+      end,
+      header: { start: this.textOffset(start), end, key: keyNode },
+      entries: [],
+      comments: [],
+      leadingComments: [],
+      trailingComment: null,
+    };
+    return { path, node };
+  }
+
+  /**
+   * Store a value under a dotted key path, creating objects along the way
+   */
+  private assign(
+    items: ParseResult,
+    path: string[],
+    value: BringValue,
+    range: SourceRange
+  ): void {
+    const target = this.objectAt(
+      items,
+      path.slice(0, -1),
+      range,
+      `set '${path.join(".")}'`
+    );
+    this.define(
+      target,
+      path[path.length - 1],
+      value,
+      range,
+      "duplicate-key",
+      `key '${path.join(".")}'`
+    );
+  }
+
+  /**
+   * Add a key to an object, applying the duplicate policy when it exists
+   */
+  private define(
+    items: ParseResult,
+    key: string,
+    value: BringValue | BringSchema,
+    range: SourceRange,
+    code: BringErrorCode,
+    label: string
+  ): void {
+    let ranges = this.keyRanges.get(items);
+    if (!ranges) {
+      ranges = new Map();
+      this.keyRanges.set(items, ranges);
+    }
+
+    const first = ranges.get(key);
+    if (
+      items[key] !== undefined &&
+      !this.duplicate(code, label, range, first)
+    ) {
+      return;
+    }
+    if (this.context) {
+      const previous = items[key];
+      const keyRanges = ranges;
+      this.undo.push(() => {
+        if (previous === undefined) {
+          delete items[key];
+        } else {
+          items[key] = previous;
+        }
+        if (first) {
+          keyRanges.set(key, first);
+        } else {
+          keyRanges.delete(key);
+        }
+      });
+    }
+    items[key] = value;
+    ranges.set(key, range);
+  }
+
+  /**
+   * Report a repeated definition according to the duplicate policy, returning
+   * whether the new definition replaces the earlier one
+   */
+  private duplicate(
+    code: BringErrorCode,
+    label: string,
+    range: SourceRange,
+    first?: SourceRange
+  ): boolean {
+    const policy = this.options.strict
+      ? "error"
+      : (this.options.duplicates ?? "last");
+    const where = first
+      ? ` (first defined at line ${first.start.line}, column ${first.start.column})`
+      : "";
+    const related = first
+      ? [{ message: "First defined here", range: first }]
+      : undefined;
+
+    if (policy === "error") {
+      const error = this.errorAt(
+        range.start,
+        `Duplicate ${label}${where}`,
+        code
+      );
+      error.related = related;
+      throw error;
+    }
+
+    const warning: BringDiagnostic = {
+      message: `Duplicate ${label}${where}, keeping the ${policy} definition`,
+      severity: "warning",
+      range,
+      code,
+    };
+    if (related) warning.related = related;
+    this.diagnostics.push(warning);
+    this.options.onWarning?.(warning);
+    return policy === "last";
+  }
+
+  /**
+   * Drop repeated attributes of one value according to the duplicate policy
+   */
+  private uniqueAttributes(attributes: BringAttribute[]): BringAttribute[] {
+    const kept = new Map<string, BringAttribute>();
+    for (const attr of attributes) {
+      const existing = kept.get(attr.name);
+      if (existing) {
+        const replace = this.duplicate(
+          "duplicate-attribute",
+          `attribute '@${attr.name}'`,
+          this.attributeRanges.get(attr)!,
+          this.attributeRanges.get(existing)
+        );
+        if (!replace) continue;
+        kept.delete(attr.name);
+      }
+      kept.set(attr.name, attr);
+    }
+    return kept.size === attributes.length ? attributes : [...kept.values()];
+  }
+
+  private objectAt(
+    items: ParseResult,
+    path: string[],
+    range: SourceRange,
+    action: string
+  ): ParseResult {
+    let target = items;
+    path.forEach((key, index) => {
+      const existing = target[key];
+      if (existing === undefined) {
+        const created: BringObject = { type: "object", items: {} };
+        this.define(target, key, created, range, "duplicate-key", key);
+        target = created.items;
+      } else if (isBringValue(existing) && existing.type === "object") {
+        target = existing.items;
+      } else {
+        const prefix = path.slice(0, index + 1).join(".");
+        const found = !isBringValue(existing)
+          ? "a schema"
+          : existing.type === "array"
+            ? "an array"
+            : existing.value === null
+              ? "null"
+              : `a ${existing.kind ?? typeof existing.value}`;
+        throw this.errorAt(
+          range.start,
+          `Cannot ${action}: '${prefix}' is ${found}, not an object`,
+          "key-conflict"
+        );
+      }
+    });
+    return target;
+  }
+
+  private parseKeyValuePair(): {
+    path: string[];
+    value: BringValue;
+    keyLoc: SourceRange;
+    node?: CstEntry;
+  } {
+    const keyStart = this.point();
+    const keyNode = this.parseKeyNode(true);
+    const keyLoc = this.rangeFrom(keyStart);
+    this.skipWhitespace();
+
+    // Attributes may appear before the '=' or after the value
+    const attributeNodes: CstAttribute[] = [];
+    const attributes = this.parseAttributes(attributeNodes);
+
+    this.expect("=");
     this.skipWhitespace();
+    const value = this.parseValue();
+    const valueEnd = this.pos;
+    this.skipWhitespace();
+    attributes.push(...this.parseAttributes(attributeNodes));
+
+    if (attributes.length > 0) {
+      value.attributes = this.uniqueAttributes(attributes);
+    }
+    if (this.options.locations) {
+      value.keyLoc = keyLoc;
+    }
+
+    if (!this.options.cst) {
+      return { path: keyNode.path, value, keyLoc };
+    }
+
+    const last = attributeNodes[attributeNodes.length - 1];
+    const node: CstEntry = {
+      kind: "entry",
+      start: keyNode.start,
+      end: last && last.end > valueEnd ? last.end : valueEnd,
+      key: keyNode,
+      value: this.nodes.get(value) as CstValue,
+      attributes: attributeNodes,
+      comma: null,
+      leadingComments: [],
+      trailingComment: null,
+    };
+    return { path: keyNode.path, value, keyLoc, node };
+  }
 
+  private parseAttributes(nodes?: CstAttribute[]): BringAttribute[] {
     const attributes: BringAttribute[] = [];
     while (this.peek() === "@") {
+      const start = this.point();
       this.advance();
       const attrName = this.parseIdentifier();
       this.skipWhitespace();
       this.expect("=");
       this.skipWhitespace();
-      const attrValue = this.parsePrimitiveValue();
-      attributes.push({ name: attrName, value: attrValue });
+      const parsed = this.parseValue();
+      const attribute: BringAttribute = {
+        name: attrName,
+        value: parsed.type === "primitive" ? parsed.value : toObject(parsed),
+      };
+      if (parsed.type === "primitive" && parsed.kind) {
+        attribute.kind = parsed.kind;
+      }
+      const range = this.rangeFrom(start);
+      this.attributeRanges.set(attribute, range);
+      if (this.options.locations) {
+        attribute.loc = range;
+      }
+      attributes.push(attribute);
+      if (this.options.cst && nodes) {
+        nodes.push({
+          kind: "attribute",
+          start: this.textOffset(start),
+          end: this.pos,
+          name: attrName,
+          value: this.nodes.get(parsed) as CstValue,
+        });
+      }
       this.skipWhitespace();
     }
+    return attributes;
+  }
 
-    this.expect("=");
-    this.skipWhitespace();
-    const value = this.parseValue();
-
-    if (attributes.length > 0) {
-      value.attributes = attributes;
+  private parseValue(): BringValue {
+    const start = this.point();
+    const value = this.parseValueAt();
+    valuePositions.set(value, start);
+    if (this.options.locations) {
+      value.loc = this.rangeFrom(start);
     }
-
-    return { key, value };
+    if (this.options.cst && value.type === "primitive") {
+      this.nodes.set(value, this.scalarNode(this.textOffset(start)));
+    }
+    return value;
   }
 
-  private parseValue(): BringValue {
+  private parseValueAt(): BringValue {
     const char = this.peek();
+    const scalar = matchScalar(this.text, this.pos);
 
-    if (char === "{") {
+    if (scalar) {
+      return this.parseScalar(scalar.kind, scalar.text);
+    } else if (char === "{") {
       return this.parseObject();
     } else if (char === "[") {
       return this.parseArray();
-    } else if (char === '"' || char === "'") {
+    } else if (this.atString()) {
       return { type: "primitive", value: this.parseString() };
-    } else if (char.match(/\d/) || char === "-") {
+    } else if (
+      isDigit(this.text.charCodeAt(this.pos)) ||
+      char === "-" ||
+      char === "+" ||
+      this.atKeyword("inf") ||
+      this.atKeyword("nan")
+    ) {
       return { type: "primitive", value: this.parseNumber() };
-    } else if (this.match("true")) {
+    } else if (this.matchKeyword("true")) {
       return { type: "primitive", value: true };
-    } else if (this.match("false")) {
+    } else if (this.matchKeyword("false")) {
       return { type: "primitive", value: false };
-    } else if (this.match("null")) {
+    } else if (this.matchKeyword("null")) {
       return { type: "primitive", value: null };
     } else {
-      throw this.error(`Unexpected character: ${char}`);
+      throw this.error(`Unexpected character: ${char}`, "unexpected-character");
     }
   }
 
   private parseObject(): BringObject {
+    const start = this.pos;
     this.expect("{");
     this.skipWhitespace();
 
     const items: Record<string, BringValue> = {};
+    const entries: CstEntry[] = [];
 
     while (!this.isEof() && this.peek() !== "}") {
       if (this.peek() === "#") {
@@ -200,26 +956,86 @@ export class BringParser {
         continue;
       }
 
-      const kvPair = this.parseKeyValuePair();
-      items[kvPair.key] = kvPair.value;
+      const entryStart = this.pos;
+      try {
+        const kvPair = this.parseKeyValuePair();
+        this.assign(items, kvPair.path, kvPair.value, kvPair.keyLoc);
+        if (kvPair.node) entries.push(kvPair.node);
 
-      this.skipWhitespace();
-      if (this.peek() === ",") {
-        this.advance();
+        this.skipWhitespace();
+        if (this.peek() === ",") {
+          if (kvPair.node) kvPair.node.comma = this.span(this.pos, 1);
+          this.advance();
+          this.skipWhitespace();
+        }
+      } catch (error) {
+        this.recoverFrom(error, entryStart);
         this.skipWhitespace();
       }
     }
 
-    this.expect("}");
-    return { type: "object", items };
+    this.expectClosing("}");
+    const object: BringObject = { type: "object", items };
+    if (this.options.cst) {
+      this.nodes.set(object, {
+        kind: "object",
+        start,
+        end: this.pos,
+        entries,
+        comments: [],
+      });
+    }
+    return object;
   }
 
   private parseArray(): BringArray {
+    const start = this.pos;
     this.expect("[");
     this.skipWhitespace();
 
-    const items: BringValue[] = [];
+    const itemNodes: CstItem[] = [];
+    const items = this.parseItemList(itemNodes);
+
+    this.expectClosing("]");
+    const array: BringArray = { type: "array", items };
+    if (this.options.cst) {
+      this.nodes.set(array, {
+        kind: "array",
+        start,
+        end: this.pos,
+        items: itemNodes,
+        comments: [],
+      });
+    }
+    return array;
+  }
 
+  /**
+   * Parse array items without the brackets, up to the end of the text, as
+   * in one chunk of a streamed array
+   */
+  public parseItems(): BringValue[] {
+    this.skipWhitespace();
+    const items = this.parseItemList([]);
+    if (!this.isEof()) {
+      throw this.error(
+        `Unexpected character: ${this.peek()}`,
+        "unexpected-character"
+      );
+    }
+    return items;
+  }
+
+  /**
+   * Parse the attributes written after a value, as after a streamed array
+   */
+  public parseAttributeList(): BringAttribute[] {
+    this.skipWhitespace();
+    return this.uniqueAttributes(this.parseAttributes());
+  }
+
+  private parseItemList(itemNodes: CstItem[]): BringValue[] {
+    const items: BringValue[] = [];
     while (!this.isEof() && this.peek() !== "]") {
       if (this.peek() === "#") {
         this.skipComment();
@@ -227,27 +1043,61 @@ export class BringParser {
         continue;
       }
 
-      items.push(this.parseValue());
-      this.skipWhitespace();
+      const itemStart = this.pos;
+      try {
+        const item = this.parseValue();
+        items.push(item);
+        const itemNode = this.options.cst ? this.itemNode(item) : undefined;
+        if (itemNode) itemNodes.push(itemNode);
+        this.skipWhitespace();
 
-      if (this.peek() === ",") {
-        this.advance();
+        if (this.peek() === ",") {
+          if (itemNode) itemNode.comma = this.span(this.pos, 1);
+          this.advance();
+          this.skipWhitespace();
+        }
+      } catch (error) {
+        this.recoverFrom(error, itemStart);
         this.skipWhitespace();
       }
     }
-
-    this.expect("]");
-    return { type: "array", items };
+    return items;
   }
 
-  private parseSchema(): BringSchema {
+  private parseSchema(start: SourcePosition = this.point()): BringSchema {
     const name = this.parseIdentifier();
     this.skipWhitespace();
+
+    const ruleNodes: CstSchemaRule[] = [];
+    const rules = this.parseRuleBlock(ruleNodes);
+    const schema: BringSchema = { name, rules };
+    if (this.options.locations) {
+      schema.loc = this.rangeFrom(start);
+    }
+    if (this.options.cst) {
+      this.nodes.set(schema, {
+        kind: "schema",
+        start: this.textOffset(start),
+        end: this.pos,
+        name,
+        rules: ruleNodes,
+        comments: [],
+        leadingComments: [],
+        trailingComment: null,
+      });
+    }
+    return schema;
+  }
+
+  /**
+   * Parse `{ key = type @attrs ... }`, the body of schemas and inline types
+   */
+  private parseRuleBlock(ruleNodes: CstSchemaRule[]): BringSchemaRule[] {
     this.expect("{");
     this.skipWhitespace();
 
     const rules: BringSchemaRule[] = [];
-
+    const keyRanges = new Map<string, SourceRange>();
     while (!this.isEof() && this.peek() !== "}") {
       if (this.peek() === "#") {
         this.skipComment();
@@ -255,185 +1105,534 @@ export class BringParser {
         continue;
       }
 
-      const key = this.parseKey();
+      const ruleStart = this.pos;
+      try {
+        const { rule, node, keyLoc } = this.parseRule();
+        const index = rules.findIndex((item) => item.key === rule.key);
+        if (index === -1) {
+          rules.push(rule);
+          keyRanges.set(rule.key, keyLoc);
+        } else if (
+          this.duplicate(
+            "duplicate-key",
+            `key '${rule.key}'`,
+            keyLoc,
+            keyRanges.get(rule.key)
+          )
+        ) {
+          rules.splice(index, 1, rule);
+          keyRanges.set(rule.key, keyLoc);
+        }
+        if (node) ruleNodes.push(node);
+
+        this.skipWhitespace();
+        if (this.peek() === ",") {
+          if (node) node.comma = this.span(this.pos, 1);
+          this.advance();
+        }
+      } catch (error) {
+        this.recoverFrom(error, ruleStart);
+      }
       this.skipWhitespace();
-      this.expect("=");
+    }
+
+    this.expectClosing("}");
+    return rules;
+  }
+
+  private parseRule(): {
+    rule: BringSchemaRule;
+    keyLoc: SourceRange;
+    node?: CstSchemaRule;
+  } {
+    const keyStart = this.point();
+    const keyNode = this.parseKeyNode();
+    const keyLoc = this.rangeFrom(keyStart);
+    const optional = this.match("?");
+    this.skipWhitespace();
+    this.expect("=");
+    this.skipWhitespace();
+    const typeStart = this.pos;
+    const outer = this.typeObjects;
+    const objects: CstObjectType[] = [];
+    this.typeObjects = objects;
+    let typeExpr: BringTypeExpr;
+    try {
+      typeExpr = this.parseType();
+    } finally {
+      this.typeObjects = outer;
+    }
+    const typeEnd = this.pos;
+    const typeEndPoint = this.point();
+    this.skipWhitespace();
+    const attributeNodes: CstAttribute[] = [];
+    const attrs = this.parseAttributes(attributeNodes);
+
+    const rule: BringSchemaRule = {
+      key: keyNode.name,
+      type: formatType(typeExpr),
+      typeExpr,
+      attributes: this.uniqueAttributes(attrs),
+    };
+    if (optional) rule.optional = true;
+    if (this.options.locations) {
+      const lastAttr = attrs[attrs.length - 1];
+      rule.loc = {
+        start: keyStart,
+        end: lastAttr?.loc ? lastAttr.loc.end : typeEndPoint,
+      };
+      rule.keyLoc = keyLoc;
+    }
+    if (!this.options.cst) {
+      return { rule, keyLoc };
+    }
+
+    const last = attributeNodes[attributeNodes.length - 1];
+    const node: CstSchemaRule = {
+      kind: "rule",
+      start: keyNode.start,
+      end: last ? last.end : typeEnd,
+      key: keyNode,
+      type: {
+        ...this.span(typeStart, typeEnd - typeStart),
+        name: this.text.substring(typeStart, typeEnd),
+        objects,
+      },
+      attributes: attributeNodes,
+      comma: null,
+      leadingComments: [],
+      trailingComment: null,
+    };
+    return { rule, keyLoc, node };
+  }
+
+  /**
+   * Parse a rule type: members separated by `|`, a line break allowed after it
+   */
+  private parseType(): BringTypeExpr {
+    const types: BringTypeExpr[] = [];
+    for (;;) {
+      const member = this.parseTypeMember();
+      types.push(...(member.kind === "union" ? member.types : [member]));
+
+      const pos = this.pos;
+      while (this.peek() === " " || this.peek() === "\t") this.advance();
+      if (!this.match("|")) {
+        this.pos = pos;
+        break;
+      }
+      this.skipWhitespace();
+    }
+    return types.length === 1 ? types[0] : { kind: "union", types };
+  }
+
+  private parseTypeMember(): BringTypeExpr {
+    let type: BringTypeExpr;
+    if (this.peek() === "{") {
+      const start = this.pos;
+      const ruleNodes: CstSchemaRule[] = [];
+      type = { kind: "object", rules: this.parseRuleBlock(ruleNodes) };
+      if (this.options.cst) {
+        this.typeObjects.push({
+          kind: "object-type",
+          ...this.span(start, this.pos - start),
+          rules: ruleNodes,
+          comments: [],
+        });
+      }
+    } else if (this.match("(")) {
       this.skipWhitespace();
-      const typeName = this.parseIdentifier();
+      type = this.parseType();
       this.skipWhitespace();
+      this.expect(")");
+    } else {
+      const name = this.parseIdentifier();
+      type = name === "null" ? { kind: "null" } : { kind: "name", name };
+    }
 
-      const attrs: BringAttribute[] = [];
-      while (this.peek() === "@") {
-        this.advance();
-        const attrName = this.parseIdentifier();
-        this.skipWhitespace();
-        this.expect("=");
-        this.skipWhitespace();
-        const attrValue = this.parsePrimitiveValue();
-        attrs.push({ name: attrName, value: attrValue });
-        this.skipWhitespace();
+    // Suffixes apply left to right: `string?[]` is an array of nullable strings
+    for (;;) {
+      if (this.match("[]")) {
+        type = { kind: "array", element: type };
+      } else if (this.match("?")) {
+        const types = type.kind === "union" ? type.types : [type];
+        type = types.some((item) => item.kind === "null")
+          ? type
+          : { kind: "union", types: [...types, { kind: "null" }] };
+      } else {
+        return type;
       }
+    }
+  }
 
-      rules.push({ key, type: typeName, attributes: attrs });
-      this.skipWhitespace();
+  /**
+   * Parse a key, or with `dotted` a path of keys such as `app."my-db".url`
+   */
+  private parseKeyNode(dotted: boolean = false): CstKey {
+    const start = this.pos;
+    const char = this.peek();
+    const path = [this.parseKey()];
+    while (dotted && this.peek() === ".") {
+      this.advance();
+      path.push(this.parseKey());
     }
+    return {
+      kind: "key",
+      start,
+      end: this.pos,
+      name: path[path.length - 1],
+      path,
+      quote: char === '"' || char === "'" ? char : null,
+    };
+  }
 
-    this.expect("}");
-    return { name, rules };
+  private scalarNode(start: number): CstScalar {
+    const char = this.text[start];
+    return {
+      kind: "scalar",
+      start,
+      end: this.pos,
+      raw: this.text.substring(start, this.pos),
+      quote: char === '"' || char === "'" ? char : null,
+    };
+  }
+
+  private itemNode(value: BringValue): CstItem {
+    const valueNode = this.nodes.get(value) as CstValue;
+    return {
+      kind: "item",
+      start: valueNode.start,
+      end: valueNode.end,
+      value: valueNode,
+      comma: null,
+      leadingComments: [],
+      trailingComment: null,
+    };
+  }
+
+  private pushNode(
+    entries: (CstEntry | CstSchema | CstInclude | CstSection)[],
+    value: BringSchema
+  ): void {
+    const node = this.nodes.get(value);
+    if (node) entries.push(node as CstSchema);
+  }
+
+  private point(): SourcePosition {
+    return {
+      line: this.line,
+      column: this.pos - this.lineStart + 1,
+      offset: this.startOffset + this.pos,
+    };
+  }
+
+  /**
+   * The index into the text of a position, for the syntax tree
+   */
+  private textOffset(position: SourcePosition): number {
+    return position.offset - this.startOffset;
+  }
+
+  private rangeFrom(start: SourcePosition): SourceRange {
+    return { start, end: this.point() };
+  }
+
+  private span(start: number, length: number): { start: number; end: number } {
+    return { start, end: start + length };
   }
 
   private parseKey(): string {
-    if (this.peek() === '"' || this.peek() === "'") {
+    if (this.atString()) {
       return this.parseString();
     }
     return this.parseIdentifier();
   }
 
-  private parsePrimitiveValue(): string | number | boolean {
-    const char = this.peek();
+  private parseScalar(kind: BringScalarKind, text: string): BringScalar {
+    const invalid = scalarError(kind, text);
+    if (invalid) {
+      throw this.error(invalid, "invalid-scalar");
+    }
+    this.match(text);
+    return { type: "primitive", value: text, kind };
+  }
 
-    if (char === '"' || char === "'") {
-      return this.parseString();
-    } else if (char.match(/\d/) || char === "-") {
-      return this.parseNumber();
-    } else if (this.match("true")) {
-      return true;
-    } else if (this.match("false")) {
-      return false;
-    } else {
-      throw this.error("Expected primitive value");
+  /**
+   * Whether a quoted string, or a raw string prefixed with `r`, starts here
+   */
+  private atString(): boolean {
+    const char = this.peek();
+    if (char === "r") {
+      const next = this.text[this.pos + 1];
+      return next === '"' || next === "'";
     }
+    return char === '"' || char === "'";
   }
 
+  /**
+   * Parse a string literal
+   *
+   * Strings are single-line between `"` or `'`, or multi-line between `"""`
+   * or `'''`, where a newline right after the opening quotes is dropped. An
+   * `r` prefix makes the string raw, so backslashes are kept as written.
+   */
   private parseString(): string {
+    const raw = this.peek() === "r";
+    if (raw) this.advance();
+
     const quoteChar = this.peek();
-    this.advance();
-    const result: string[] = [];
+    const triple = quoteChar.repeat(3);
+    const delimiter = this.text.startsWith(triple, this.pos)
+      ? triple
+      : quoteChar;
+    this.match(delimiter);
+    if (delimiter === triple) {
+      this.match("\r");
+      this.match("\n");
+    }
 
-    while (!this.isEof() && this.peek() !== quoteChar) {
-      if (this.peek() === "\\") {
-        this.advance();
-        if (this.isEof()) {
-          throw this.error("Unterminated string");
-        }
-        const escapeChar = this.advance();
-        switch (escapeChar) {
-          case "n":
-            result.push("\n");
-            break;
-          case "t":
-            result.push("\t");
-            break;
-          case "r":
-            result.push("\r");
-            break;
-          case "\\":
-            result.push("\\");
-            break;
-          case '"':
-            result.push('"');
-            break;
-          case "'":
-            result.push("'");
-            break;
-          default:
-            result.push(escapeChar);
-        }
+    // Copy runs of plain characters as slices, decoding escapes between them
+    const close = delimiter.charCodeAt(0);
+    let result = "";
+    let run = this.pos;
+    for (;;) {
+      const code = this.text.charCodeAt(this.pos);
+      if (code === close && this.text.startsWith(delimiter, this.pos)) {
+        break;
+      }
+      if (this.isEof()) {
+        throw this.error(
+          delimiter === triple
+            ? "Unterminated multi-line string"
+            : "Unterminated string",
+          "unterminated-string"
+        );
+      }
+      if (code === BACKSLASH && !raw) {
+        result += this.text.slice(run, this.pos) + this.parseEscape();
+        run = this.pos;
       } else {
-        result.push(this.advance());
+        this.pos += 1;
+        if (code === NEWLINE) {
+          this.line += 1;
+          this.lineStart = this.pos;
+        }
       }
     }
 
+    result += this.text.slice(run, this.pos);
+    this.pos += delimiter.length;
+    return result;
+  }
+
+  private parseEscape(): string {
+    this.advance();
     if (this.isEof()) {
-      throw this.error("Unterminated string");
+      throw this.error("Unterminated string", "unterminated-string");
+    }
+    const escapeChar = this.advance();
+    switch (escapeChar) {
+      case "n":
+        return "\n";
+      case "t":
+        return "\t";
+      case "r":
+        return "\r";
+      case "u":
+        return this.parseUnicodeEscape();
+      default:
+        return escapeChar;
+    }
+  }
+
+  /**
+   * Parse the code point of a `\uXXXX` or `\u{X...}` escape
+   */
+  private parseUnicodeEscape(): string {
+    UNICODE_ESCAPE.lastIndex = this.pos;
+    const match = UNICODE_ESCAPE.exec(this.text);
+    if (!match) {
+      throw this.error(
+        "Invalid unicode escape, expected \\uXXXX or \\u{X...}",
+        "invalid-escape"
+      );
     }
 
-    this.advance();
-    return result.join("");
+    const codePoint = parseInt(match[1] ?? match[2], 16);
+    if (codePoint > 0x10ffff) {
+      throw this.error(
+        `Unicode escape out of range: ${match[0]}`,
+        "invalid-escape"
+      );
+    }
+    this.match(match[0]);
+    return String.fromCodePoint(codePoint);
   }
 
+  /**
+   * Parse a number literal
+   *
+   * Numbers may have a sign, a fraction, an exponent and `_` separators
+   * between digits, or be written in hex (`0x`), octal (`0o`) or binary
+   * (`0b`). `inf` and `nan` are also numbers.
+   */
   private parseNumber(): number {
     const startPos = this.pos;
-    let isFloat = false;
+    const sign =
+      this.peek() === "-" || this.peek() === "+" ? this.advance() : "";
 
-    if (this.peek() === "-") {
-      this.advance();
+    if (this.matchKeyword("inf")) {
+      return sign === "-" ? -Infinity : Infinity;
     }
-
-    if (!this.peek().match(/\d/)) {
-      throw this.error("Expected digit after minus sign");
+    if (this.matchKeyword("nan")) {
+      return NaN;
     }
 
-    while (!this.isEof() && this.peek().match(/\d/)) {
-      this.advance();
+    if (sign && !isDigit(this.text.charCodeAt(this.pos))) {
+      throw this.error(
+        `Expected digit after ${sign === "-" ? "minus" : "plus"} sign`,
+        "expected-digit"
+      );
     }
 
-    if (!this.isEof() && this.peek() === ".") {
-      isFloat = true;
-      this.advance();
-      if (!this.peek().match(/\d/)) {
-        throw this.error("Expected digit after decimal point");
+    let result: number;
+    const radix = RADIX_PREFIXES[this.text.substring(this.pos, this.pos + 2)];
+    if (radix) {
+      const prefix = this.text.substring(this.pos, this.pos + 2);
+      this.pos += 2;
+      const digits = this.parseDigits(
+        RADIX_DIGITS[radix],
+        `${RADIX_NAMES[radix]} digit after ${prefix}`
+      );
+      result = parseInt(digits, radix);
+      if (sign === "-") result = -result;
+    } else {
+      let text = sign + this.parseDigits(isDigit, "digit");
+      if (this.peek() === ".") {
+        this.advance();
+        text += "." + this.parseDigits(isDigit, "digit after decimal point");
       }
-      while (!this.isEof() && this.peek().match(/\d/)) {
+      if (this.peek() === "e" || this.peek() === "E") {
         this.advance();
+        const exponentSign =
+          this.peek() === "-" || this.peek() === "+" ? this.advance() : "";
+        text +=
+          "e" + exponentSign + this.parseDigits(isDigit, "digit in exponent");
       }
+      result = Number(text);
     }
 
-    const numStr = this.text.substring(startPos, this.pos);
-    const result = isFloat ? parseFloat(numStr) : parseInt(numStr, 10);
-
-    if (isNaN(result)) {
-      throw this.error(`Invalid number format: ${numStr}`);
+    if (isNumberPart(this.text.charCodeAt(this.pos))) {
+      this.pos = scanWhile(this.text, this.pos, isNumberPart);
+      throw this.error(
+        `Invalid number format: ${this.text.substring(startPos, this.pos)}`,
+        "invalid-number"
+      );
     }
 
     return result;
   }
 
-  private parseIdentifier(): string {
-    if (!this.peek().match(/[a-zA-Z_]/)) {
-      throw this.error(`Expected identifier, got '${this.peek()}'`);
+  /**
+   * Read digits matching `digit`, dropping `_` separators between them
+   */
+  private parseDigits(
+    digit: (code: number) => boolean,
+    expected: string
+  ): string {
+    if (!digit(this.text.charCodeAt(this.pos))) {
+      throw this.error(`Expected ${expected}`, "expected-digit");
     }
 
-    const result: string[] = [this.advance()];
-    while (!this.isEof() && this.peek().match(/[a-zA-Z0-9_]/)) {
-      result.push(this.advance());
+    let digits = "";
+    let run = this.pos;
+    for (;;) {
+      this.pos = scanWhile(this.text, this.pos, digit);
+      if (this.text.charCodeAt(this.pos) !== UNDERSCORE) break;
+      if (!digit(this.text.charCodeAt(this.pos + 1))) {
+        throw this.error(
+          "Underscores in numbers must be between digits",
+          "invalid-number"
+        );
+      }
+      digits += this.text.slice(run, this.pos);
+      this.pos += 1;
+      run = this.pos;
     }
+    return digits + this.text.slice(run, this.pos);
+  }
 
-    return result.join("");
+  private parseIdentifier(): string {
+    if (!isIdentifierStart(this.text.charCodeAt(this.pos))) {
+      throw this.error(
+        `Expected identifier, got '${this.peek()}'`,
+        "expected-identifier"
+      );
+    }
+
+    const start = this.pos;
+    this.pos = scanWhile(this.text, start + 1, isIdentifierPart);
+    return this.text.slice(start, this.pos);
   }
 
   private skipWhitespace(): void {
-    while (!this.isEof() && this.peek().match(/\s/)) {
-      if (this.peek() === "\n") {
+    for (;;) {
+      const code = this.text.charCodeAt(this.pos);
+      if (code === NEWLINE) {
         this.line += 1;
-        this.col = 1;
-      } else {
-        this.col += 1;
+        this.lineStart = this.pos + 1;
+      } else if (!isWhitespace(code)) {
+        return;
       }
-      this.advance();
+      this.pos += 1;
     }
   }
 
   private skipComment(): void {
+    const start = this.pos;
     this.expect("#");
-    while (!this.isEof() && this.peek() !== "\n") {
-      this.advance();
+    const newline = this.text.indexOf("\n", this.pos);
+    this.pos = newline === -1 ? this.text.length : newline;
+    if (this.options.cst) {
+      this.comments.push({
+        kind: "comment",
+        start,
+        end: this.pos,
+        text: this.text.substring(start + 1, this.pos),
+      });
     }
   }
 
   private match(s: string): boolean {
-    if (this.text.startsWith(s, this.pos)) {
-      for (let i = 0; i < s.length; i++) {
-        this.advance();
-      }
-      return true;
+    if (!this.text.startsWith(s, this.pos)) {
+      return false;
     }
-    return false;
+    const newline = s.lastIndexOf("\n");
+    if (newline !== -1) {
+      this.line += s.split("\n").length - 1;
+      this.lineStart = this.pos + newline + 1;
+    }
+    this.pos += s.length;
+    return true;
+  }
+
+  private atKeyword(word: string): boolean {
+    return (
+      this.text.startsWith(word, this.pos) &&
+      !isIdentifierPart(this.text.charCodeAt(this.pos + word.length))
+    );
+  }
+
+  private matchKeyword(word: string): boolean {
+    return this.atKeyword(word) && this.match(word);
   }
 
   private expect(s: string): void {
     if (!this.match(s)) {
-      throw this.error(`Expected '${s}'`);
+      throw this.error(
+        `Expected '${s}'`,
+        EXPECTED_CODES[s] ?? "expected-token"
+      );
     }
   }
 
@@ -448,14 +1647,10 @@ export class BringParser {
 
     const char = this.text[this.pos];
     this.pos += 1;
-
     if (char === "\n") {
       this.line += 1;
-      this.col = 1;
-    } else {
-      this.col += 1;
+      this.lineStart = this.pos;
     }
-
     return char;
   }
 
@@ -463,28 +1658,162 @@ export class BringParser {
     return this.pos >= this.text.length;
   }
 
-  private error(message: string): BringParseError {
-    return new BringParseError(message, this.line, this.col, this.pos);
+  private error(message: string, code: BringErrorCode): BringParseError {
+    return this.errorAt(this.point(), message, code);
+  }
+
+  private errorAt(
+    position: SourcePosition,
+    message: string,
+    code: BringErrorCode
+  ): BringParseError {
+    return new BringParseError(
+      message,
+      position.line,
+      position.column,
+      position.offset,
+      code
+    );
+  }
+
+  /**
+   * In recover mode, record a parse error and skip to where parsing can resume
+   */
+  private recoverFrom(error: unknown, entryStart: number): void {
+    if (!this.options.recover || !(error instanceof BringParseError)) {
+      throw error;
+    }
+
+    const start: SourcePosition = {
+      line: error.line,
+      column: error.column,
+      offset: error.position,
+    };
+    this.synchronize();
+    if (this.pos === entryStart) {
+      // Nothing could be parsed from here, so drop the offending character
+      this.advance();
+    }
+
+    const diagnostic: BringDiagnostic = {
+      message: error.message,
+      severity: "error",
+      range: { start, end: this.point() },
+      code: error.code,
+    };
+    if (error.related) diagnostic.related = error.related;
+    this.diagnostics.push(diagnostic);
+  }
+
+  /**
+   * Skip to the next line, separator or closing bracket outside nested
+   * brackets and strings
+   */
+  private synchronize(): void {
+    let depth = 0;
+    while (!this.isEof()) {
+      const char = this.peek();
+      if (char === "\n" || (char === "," && depth === 0)) {
+        this.advance();
+        return;
+      }
+      if ((char === "}" || char === "]") && depth === 0) {
+        return;
+      }
+      if (char === "{" || char === "[") {
+        depth += 1;
+      } else if (char === "}" || char === "]") {
+        depth -= 1;
+      } else if (char === '"' || char === "'") {
+        this.advance();
+        while (!this.isEof() && this.peek() !== char && this.peek() !== "\n") {
+          if (this.peek() === "\\") this.advance();
+          this.advance();
+        }
+        if (this.peek() !== char) continue;
+      }
+      this.advance();
+    }
+  }
+
+  private expectClosing(s: string): void {
+    if (this.options.recover && this.isEof()) {
+      const error = this.error(`Expected '${s}'`, EXPECTED_CODES[s]);
+      const start = this.point();
+      this.diagnostics.push({
+        message: error.message,
+        severity: "error",
+        range: { start, end: start },
+        code: error.code,
+      });
+      return;
+    }
+    this.expect(s);
   }
 }
 
+// Overloaded function signatures for parse
+export function parse(
+  content: string,
+  options: ParseOptions & { recover: true }
+): RecoveredParseResult;
+export function parse(
+  content: string,
+  options?: ParseOptions & { recover?: false }
+): ParseResult;
+export function parse(
+  content: string,
+  options?: ParseOptions
+): ParseResult | RecoveredParseResult;
+
 /**
  * Parse a Bring format string
+ *
+ * With `recover: true`, returns the partial result together with every
+ * diagnostic instead of throwing on the first error.
  */
-export function parse(content: string): ParseResult {
-  const parser = new BringParser(content);
-  return parser.parse();
+export function parse(
+  content: string,
+  options: ParseOptions = {}
+): ParseResult | RecoveredParseResult {
+  const parser = new BringParser(content, options);
+  const result = parser.parse();
+  if (options.recover) {
+    return { result, diagnostics: parser.getDiagnostics() };
+  }
+  return result;
 }
 
 // Overloaded function signatures for toObject
 export function toObject(value: BringValue): any;
 export function toObject(value: ParseResult): any;
-export function toObject(value: BringValue | ParseResult): any;
+export function toObject(
+  value: BringValue | ParseResult,
+  options: ObjectOptions & { attributes: "sidecar" }
+): SidecarObject;
+export function toObject(
+  value: BringValue | ParseResult,
+  options?: ObjectOptions
+): any;
 
 /**
  * Convert Bring data structures to plain JavaScript objects
+ *
+ * Attributes are dropped unless `options.attributes` is "inline" or
+ * "sidecar"; those modes keep typed scalars as written, and `fromObject`
+ * turns their output back into Bring values.
  */
-export function toObject(value: BringValue | ParseResult): any {
+export function toObject(
+  value: BringValue | ParseResult,
+  options: ObjectOptions = {}
+): any {
+  if (options.attributes === "inline") {
+    return toInlineObject(value);
+  }
+  if (options.attributes === "sidecar") {
+    return toSidecarObject(value);
+  }
+
   // Check if it's a ParseResult (top-level parsed object)
   if (isParseResult(value)) {
     const result: any = {};
@@ -500,7 +1829,9 @@ export function toObject(value: BringValue | ParseResult): any {
   if (isBringValue(value)) {
     switch (value.type) {
       case "primitive":
-        return value.value;
+        return value.kind
+          ? scalarValue(value.kind, String(value.value))
+          : value.value;
       case "object":
         const obj: any = {};
         for (const [key, val] of Object.entries(value.items)) {
@@ -521,9 +1852,10 @@ export function toObject(value: BringValue | ParseResult): any {
  */
 export function toJSON(
   bringValue: BringValue | ParseResult,
-  indent: number = 2
+  indent: number = 2,
+  options: ObjectOptions = {}
 ): string {
-  return JSON.stringify(toObject(bringValue), null, indent);
+  return JSON.stringify(toObject(bringValue, options), null, indent);
 }
 
 /**
@@ -557,19 +1889,159 @@ export function extractAttributes(bringValue: BringValue): Record<string, any> {
   return attributes;
 }
 
+export { BringValidationError, validate, validateDocument } from "./validator";
+export type {
+  ValidateOptions,
+  ValidationIssue,
+  ValidationResult,
+} from "./validator";
+export { stringify } from "./stringify";
+export type { StringifyOptions } from "./stringify";
+export { format } from "./format";
+export type { FormatOptions } from "./format";
+export { fromObject } from "./objects";
+export { BringStreamParser, parseStream } from "./stream";
+export type {
+  BringStreamEvent,
+  ReadableStreamLike,
+  StreamChunk,
+  StreamOptions,
+  StreamSource,
+} from "./stream";
+export type { AttributeMode, ObjectOptions, SidecarObject } from "./objects";
+export { tokenize } from "./tokenizer";
+export type { BringToken, BringTokenType, TokenizeOptions } from "./tokenizer";
+export { BringDocument, parseDocument } from "./cst";
+export { BringResolveError, resolve } from "./resolve";
+export { BringInterpolationError, interpolate } from "./interpolate";
+export {
+  BringLoadError,
+  fileSystemResolver,
+  loadFile,
+  memoryResolver,
+} from "./loader";
+export type { FileResolver, LoadOptions, LoadResult } from "./loader";
+export { merge, mergeLayers } from "./merge";
+export type { MergeLayer, MergeResult, MergeStrategy } from "./merge";
+export {
+  BringAccessError,
+  get,
+  getAttributes,
+  getBoolean,
+  getNumber,
+  getString,
+  getValue,
+} from "./accessor";
+export type { PathSegment } from "./path";
+export { generateTypes, parseAs } from "./typegen";
+export { jsonSchemaToBring, schemaToJSONSchema } from "./jsonschema";
+export {
+  BringConvertError,
+  fromJSON,
+  fromTOML,
+  fromXML,
+  fromYAML,
+  toTOML,
+  toXML,
+  toYAML,
+} from "./convert";
+export type {
+  ConversionWarning,
+  ConvertFormat,
+  ConvertOptions,
+  XMLOptions,
+} from "./convert";
+export type {
+  BringSchemaImport,
+  JSONSchema,
+  JSONSchemaExport,
+  SchemaConversionIssue,
+  SchemaExportOptions,
+  SchemaImportOptions,
+} from "./jsonschema";
+export type { InterpolateOptions } from "./interpolate";
+export type {
+  ResolveIssue,
+  ResolveOptions,
+  ResolveResult,
+  ResolvedValue,
+  ValueSource,
+} from "./resolve";
+export type {
+  CstArray,
+  CstAttribute,
+  CstComment,
+  CstDocument,
+  CstEntry,
+  CstInclude,
+  CstItem,
+  CstKey,
+  CstObject,
+  CstObjectType,
+  CstPath,
+  CstScalar,
+  CstSchema,
+  CstSchemaRule,
+  CstSection,
+  CstSpan,
+  CstValue,
+  InsertOptions,
+} from "./cst";
+
 // Default export
 export default {
   parse,
   toObject,
+  fromObject,
   toJSON,
   extractAttributes,
+  stringify,
+  format,
+  parseDocument,
+  BringDocument,
+  parseStream,
+  BringStreamParser,
+  tokenize,
+  resolve,
+  BringResolveError,
+  interpolate,
+  BringInterpolationError,
+  loadFile,
+  BringLoadError,
+  merge,
+  mergeLayers,
+  get,
+  getValue,
+  getNumber,
+  getString,
+  getBoolean,
+  getAttributes,
+  BringAccessError,
+  validate,
+  validateDocument,
+  BringValidationError,
+  generateTypes,
+  parseAs,
+  schemaToJSONSchema,
+  jsonSchemaToBring,
   BringParser,
   BringParseError,
+  getRuleType,
+  formatType,
+  toYAML,
+  toTOML,
+  toXML,
+  fromJSON,
+  fromYAML,
+  fromTOML,
+  fromXML,
+  BringConvertError,
   // Type guards
   isBringValue,
   isBringSchema,
   isParseResult,
   isPrimitive,
+  isScalar,
   isObject,
   isArray,
 };
@@ -0,0 +1,218 @@
+// src/interpolate.ts - String interpolation
+
+/**
+ * Resolution of `${path}` and `${env:NAME}` references inside strings
+ */
+
+import {
+  BringPrimitive,
+  BringValue,
+  ParseResult,
+  getPosition,
+  isBringValue,
+} from "./index";
+import { findValue } from "./accessor";
+import { PathSegment, formatPath, parsePath } from "./path";
+import { defaultEnv } from "./resolve";
+import { getAttribute } from "./validator";
+
+export interface InterpolateOptions {
+  /** Variables for `${env:NAME}` references (default: process.env) */
+  env?: Record<string, string | undefined>;
+}
+
+export class BringInterpolationError extends Error {
+  public path: string;
+  public reference: string;
+  public line?: number;
+  public column?: number;
+
+  constructor(
+    message: string,
+    path: string,
+    reference: string,
+    line?: number,
+    column?: number
+  ) {
+    super(
+      line !== undefined
+        ? `${message} in '${path}' at line ${line}, column ${column}`
+        : `${message} in '${path}'`
+    );
+    this.name = "BringInterpolationError";
+    this.path = path;
+    this.reference = reference;
+    this.line = line;
+    this.column = column;
+  }
+}
+
+const REFERENCE = /\$\$\{|\$\{([^}]*)\}/g;
+const WHOLE_REFERENCE = /^\$\{([^}]*)\}$/;
+
+class Interpolator {
+  private resolved = new Map<string, BringValue>();
+  private resolving: string[] = [];
+
+  constructor(
+    private result: ParseResult,
+    private env: Record<string, string | undefined>
+  ) {}
+
+  public resolveAt(segments: PathSegment[], value: BringValue): BringValue {
+    const key = formatPath(segments);
+    const cached = this.resolved.get(key);
+    if (cached) return cached;
+
+    if (this.resolving.includes(key)) {
+      const cycle = [...this.resolving.slice(this.resolving.indexOf(key)), key];
+      throw this.error(
+        `Circular reference ${cycle.join(" -> ")}`,
+        key,
+        key,
+        value
+      );
+    }
+
+    this.resolving.push(key);
+    const resolved = this.interpolate(segments, value);
+    this.resolving.pop();
+    this.resolved.set(key, resolved);
+    return resolved;
+  }
+
+  private interpolate(segments: PathSegment[], value: BringValue): BringValue {
+    if (getAttribute(value.attributes, "interpolate")?.value === false) {
+      return value;
+    }
+
+    switch (value.type) {
+      case "object": {
+        const items: Record<string, BringValue> = {};
+        for (const [key, item] of Object.entries(value.items)) {
+          items[key] = this.resolveAt([...segments, key], item);
+        }
+        return { ...value, items };
+      }
+      case "array":
+        return {
+          ...value,
+          items: value.items.map((item, index) =>
+            this.resolveAt([...segments, index], item)
+          ),
+        };
+    }
+
+    if (typeof value.value !== "string" || !value.value.includes("$")) {
+      return value;
+    }
+
+    const text = value.value;
+    const path = formatPath(segments);
+
+    // A string that is exactly one reference takes the referenced value,
+    // and the kind of a typed scalar
+    const whole = text.match(WHOLE_REFERENCE);
+    if (whole) {
+      const target = this.lookup(whole[1].trim(), path, value);
+      if (target.type !== "primitive") {
+        return { ...target, attributes: value.attributes };
+      }
+      const copy: BringPrimitive = { ...value, value: target.value };
+      if (target.kind) copy.kind = target.kind;
+      return copy;
+    }
+
+    const replaced = text.replace(REFERENCE, (match, reference?: string) => {
+      if (match === "$${") return "${";
+
+      const target = this.lookup(reference!.trim(), path, value);
+      if (target.type !== "primitive") {
+        throw this.error(
+          `Cannot insert ${target.type} '${reference}' into a string`,
+          path,
+          reference!,
+          value
+        );
+      }
+      return String(target.value);
+    });
+    return { ...value, value: replaced };
+  }
+
+  private lookup(
+    reference: string,
+    path: string,
+    source: BringValue
+  ): BringValue {
+    if (reference.startsWith("env:")) {
+      const name = reference.slice(4);
+      const raw = this.env[name];
+      if (raw === undefined) {
+        throw this.error(
+          `Environment variable '${name}' is not set`,
+          path,
+          reference,
+          source
+        );
+      }
+      return { type: "primitive", value: raw };
+    }
+
+    let segments: PathSegment[];
+    try {
+      segments = parsePath(reference);
+    } catch (error) {
+      throw this.error((error as Error).message, path, reference, source);
+    }
+    const current = findValue(this.result, segments);
+    if (!current) {
+      throw this.error(
+        `Unknown reference '${reference}'`,
+        path,
+        reference,
+        source
+      );
+    }
+    return this.resolveAt(segments, current);
+  }
+
+  private error(
+    message: string,
+    path: string,
+    reference: string,
+    value: BringValue
+  ): BringInterpolationError {
+    const position = value.loc?.start ?? getPosition(value);
+    return new BringInterpolationError(
+      message,
+      path,
+      reference,
+      position?.line,
+      position?.column
+    );
+  }
+}
+
+/**
+ * Resolve `${path}` references to other keys and `${env:NAME}` variables
+ *
+ * A string that is exactly one reference takes the referenced value and its
+ * type; otherwise references are inserted as text. Write `$${` for a literal
+ * `${`, or mark a value `@interpolate=false` to leave it (and its children)
+ * untouched.
+ */
+export function interpolate(
+  result: ParseResult,
+  options: InterpolateOptions = {}
+): ParseResult {
+  const interpolator = new Interpolator(result, options.env ?? defaultEnv());
+  const interpolated: ParseResult = {};
+
+  for (const [key, value] of Object.entries(result)) {
+    interpolated[key] = isBringValue(value)
+      ? interpolator.resolveAt([key], value)
+      : value;
+  }
+  return interpolated;
+}
@@ -0,0 +1,631 @@
+// src/jsonschema.ts - JSON Schema conversion
+
+/**
+ * Conversion between Bring `schema` blocks and JSON Schema (draft 2020-12)
+ */
+
+import {
+  BringAttribute,
+  BringAttributeValue,
+  BringSchema,
+  BringSchemaRule,
+  BringScalarKind,
+  BringTypeExpr,
+  ParseResult,
+  formatType,
+  getRuleType,
+} from "./index";
+import { FORMATS, enumValues, getAttribute, schemaMap } from "./validator";
+import { SCALAR_KINDS, SCALAR_PATTERNS } from "./scalars";
+
+export interface JSONSchema {
+  $schema?: string;
+  $ref?: string;
+  $defs?: Record<string, JSONSchema>;
+  title?: string;
+  type?: string | string[];
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  items?: JSONSchema;
+  [keyword: string]: unknown;
+}
+
+export interface SchemaConversionIssue {
+  /** `Schema.key` for Bring schemas, a JSON pointer for JSON Schemas */
+  path: string;
+  message: string;
+}
+
+export interface JSONSchemaExport {
+  schema: JSONSchema;
+  issues: SchemaConversionIssue[];
+}
+
+export interface BringSchemaImport {
+  /** The root schema first, then one schema per nested object */
+  schemas: BringSchema[];
+  issues: SchemaConversionIssue[];
+}
+
+export interface SchemaExportOptions {
+  /** Schemas that rule types and `@schema` attributes may refer to */
+  schemas?: ParseResult | BringSchema[];
+}
+
+export interface SchemaImportOptions {
+  /** Name of the root schema (default: the `title`, or "Root") */
+  name?: string;
+}
+
+const DRAFT = "https://json-schema.org/draft/2020-12/schema";
+
+const JSON_FORMATS: Record<string, string> = {
+  email: "email",
+  date: "date",
+  datetime: "date-time",
+  uri: "uri",
+  uuid: "uuid",
+  ipv4: "ipv4",
+};
+
+const URL_PATTERN = "^https?://";
+
+const PRIMITIVE_TYPES = ["string", "number", "boolean"];
+
+const BUILTIN_TYPES = [...PRIMITIVE_TYPES, "object", "array"];
+
+/**
+ * Typed scalars are strings in JSON, checked by format or by pattern
+ */
+function scalarSchema(kind: BringScalarKind): JSONSchema {
+  if (kind === "date" || kind === "datetime") {
+    return { type: "string", format: JSON_FORMATS[kind] };
+  }
+  return { type: "string", pattern: `^(?:${SCALAR_PATTERNS[kind].source})$` };
+}
+
+// Keywords that carry no validation or are handled structurally
+const STRUCTURAL_KEYWORDS = [
+  "$schema",
+  "$id",
+  "$comment",
+  "$ref",
+  "$defs",
+  "definitions",
+  "title",
+  "description",
+  "examples",
+  "type",
+  "properties",
+  "required",
+  "items",
+  "anyOf",
+];
+
+// Keywords that map to rule attributes
+const CONSTRAINT_KEYWORDS = [
+  "minimum",
+  "maximum",
+  "minLength",
+  "maxLength",
+  "minItems",
+  "maxItems",
+  "format",
+  "pattern",
+  "enum",
+  "default",
+];
+
+/**
+ * Read an enum value written as text as one of the types a rule allows
+ */
+function enumValue(value: unknown, types: Set<string>): unknown {
+  if (typeof value !== "string" || types.has("string")) {
+    return value;
+  }
+  const number = Number(value);
+  if (types.has("number") && value.trim() !== "" && !isNaN(number)) {
+    return number;
+  }
+  if (types.has("boolean") && (value === "true" || value === "false")) {
+    return value === "true";
+  }
+  return types.has("null") && value === "null" ? null : value;
+}
+
+function pascalCase(text: string): string {
+  return text
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join("");
+}
+
+function union(types: BringTypeExpr[]): BringTypeExpr {
+  const flat = types.flatMap((type) =>
+    type.kind === "union" ? type.types : [type]
+  );
+  return flat.length === 1 ? flat[0] : { kind: "union", types: flat };
+}
+
+function escapePointer(key: string): string {
+  return key.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+class JSONSchemaExporter {
+  public issues: SchemaConversionIssue[] = [];
+  public defs: Record<string, JSONSchema> = {};
+
+  constructor(
+    private root: BringSchema,
+    private schemas: Map<string, BringSchema>
+  ) {}
+
+  public objectSchema(rules: BringSchemaRule[], path: string): JSONSchema {
+    const properties: Record<string, JSONSchema> = {};
+    const required: string[] = [];
+
+    for (const rule of rules) {
+      properties[rule.key] = this.ruleSchema(rule, `${path}.${rule.key}`);
+      if (
+        getAttribute(rule.attributes, "required")?.value === true &&
+        !rule.optional
+      ) {
+        required.push(rule.key);
+      }
+    }
+
+    const result: JSONSchema = { type: "object", properties };
+    if (required.length > 0) result.required = required;
+    return result;
+  }
+
+  private ruleSchema(rule: BringSchemaRule, path: string): JSONSchema {
+    const result = this.typeSchema(getRuleType(rule), path);
+    for (const attr of rule.attributes) {
+      this.convertAttribute(result, rule, attr, path);
+    }
+    return result;
+  }
+
+  private typeSchema(type: BringTypeExpr, path: string): JSONSchema {
+    switch (type.kind) {
+      case "null":
+        return { type: "null" };
+      case "name": {
+        if (BUILTIN_TYPES.includes(type.name)) {
+          return { type: type.name };
+        }
+        if (type.name === "any") {
+          return {};
+        }
+        if (SCALAR_KINDS.includes(type.name as BringScalarKind)) {
+          return scalarSchema(type.name as BringScalarKind);
+        }
+        const ref = this.reference(type.name);
+        if (!ref) this.report(path, `Unknown rule type '${type.name}'`);
+        return ref ?? {};
+      }
+      case "array":
+        return { type: "array", items: this.typeSchema(type.element, path) };
+      case "object":
+        return this.objectSchema(type.rules, path);
+      case "union": {
+        const members = type.types.map((item) => this.typeSchema(item, path));
+        // Unions of plain types collapse into a type list
+        const simple = members.every(
+          (member) =>
+            Object.keys(member).length === 1 && typeof member.type === "string"
+        );
+        return simple
+          ? { type: members.map((member) => member.type as string) }
+          : { anyOf: members };
+      }
+    }
+  }
+
+  private convertAttribute(
+    result: JSONSchema,
+    rule: BringSchemaRule,
+    attr: BringAttribute,
+    path: string
+  ): void {
+    switch (attr.name) {
+      case "required":
+        // Collected into the parent's `required` list
+        break;
+      case "min":
+        result.minimum = Number(attr.value);
+        break;
+      case "max":
+        result.maximum = Number(attr.value);
+        break;
+      case "minLength":
+      case "maxLength": {
+        const bound = attr.name === "minLength" ? "min" : "max";
+        const type = getRuleType(rule);
+        const array =
+          type.kind === "array" ||
+          (type.kind === "name" && type.name === "array");
+        const string = type.kind === "name" && type.name === "string";
+        if (!array) result[`${bound}Length`] = Number(attr.value);
+        if (!string) result[`${bound}Items`] = Number(attr.value);
+        break;
+      }
+      case "format": {
+        const format = String(attr.value);
+        if (JSON_FORMATS[format]) {
+          result.format = JSON_FORMATS[format];
+        } else if (format === "url") {
+          result.format = "uri";
+          result.pattern = URL_PATTERN;
+        } else if (FORMATS[format]) {
+          result.pattern = FORMATS[format].source;
+        } else {
+          this.report(path, `Unknown format '${format}'`);
+        }
+        break;
+      }
+      case "enum": {
+        const type = getRuleType(rule);
+        const types = new Set(
+          (type.kind === "union" ? type.types : [type]).map((item) =>
+            item.kind === "name" ? item.name : item.kind
+          )
+        );
+        result.enum = enumValues(attr.value).map((value) =>
+          enumValue(value, types)
+        );
+        break;
+      }
+      case "default":
+        result.default = attr.value;
+        break;
+      case "schema": {
+        const ref = this.reference(String(attr.value));
+        if (!ref) {
+          this.report(path, `Unknown schema '${attr.value}'`);
+          break;
+        }
+        if (rule.type === "array") {
+          result.items = ref;
+        } else if (rule.type === "object") {
+          delete result.type;
+          Object.assign(result, ref);
+        } else {
+          this.report(path, `@schema requires an object or array rule`);
+        }
+        break;
+      }
+      default:
+        this.report(
+          path,
+          `Attribute '@${attr.name}' has no JSON Schema equivalent`
+        );
+    }
+  }
+
+  private reference(name: string): JSONSchema | undefined {
+    if (name === this.root.name) {
+      return { $ref: "#" };
+    }
+
+    const schema = this.schemas.get(name);
+    if (!schema) {
+      return undefined;
+    }
+    if (!this.defs[name]) {
+      // Reserve the slot first so recursive references terminate
+      this.defs[name] = {};
+      Object.assign(this.defs[name], this.objectSchema(schema.rules, name));
+    }
+    return { $ref: `#/$defs/${escapePointer(name)}` };
+  }
+
+  private report(path: string, message: string): void {
+    this.issues.push({ path, message });
+  }
+}
+
+class JSONSchemaImporter {
+  public schemas: BringSchema[] = [];
+  public issues: SchemaConversionIssue[] = [];
+  private references = new Map<string, string>();
+
+  constructor(private root: JSONSchema) {}
+
+  public importObject(name: string, node: JSONSchema, pointer: string): string {
+    const schema: BringSchema = { name: this.uniqueName(name), rules: [] };
+    this.schemas.push(schema);
+
+    const types = Array.isArray(node.type)
+      ? node.type
+      : [node.type ?? "object"];
+    if (!types.includes("object")) {
+      this.report(pointer, `Expected an object schema, got '${node.type}'`);
+    }
+    this.checkKeywords(node, pointer, ["additionalProperties"]);
+    if (node.additionalProperties !== undefined) {
+      this.report(
+        `${pointer}/additionalProperties`,
+        "additionalProperties cannot be represented"
+      );
+    }
+
+    const required = Array.isArray(node.required) ? node.required : [];
+    for (const [key, property] of Object.entries(node.properties ?? {})) {
+      schema.rules.push(
+        this.importRule(
+          key,
+          property,
+          required.includes(key),
+          schema.name,
+          `${pointer}/properties/${escapePointer(key)}`
+        )
+      );
+    }
+    return schema.name;
+  }
+
+  private importRule(
+    key: string,
+    node: JSONSchema,
+    required: boolean,
+    parent: string,
+    pointer: string
+  ): BringSchemaRule {
+    const attributes: BringAttribute[] = [];
+    if (required) attributes.push({ name: "required", value: true });
+
+    const typeExpr = this.importType(node, parent + pascalCase(key), pointer);
+    // Keywords of nested objects are checked with the object's own schema
+    if (node.properties === undefined || node.$ref !== undefined) {
+      this.checkKeywords(node, pointer);
+      this.importKeywords(node, typeExpr, attributes, pointer);
+    }
+    return { key, type: formatType(typeExpr), typeExpr, attributes };
+  }
+
+  /**
+   * Import a property type; nested object schemas are named after `name`
+   */
+  private importType(
+    node: JSONSchema,
+    name: string,
+    pointer: string
+  ): BringTypeExpr {
+    if (node.$ref !== undefined) {
+      const target = this.resolveRef(node.$ref, pointer);
+      return { kind: "name", name: target ?? "object" };
+    }
+    if (Array.isArray(node.anyOf)) {
+      return union(
+        node.anyOf.map((member, index) =>
+          this.importType(member, name, `${pointer}/anyOf/${index}`)
+        )
+      );
+    }
+
+    const types = Array.isArray(node.type)
+      ? node.type
+      : node.type !== undefined
+        ? [node.type]
+        : [node.properties ? "object" : node.items ? "array" : "any"];
+    return union(
+      types.map((type) => this.importNamedType(type, node, name, pointer))
+    );
+  }
+
+  private importNamedType(
+    type: string,
+    node: JSONSchema,
+    name: string,
+    pointer: string
+  ): BringTypeExpr {
+    switch (type) {
+      case "null":
+        return { kind: "null" };
+      case "integer":
+        this.report(`${pointer}/type`, "integer is imported as number");
+        return { kind: "name", name: "number" };
+      case "object":
+        return {
+          kind: "name",
+          name: node.properties ? this.importObject(name, node, pointer) : type,
+        };
+      case "array": {
+        const items = node.items;
+        if (!items) {
+          return { kind: "name", name: type };
+        }
+        const itemPointer = `${pointer}/items`;
+        if (items.properties === undefined && items.$ref === undefined) {
+          // Bring has no attributes for array elements
+          this.checkKeywords(items, itemPointer, [], false);
+        }
+        return {
+          kind: "array",
+          element: this.importType(items, name, itemPointer),
+        };
+      }
+      case "string":
+      case "number":
+      case "boolean":
+      case "any":
+        return { kind: "name", name: type };
+      default:
+        this.report(`${pointer}/type`, `Unknown type '${type}'`);
+        return { kind: "name", name: "any" };
+    }
+  }
+
+  private importKeywords(
+    node: JSONSchema,
+    type: BringTypeExpr,
+    attributes: BringAttribute[],
+    pointer: string
+  ): void {
+    const numeric = (keyword: string, name: string) => {
+      if (typeof node[keyword] === "number") {
+        attributes.push({ name, value: node[keyword] as number });
+      }
+    };
+    numeric("minimum", "min");
+    numeric("maximum", "max");
+    const array = type.kind === "array" || formatType(type) === "array";
+    numeric(array ? "minItems" : "minLength", "minLength");
+    numeric(array ? "maxItems" : "maxLength", "maxLength");
+
+    const format = this.importFormat(node, pointer);
+    if (format) attributes.push({ name: "format", value: format });
+
+    if (node.enum !== undefined) {
+      if (Array.isArray(node.enum) && node.enum.length > 0) {
+        attributes.push({
+          name: "enum",
+          value: node.enum as BringAttributeValue[],
+        });
+      } else {
+        this.report(`${pointer}/enum`, "enum must be a non-empty array");
+      }
+    }
+
+    if (node.default !== undefined) {
+      attributes.push({
+        name: "default",
+        value: node.default as BringAttributeValue,
+      });
+    }
+  }
+
+  private importFormat(node: JSONSchema, pointer: string): string | undefined {
+    const pattern = node.pattern as string | undefined;
+    if (node.format === "uri" && pattern === URL_PATTERN) {
+      return "url";
+    }
+
+    let format: string | undefined;
+    if (node.format !== undefined) {
+      format = Object.keys(JSON_FORMATS).find(
+        (name) => JSON_FORMATS[name] === node.format
+      );
+      if (!format) {
+        this.report(
+          `${pointer}/format`,
+          `Format '${node.format}' cannot be represented`
+        );
+      }
+    }
+    if (pattern !== undefined) {
+      const named = Object.keys(FORMATS).find(
+        (name) => FORMATS[name].source === pattern
+      );
+      if (named && !format) {
+        format = named;
+      } else {
+        this.report(`${pointer}/pattern`, "pattern cannot be represented");
+      }
+    }
+    return format;
+  }
+
+  private resolveRef(ref: string, pointer: string): string | undefined {
+    if (ref === "#") {
+      return this.schemas[0].name;
+    }
+    const cached = this.references.get(ref);
+    if (cached) return cached;
+
+    const match = ref.match(/^#\/(\$defs|definitions)\/(.+)$/);
+    const container = match
+      ? (this.root[match[1]] as Record<string, JSONSchema> | undefined)
+      : undefined;
+    const key = match?.[2].replace(/~1/g, "/").replace(/~0/g, "~");
+    const target = key !== undefined ? container?.[key] : undefined;
+    if (!target) {
+      this.report(`${pointer}/$ref`, `Cannot resolve reference '${ref}'`);
+      return undefined;
+    }
+
+    // Register the name before importing so recursive references terminate
+    const name = this.uniqueName(pascalCase(key!) || "Definition");
+    this.references.set(ref, name);
+    this.importObject(name, target, ref.slice(1));
+    return name;
+  }
+
+  private checkKeywords(
+    node: JSONSchema,
+    pointer: string,
+    handled: string[] = [],
+    constraints = true
+  ): void {
+    const known = [
+      ...STRUCTURAL_KEYWORDS,
+      ...handled,
+      ...(constraints ? CONSTRAINT_KEYWORDS : []),
+    ];
+    for (const keyword of Object.keys(node)) {
+      if (!known.includes(keyword)) {
+        this.report(
+          `${pointer}/${escapePointer(keyword)}`,
+          `Keyword '${keyword}' cannot be represented`
+        );
+      }
+    }
+  }
+
+  private uniqueName(name: string): string {
+    const taken = (candidate: string) =>
+      this.schemas.some((schema) => schema.name === candidate);
+    let candidate = name;
+    for (let index = 2; taken(candidate); index++) {
+      candidate = `${name}${index}`;
+    }
+    return candidate;
+  }
+
+  private report(path: string, message: string): void {
+    this.issues.push({ path: `#${path}`, message });
+  }
+}
+
+/**
+ * Convert a Bring schema to a JSON Schema
+ *
+ * Rule types naming another schema (and `@schema="Name"` attributes) become
+ * `$ref`s into `$defs`, looked up in `options.schemas`. Attributes and types
+ * JSON Schema cannot express are listed in `issues` rather than thrown.
+ */
+export function schemaToJSONSchema(
+  schema: BringSchema,
+  options: SchemaExportOptions = {}
+): JSONSchemaExport {
+  const exporter = new JSONSchemaExporter(schema, schemaMap(options.schemas));
+  const result: JSONSchema = {
+    $schema: DRAFT,
+    title: schema.name,
+    ...exporter.objectSchema(schema.rules, schema.name),
+  };
+  if (Object.keys(exporter.defs).length > 0) {
+    result.$defs = exporter.defs;
+  }
+  return { schema: result, issues: exporter.issues };
+}
+
+/**
+ * Convert a JSON Schema describing an object to Bring schemas
+ *
+ * Nested object schemas and `$ref`s become schemas of their own, referenced
+ * by name; `anyOf` and type lists become unions. Keywords Bring cannot
+ * express are listed in `issues`, each with the JSON pointer of the keyword.
+ */
+export function jsonSchemaToBring(
+  jsonSchema: JSONSchema,
+  options: SchemaImportOptions = {}
+): BringSchemaImport {
+  const importer = new JSONSchemaImporter(jsonSchema);
+  const name = options.name ?? (pascalCase(jsonSchema.title ?? "") || "Root");
+  importer.importObject(name, jsonSchema, "");
+  return { schemas: importer.schemas, issues: importer.issues };
+}
@@ -0,0 +1,171 @@
+// src/loader.ts - Multi-file loading
+
+/**
+ * Loading of Bring files that `include` other Bring files
+ */
+
+import { BringParseError, BringParser, ParseResult } from "./index";
+import { MergeLayer, mergeLayers } from "./merge";
+
+export interface FileResolver {
+  /** Resolve an include path relative to the including file */
+  resolve(from: string, path: string): string;
+  /** Read a file's contents */
+  read(path: string): string | Promise<string>;
+}
+
+export interface LoadOptions {
+  /** How files are located and read (default: the Node.js file system) */
+  resolver?: FileResolver;
+}
+
+export interface LoadResult {
+  result: ParseResult;
+  /** Every file loaded, in load order */
+  files: string[];
+  /** The file each value was taken from, keyed by dotted path */
+  origins: Record<string, string>;
+}
+
+export class BringLoadError extends Error {
+  public file: string;
+  public line?: number;
+  public column?: number;
+
+  constructor(message: string, file: string, line?: number, column?: number) {
+    super(
+      line !== undefined
+        ? `${file}:${line}:${column}: ${message}`
+        : `${file}: ${message}`
+    );
+    this.name = "BringLoadError";
+    this.file = file;
+    this.line = line;
+    this.column = column;
+  }
+}
+
+/**
+ * Join a relative path onto the directory of another, POSIX style
+ */
+function joinRelative(from: string, path: string): string {
+  if (path.startsWith("/")) return path;
+
+  const parts = from.split("/").slice(0, -1);
+  for (const part of path.split("/")) {
+    if (part === "..") {
+      parts.pop();
+    } else if (part !== "." && part !== "") {
+      parts.push(part);
+    }
+  }
+  return parts.join("/");
+}
+
+/**
+ * A resolver over an in-memory map of file names to contents
+ */
+export function memoryResolver(files: Record<string, string>): FileResolver {
+  return {
+    resolve: joinRelative,
+    read(path: string): string {
+      if (!(path in files)) {
+        throw new Error(`File not found: ${path}`);
+      }
+      return files[path];
+    },
+  };
+}
+
+/**
+ * A resolver that reads from the Node.js file system
+ */
+export function fileSystemResolver(): FileResolver {
+  // Required lazily so the package still loads in browsers
+  const fs = require("fs");
+  const nodePath = require("path");
+  return {
+    resolve: (from: string, path: string) =>
+      nodePath.resolve(nodePath.dirname(from), path),
+    read: (path: string) => fs.promises.readFile(path, "utf-8"),
+  };
+}
+
+class Loader {
+  public files: string[] = [];
+
+  constructor(private resolver: FileResolver) {}
+
+  /**
+   * Collect a file and its includes as merge layers, included files first
+   */
+  public async load(
+    file: string,
+    stack: string[]
+  ): Promise<MergeLayer<string>[]> {
+    if (stack.includes(file)) {
+      throw new BringLoadError(
+        `Include cycle ${[...stack, file].join(" -> ")}`,
+        stack[stack.length - 1]
+      );
+    }
+
+    let text: string;
+    try {
+      text = await this.resolver.read(file);
+    } catch (error) {
+      throw new BringLoadError((error as Error).message, file);
+    }
+    this.files.push(file);
+
+    const parser = new BringParser(text);
+    let own: ParseResult;
+    try {
+      own = parser.parse();
+    } catch (error) {
+      if (error instanceof BringParseError) {
+        throw new BringLoadError(
+          error.message.replace(/ at line \d+, column \d+$/, ""),
+          file,
+          error.line,
+          error.column
+        );
+      }
+      throw error;
+    }
+
+    const layers: MergeLayer<string>[] = [];
+    for (const include of parser.getIncludes()) {
+      let target: string;
+      try {
+        target = this.resolver.resolve(file, include.path);
+      } catch (error) {
+        throw new BringLoadError(
+          (error as Error).message,
+          file,
+          include.loc.start.line,
+          include.loc.start.column
+        );
+      }
+      layers.push(...(await this.load(target, [...stack, file])));
+    }
+    layers.push({ result: own, source: file });
+    return layers;
+  }
+}
+
+/**
+ * Load a Bring file along with every file it includes
+ *
+ * `include "base.bring"` (or `import "base.bring"`) pulls in another file
+ * before the including file's own entries, which then take precedence.
+ * Files are combined with the same rules as `merge()`.
+ */
+export async function loadFile(
+  path: string,
+  options: LoadOptions = {}
+): Promise<LoadResult> {
+  const loader = new Loader(options.resolver ?? fileSystemResolver());
+  const { result, provenance } = mergeLayers(await loader.load(path, []));
+  return { result, files: loader.files, origins: provenance };
+}
@@ -0,0 +1,1164 @@
+#!/usr/bin/env node
+// src/lsp.ts - Language server
+
+/**
+ * A language server for Bring files, speaking the Language Server Protocol
+ * over a pair of streams, stdin and stdout when run as
+ * `bring-language-server`
+ *
+ * Documents are synced in full and parsed in recovery mode on every change,
+ * so every feature keeps working while a document has syntax errors. The
+ * server provides syntax and schema diagnostics, hover, completion,
+ * go-to-definition, document symbols and formatting.
+ */
+
+import {
+  BringAttribute,
+  BringDiagnostic,
+  BringParseError,
+  BringParser,
+  BringSchema,
+  BringSchemaRule,
+  BringTypeExpr,
+  BringValue,
+  ParseResult,
+  SourceRange,
+  format,
+  getRuleType,
+  isBringValue,
+} from "./index";
+import { findValue } from "./accessor";
+import { PathSegment, formatPath } from "./path";
+import { stringifyAttributeValue } from "./stringify";
+import { BringToken, NEWLINE, tokenize } from "./tokenizer";
+import {
+  BUILTIN_TYPES,
+  FORMATS,
+  ValidationIssue,
+  describeValue,
+  schemaMap,
+  validateDocument,
+} from "./validator";
+
+export interface JsonRpcMessage {
+  jsonrpc: "2.0";
+  id?: number | string | null;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+export interface LanguageServerOptions {
+  /** Called on the `exit` notification: 0 after `shutdown`, otherwise 1 */
+  onExit?: (code: number) => void;
+}
+
+// LSP structures, with positions from 0 in UTF-16 code units
+interface Position {
+  line: number;
+  character: number;
+}
+
+interface Range {
+  start: Position;
+  end: Position;
+}
+
+interface Location {
+  uri: string;
+  range: Range;
+}
+
+interface Diagnostic {
+  range: Range;
+  severity: number;
+  code: string;
+  source: string;
+  message: string;
+  relatedInformation?: { location: Location; message: string }[];
+}
+
+interface CompletionItem {
+  label: string;
+  kind: number;
+  detail?: string;
+  documentation?: { kind: "markdown"; value: string };
+  textEdit?: { range: Range; newText: string };
+}
+
+interface DocumentSymbol {
+  name: string;
+  detail?: string;
+  kind: number;
+  range: Range;
+  selectionRange: Range;
+  children?: DocumentSymbol[];
+}
+
+interface TextEdit {
+  range: Range;
+  newText: string;
+}
+
+// A document in message params: an identifier, or a whole item on open
+interface TextDocument {
+  uri: string;
+  [key: string]: unknown;
+}
+
+// JSON-RPC and LSP error codes
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const INTERNAL_ERROR = -32603;
+
+const DiagnosticSeverity = { error: 1, warning: 2 };
+const CompletionItemKind = { field: 5, property: 10, keyword: 14, struct: 22 };
+const SymbolKind = {
+  namespace: 3,
+  field: 8,
+  constant: 14,
+  string: 15,
+  number: 16,
+  boolean: 17,
+  array: 18,
+  object: 19,
+  null: 21,
+  struct: 23,
+};
+
+// What the attributes the validator understands do, shown on hover
+const ATTRIBUTES: Record<string, string> = {
+  schema: "Validates this value against the named schema.",
+  required: "The key must be present and not null.",
+  default:
+    "The value the key stands for when it is left out; a required key with a default may be missing.",
+  min: "The smallest number allowed.",
+  max: "The largest number allowed.",
+  minLength: "The fewest characters or items allowed.",
+  maxLength: "The most characters or items allowed.",
+  format: `A format the string must match: ${Object.keys(FORMATS).join(", ")}.`,
+  enum: "The values allowed.",
+  unique: "No two items of the list may have the same value for this key.",
+};
+
+class ResponseError extends Error {
+  constructor(
+    public code: number,
+    message: string
+  ) {
+    super(message);
+    this.name = "ResponseError";
+  }
+}
+
+// Message params arrive untyped; these check the parts a method reads
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isMessageId(value: unknown): value is JsonRpcMessage["id"] {
+  return (
+    value === undefined ||
+    value === null ||
+    typeof value === "string" ||
+    typeof value === "number"
+  );
+}
+
+function isPosition(value: unknown): value is Position {
+  return (
+    isRecord(value) &&
+    typeof value.line === "number" &&
+    typeof value.character === "number"
+  );
+}
+
+function invalidParams(expected: string): ResponseError {
+  return new ResponseError(INVALID_PARAMS, `Expected ${expected}`);
+}
+
+/**
+ * The `textDocument` of a message, with the URI every such message has
+ */
+function textDocument(params: unknown): TextDocument {
+  const document = isRecord(params) ? params.textDocument : undefined;
+  if (!isRecord(document) || typeof document.uri !== "string") {
+    throw invalidParams("params.textDocument.uri");
+  }
+  return document as TextDocument;
+}
+
+/**
+ * Converts between offsets and LSP positions
+ */
+class LineIndex {
+  private starts = [0];
+
+  constructor(private text: string) {
+    for (let i = 0; i < text.length; i++) {
+      if (text.charCodeAt(i) === NEWLINE) this.starts.push(i + 1);
+    }
+  }
+
+  public position(offset: number): Position {
+    let low = 0;
+    let high = this.starts.length - 1;
+    while (low < high) {
+      const middle = (low + high + 1) >> 1;
+      if (this.starts[middle] <= offset) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return { line: low, character: offset - this.starts[low] };
+  }
+
+  public offset(position: Position): number {
+    if (position.line >= this.starts.length) return this.text.length;
+    const start = this.starts[Math.max(position.line, 0)];
+    const end =
+      position.line + 1 < this.starts.length
+        ? this.starts[position.line + 1] - 1
+        : this.text.length;
+    return Math.min(start + Math.max(position.character, 0), end);
+  }
+}
+
+/**
+ * An open document, parsed with locations and error recovery
+ */
+class DocumentState {
+  public readonly lines: LineIndex;
+  public readonly result: ParseResult;
+  public readonly diagnostics: BringDiagnostic[];
+  public readonly schemas: Map<string, BringSchema>;
+  private tokenList?: BringToken[];
+
+  constructor(
+    public readonly uri: string,
+    public readonly text: string
+  ) {
+    const parser = new BringParser(text, { recover: true, locations: true });
+    this.result = parser.parse();
+    this.diagnostics = parser.getDiagnostics();
+    this.schemas = schemaMap(this.result);
+    this.lines = new LineIndex(text);
+  }
+
+  public tokens(): BringToken[] {
+    return (this.tokenList ??= tokenize(this.text));
+  }
+
+  public range(range: SourceRange): Range {
+    return this.span(range.start.offset, range.end.offset);
+  }
+
+  public span(start: number, end: number): Range {
+    return { start: this.lines.position(start), end: this.lines.position(end) };
+  }
+
+  public slice(range: SourceRange): string {
+    return this.text.slice(range.start.offset, range.end.offset);
+  }
+
+  /**
+   * The range of a schema's name
+   */
+  public schemaName(schema: BringSchema): Range {
+    const from = schema.loc ? schema.loc.start.offset + "schema".length : 0;
+    const start = this.text.indexOf(schema.name, from);
+    return this.span(start, start + schema.name.length);
+  }
+}
+
+interface Located {
+  path: PathSegment[];
+  value: BringValue;
+  attribute?: BringAttribute;
+}
+
+interface LocatedRule {
+  schema: BringSchema;
+  rule?: BringSchemaRule;
+  attribute?: BringAttribute;
+}
+
+/**
+ * Whether `offset` is in `range`, counting the position just past its end
+ */
+function within(range: SourceRange, offset: number): boolean {
+  return range.start.offset <= offset && offset <= range.end.offset;
+}
+
+/**
+ * From a value's key, or the value itself, to its last attribute
+ */
+function valueRange(value: BringValue): SourceRange | undefined {
+  if (!value.loc) return undefined;
+  const last = value.attributes?.[value.attributes.length - 1]?.loc;
+  return {
+    start: (value.keyLoc ?? value.loc).start,
+    end:
+      last && last.end.offset > value.loc.end.offset ? last.end : value.loc.end,
+  };
+}
+
+function children(value: BringValue): [PathSegment, BringValue][] {
+  if (value.type === "object") return Object.entries(value.items);
+  if (value.type === "array") return value.items.map((item, i) => [i, item]);
+  return [];
+}
+
+function dataEntries(result: ParseResult): [PathSegment, BringValue][] {
+  return Object.entries(result).filter((entry): entry is [string, BringValue] =>
+    isBringValue(entry[1])
+  );
+}
+
+/**
+ * The innermost value, or attribute of a value, at `offset`
+ */
+function locate(
+  entries: [PathSegment, BringValue][],
+  offset: number,
+  path: PathSegment[] = []
+): Located | undefined {
+  for (const [key, value] of entries) {
+    const range = valueRange(value);
+    // Objects created by sections have no location of their own
+    if (range && !within(range, offset)) continue;
+
+    const valuePath = [...path, key];
+    const attribute = value.attributes?.find(
+      (attr) => attr.loc && within(attr.loc, offset)
+    );
+    if (attribute) return { path: valuePath, value, attribute };
+    const inner = locate(children(value), offset, valuePath);
+    if (inner) return inner;
+    if (range) return { path: valuePath, value };
+  }
+  return undefined;
+}
+
+/**
+ * The innermost object whose braces enclose `offset`
+ */
+function enclosingObject(
+  entries: [PathSegment, BringValue][],
+  offset: number,
+  text: string,
+  path: PathSegment[] = []
+): PathSegment[] | undefined {
+  for (const [key, value] of entries) {
+    if (value.type === "primitive") continue;
+    if (value.loc) {
+      const { start, end } = value.loc;
+      // An object left unclosed runs to the end of the text
+      const closed =
+        text[end.offset - 1] === "}" || text[end.offset - 1] === "]";
+      const inside =
+        start.offset < offset &&
+        (offset < end.offset || (offset === end.offset && !closed));
+      if (!inside) continue;
+    }
+
+    const valuePath = [...path, key];
+    const inner = enclosingObject(children(value), offset, text, valuePath);
+    if (inner) return inner;
+    if (value.type === "object" && value.loc) return valuePath;
+  }
+  return undefined;
+}
+
+/**
+ * The rules of the object types in a type: `{ ... }`, and those in arrays
+ * and unions of them
+ */
+function inlineRules(type: BringTypeExpr | undefined): BringSchemaRule[] {
+  switch (type?.kind) {
+    case "object":
+      return type.rules;
+    case "array":
+      return inlineRules(type.element);
+    case "union":
+      return type.types.flatMap(inlineRules);
+    default:
+      return [];
+  }
+}
+
+function ruleAt(
+  rules: BringSchemaRule[],
+  offset: number
+): { rule: BringSchemaRule; attribute?: BringAttribute } | undefined {
+  for (const rule of rules) {
+    if (!rule.loc || !within(rule.loc, offset)) continue;
+    const attribute = rule.attributes.find(
+      (attr) => attr.loc && within(attr.loc, offset)
+    );
+    if (attribute) return { rule, attribute };
+    return ruleAt(inlineRules(rule.typeExpr), offset) ?? { rule };
+  }
+  return undefined;
+}
+
+/**
+ * Follows a document's top-level `@schema` bindings through rule types, to
+ * find the schema rules that apply to a value
+ */
+class SchemaResolver {
+  constructor(private schemas: Map<string, BringSchema>) {}
+
+  /**
+   * The rule for the value at `path` and the schema it belongs to
+   */
+  public rule(
+    result: ParseResult,
+    path: PathSegment[]
+  ): { schema: BringSchema; rule?: BringSchemaRule } | undefined {
+    const top = result[path[0]];
+    if (!isBringValue(top)) return undefined;
+    const binding = top.attributes?.find((attr) => attr.name === "schema");
+    let schema = this.schemas.get(String(binding?.value));
+    if (!schema) return undefined;
+
+    // A list bound to a schema holds records of it
+    const named: BringTypeExpr = { kind: "name", name: schema.name };
+    let type: BringTypeExpr | undefined =
+      top.type === "array" ? { kind: "array", element: named } : named;
+    let rule: BringSchemaRule | undefined;
+    for (const segment of path.slice(1)) {
+      if (typeof segment === "number") {
+        type = this.element(type);
+        rule = undefined;
+      } else {
+        const found = this.rules(type);
+        rule = found?.rules.find((item) => item.key === segment);
+        if (found?.schema) schema = found.schema;
+        type = rule && getRuleType(rule);
+      }
+      if (!type) return undefined;
+    }
+    return { schema, rule };
+  }
+
+  /**
+   * The rules the object at `path` should follow
+   */
+  public objectRules(
+    result: ParseResult,
+    path: PathSegment[]
+  ): BringSchemaRule[] | undefined {
+    const found = this.rule(result, path);
+    if (!found) return undefined;
+    if (!found.rule) {
+      // The bound value itself, or an item of a bound list
+      return path.length === 1 &&
+        (result[path[0]] as BringValue).type === "array"
+        ? undefined
+        : found.schema.rules;
+    }
+    return this.rules(getRuleType(found.rule))?.rules;
+  }
+
+  private rules(
+    type: BringTypeExpr | undefined
+  ): { rules: BringSchemaRule[]; schema?: BringSchema } | undefined {
+    switch (type?.kind) {
+      case "name": {
+        const schema = this.schemas.get(type.name);
+        return schema && { rules: schema.rules, schema };
+      }
+      case "object":
+        return { rules: type.rules };
+      case "union":
+        for (const member of type.types) {
+          const found = this.rules(member);
+          if (found) return found;
+        }
+        return undefined;
+      default:
+        return undefined;
+    }
+  }
+
+  private element(type: BringTypeExpr | undefined): BringTypeExpr | undefined {
+    if (type?.kind === "array") return type.element;
+    if (type?.kind === "union") {
+      for (const member of type.types) {
+        const element = this.element(member);
+        if (element) return element;
+      }
+    }
+    return undefined;
+  }
+}
+
+// The type of a value, with the size of objects and arrays
+function describe(value: BringValue): string {
+  if (value.type === "object") {
+    const count = Object.keys(value.items).length;
+    return `object, ${count} ${count === 1 ? "key" : "keys"}`;
+  }
+  if (value.type === "array") {
+    const count = value.items.length;
+    return `array, ${count} ${count === 1 ? "item" : "items"}`;
+  }
+  return describeValue(value);
+}
+
+function attributeText(attr: BringAttribute): string {
+  const value = attr.kind
+    ? String(attr.value)
+    : stringifyAttributeValue(attr.value);
+  return `@${attr.name}=${value}`;
+}
+
+function codeBlock(text: string): string {
+  return "```bring\n" + text + "\n```";
+}
+
+function unquote(text: string): string {
+  return text.replace(/^r?("""|'''|"|')/, "").replace(/("""|'''|"|')$/, "");
+}
+
+/**
+ * The position suffix of parser messages, which diagnostics carry as ranges
+ */
+const POSITION_SUFFIX = / at line \d+, column \d+$/;
+
+/**
+ * Serves one client: handles each message it receives and sends responses
+ * and notifications through `send`
+ */
+export class BringLanguageServer {
+  private documents = new Map<string, DocumentState>();
+  private shutdown = false;
+
+  constructor(
+    private send: (message: JsonRpcMessage) => void,
+    private options: LanguageServerOptions = {}
+  ) {}
+
+  /**
+   * Handle a decoded message; anything but a JSON object with a valid id is
+   * answered with an invalid request error
+   */
+  public receive(message: unknown): void {
+    if (!isRecord(message) || !isMessageId(message.id)) {
+      this.send({
+        jsonrpc: "2.0",
+        id: null,
+        error: { code: INVALID_REQUEST, message: "Invalid request" },
+      });
+      return;
+    }
+    const { id } = message;
+    if (typeof message.method !== "string") {
+      // Responses to requests the server never sends
+      return;
+    }
+    if (id === undefined) {
+      try {
+        this.notification(message.method, message.params ?? {});
+      } catch (error) {
+        this.send({
+          jsonrpc: "2.0",
+          method: "window/logMessage",
+          params: { type: 1, message: (error as Error).message },
+        });
+      }
+      return;
+    }
+
+    try {
+      const result = this.request(message.method, message.params ?? {});
+      this.send({ jsonrpc: "2.0", id, result: result ?? null });
+    } catch (error) {
+      this.send({
+        jsonrpc: "2.0",
+        id,
+        error: {
+          code: error instanceof ResponseError ? error.code : INTERNAL_ERROR,
+          message: (error as Error).message,
+        },
+      });
+    }
+  }
+
+  private request(method: string, params: unknown): unknown {
+    if (this.shutdown) {
+      throw new ResponseError(INVALID_REQUEST, "Server is shutting down");
+    }
+
+    switch (method) {
+      case "initialize":
+        return {
+          capabilities: {
+            textDocumentSync: { openClose: true, change: 1 },
+            hoverProvider: true,
+            completionProvider: { triggerCharacters: ["@"] },
+            definitionProvider: true,
+            documentSymbolProvider: true,
+            documentFormattingProvider: true,
+          },
+          serverInfo: { name: "bring-language-server" },
+        };
+      case "shutdown":
+        this.shutdown = true;
+        return null;
+      case "textDocument/hover": {
+        const at = this.located(params);
+        return at && this.hover(at.state, at.offset);
+      }
+      case "textDocument/completion": {
+        const at = this.located(params);
+        return at && this.completion(at.state, at.offset);
+      }
+      case "textDocument/definition": {
+        const at = this.located(params);
+        return at && this.definition(at.state, at.offset);
+      }
+      case "textDocument/documentSymbol": {
+        const state = this.documents.get(textDocument(params).uri);
+        return state && this.symbols(state);
+      }
+      case "textDocument/formatting": {
+        const state = this.documents.get(textDocument(params).uri);
+        const options = isRecord(params) ? params.options : undefined;
+        return (
+          state && this.formatting(state, isRecord(options) ? options : {})
+        );
+      }
+      default:
+        throw new ResponseError(METHOD_NOT_FOUND, `Unhandled method ${method}`);
+    }
+  }
+
+  /**
+   * The document and offset of a request at a position, or undefined when
+   * the document is not open
+   */
+  private located(
+    params: unknown
+  ): { state: DocumentState; offset: number } | undefined {
+    const state = this.documents.get(textDocument(params).uri);
+    const position = isRecord(params) ? params.position : undefined;
+    if (!isPosition(position)) {
+      throw invalidParams("params.position");
+    }
+    return state && { state, offset: state.lines.offset(position) };
+  }
+
+  private notification(method: string, params: unknown): void {
+    switch (method) {
+      case "textDocument/didOpen": {
+        const document = textDocument(params);
+        if (typeof document.text !== "string") {
+          throw invalidParams("params.textDocument.text");
+        }
+        this.update(document.uri, document.text);
+        break;
+      }
+      case "textDocument/didChange": {
+        const { uri } = textDocument(params);
+        // Full sync: the last change holds the whole text
+        const changes = isRecord(params) ? params.contentChanges : undefined;
+        const last = Array.isArray(changes)
+          ? changes[changes.length - 1]
+          : undefined;
+        if (!isRecord(last) || typeof last.text !== "string") {
+          throw invalidParams("params.contentChanges with the full text");
+        }
+        this.update(uri, last.text);
+        break;
+      }
+      case "textDocument/didClose": {
+        const { uri } = textDocument(params);
+        this.documents.delete(uri);
+        this.publish(uri, []);
+        break;
+      }
+      case "exit":
+        this.options.onExit?.(this.shutdown ? 0 : 1);
+        break;
+    }
+  }
+
+  private update(uri: string, text: string): void {
+    const state = new DocumentState(uri, text);
+    this.documents.set(uri, state);
+    this.publish(uri, this.diagnostics(state));
+  }
+
+  private publish(uri: string, diagnostics: Diagnostic[]): void {
+    this.send({
+      jsonrpc: "2.0",
+      method: "textDocument/publishDiagnostics",
+      params: { uri, diagnostics },
+    });
+  }
+
+  private diagnostics(state: DocumentState): Diagnostic[] {
+    const syntax = state.diagnostics.map(
+      (diagnostic): Diagnostic => ({
+        range: state.range(diagnostic.range),
+        severity: DiagnosticSeverity[diagnostic.severity],
+        code: diagnostic.code,
+        source: "bring",
+        message: diagnostic.message.replace(POSITION_SUFFIX, ""),
+        relatedInformation: diagnostic.related?.map((related) => ({
+          location: { uri: state.uri, range: state.range(related.range) },
+          message: related.message,
+        })),
+      })
+    );
+    const schema = validateDocument(state.result).errors.map(
+      (issue): Diagnostic => ({
+        range: this.issueRange(state, issue),
+        severity: DiagnosticSeverity.error,
+        code: issue.rule,
+        source: "bring",
+        message: `${issue.path}: ${issue.message}`,
+      })
+    );
+    return [...syntax, ...schema];
+  }
+
+  /**
+   * The value an issue is about, or the key or object it is missing from
+   */
+  private issueRange(state: DocumentState, issue: ValidationIssue): Range {
+    let value: BringValue | undefined;
+    try {
+      value = findValue(state.result, issue.path);
+    } catch {
+      // Keys that cannot be written as a path
+    }
+    if (value?.loc) return state.range(value.loc);
+
+    const offset = state.lines.offset({
+      line: (issue.line ?? 1) - 1,
+      character: (issue.column ?? 1) - 1,
+    });
+    return state.span(offset, Math.min(offset + 1, state.text.length));
+  }
+
+  private hover(state: DocumentState, offset: number): unknown {
+    for (const schema of state.schemas.values()) {
+      if (schema.loc && within(schema.loc, offset)) {
+        return this.ruleHover(state, {
+          schema,
+          ...ruleAt(schema.rules, offset),
+        });
+      }
+    }
+
+    const found = locate(dataEntries(state.result), offset);
+    if (!found) return null;
+    const { path, value, attribute } = found;
+    if (attribute) {
+      return {
+        contents: this.attributeDocs(attribute),
+        range: state.range(attribute.loc as SourceRange),
+      };
+    }
+
+    const lines = [`**${formatPath(path)}**: ${describe(value)}`];
+    if (value.attributes?.length) {
+      lines.push(
+        value.attributes.map((attr) => `\`${attributeText(attr)}\``).join(" ")
+      );
+    }
+    const bound = new SchemaResolver(state.schemas).rule(state.result, path);
+    if (bound?.rule) {
+      const rule = bound.rule;
+      lines.push(
+        `Rule of schema \`${bound.schema.name}\`:`,
+        codeBlock(
+          rule.loc ? state.slice(rule.loc) : `${rule.key} = ${rule.type}`
+        )
+      );
+    } else if (bound) {
+      lines.push(`Validated against schema \`${bound.schema.name}\``);
+    }
+    return {
+      contents: { kind: "markdown", value: lines.join("\n\n") },
+      range: state.range(valueRange(value) as SourceRange),
+    };
+  }
+
+  private ruleHover(state: DocumentState, found: LocatedRule): unknown {
+    const { schema, rule, attribute } = found;
+    if (attribute) {
+      return {
+        contents: this.attributeDocs(attribute),
+        range: state.range(attribute.loc as SourceRange),
+      };
+    }
+    if (!rule) {
+      const count = schema.rules.length;
+      return {
+        contents: {
+          kind: "markdown",
+          value: `**schema ${schema.name}**: ${count} ${count === 1 ? "rule" : "rules"}`,
+        },
+        range: state.schemaName(schema),
+      };
+    }
+
+    const lines = [codeBlock(state.slice(rule.loc as SourceRange))];
+    const required =
+      rule.attributes.some(
+        (attr) => attr.name === "required" && attr.value === true
+      ) && !rule.optional;
+    lines.push(
+      `Rule of schema \`${schema.name}\`, ${required ? "required" : "optional"}`
+    );
+    return {
+      contents: { kind: "markdown", value: lines.join("\n\n") },
+      range: state.range(rule.keyLoc as SourceRange),
+    };
+  }
+
+  private attributeDocs(attribute: BringAttribute): {
+    kind: "markdown";
+    value: string;
+  } {
+    const lines = [codeBlock(attributeText(attribute))];
+    if (ATTRIBUTES[attribute.name]) lines.push(ATTRIBUTES[attribute.name]);
+    return { kind: "markdown", value: lines.join("\n\n") };
+  }
+
+  private completion(state: DocumentState, offset: number): CompletionItem[] {
+    const tokens = state.tokens();
+    let index = tokens.findIndex((token) => token.end >= offset);
+    if (index === -1) index = tokens.length;
+    // The token being typed, if the cursor is in or just after one
+    const word =
+      index < tokens.length && tokens[index].start < offset
+        ? tokens[index]
+        : undefined;
+    const previous = tokens[index - 1];
+    const attribute =
+      previous?.text === "=" && tokens[index - 2]?.type === "attribute"
+        ? tokens[index - 2].text
+        : undefined;
+    const replace = word
+      ? state.span(word.start, offset)
+      : state.span(offset, offset);
+    const inSchema = [...state.schemas.values()].some(
+      (schema) => schema.loc && within(schema.loc, offset)
+    );
+
+    if (word?.type === "comment") return [];
+    if (word && word.text.startsWith("@")) {
+      return Object.entries(ATTRIBUTES)
+        .filter(([name]) => !inSchema || name !== "schema")
+        .map(([name, docs]) => ({
+          label: `@${name}`,
+          kind: CompletionItemKind.property,
+          documentation: { kind: "markdown", value: docs },
+          textEdit: { range: replace, newText: `@${name}` },
+        }));
+    }
+    if (attribute === "@schema") {
+      return [...state.schemas.keys()].map((name) => ({
+        label: name,
+        kind: CompletionItemKind.struct,
+        textEdit: { range: replace, newText: `"${name}"` },
+      }));
+    }
+    if (word && word.type !== "identifier") return [];
+
+    if (inSchema) {
+      if (attribute || !["=", "|", "("].includes(previous?.text)) return [];
+      return [
+        ...BUILTIN_TYPES.map((name) => ({
+          label: name,
+          kind: CompletionItemKind.keyword,
+          textEdit: { range: replace, newText: name },
+        })),
+        ...[...state.schemas.keys()].map((name) => ({
+          label: name,
+          kind: CompletionItemKind.struct,
+          textEdit: { range: replace, newText: name },
+        })),
+      ];
+    }
+
+    // Keys start after an opening brace, a comma or a line break
+    const line = state.lines.position(offset).line;
+    const atKey =
+      !previous ||
+      previous.text === "{" ||
+      previous.text === "," ||
+      state.lines.position(previous.end).line < line;
+    if (!atKey) return [];
+    const path = enclosingObject(dataEntries(state.result), offset, state.text);
+    if (!path) return [];
+    const rules = new SchemaResolver(state.schemas).objectRules(
+      state.result,
+      path
+    );
+    const object = findValue(state.result, path);
+    const present = object?.type === "object" ? object.items : {};
+    return (rules ?? [])
+      .filter((rule) => !(rule.key in present))
+      .map((rule) => ({
+        label: rule.key,
+        kind: CompletionItemKind.field,
+        detail: rule.type,
+        documentation: rule.loc && {
+          kind: "markdown",
+          value: codeBlock(state.slice(rule.loc)),
+        },
+        textEdit: { range: replace, newText: `${rule.key} = ` },
+      }));
+  }
+
+  private definition(state: DocumentState, offset: number): Location | null {
+    const tokens = state.tokens();
+    let index = tokens.findIndex((token) => token.end > offset);
+    if (index === -1 || tokens[index].start > offset) {
+      // The cursor is just past a token
+      index = tokens.findIndex((token) => token.end === offset);
+    }
+    const token = tokens[index];
+    if (!token) return null;
+    const previous = tokens[index - 1];
+
+    if (token.type === "string" && previous?.type === "keyword") {
+      try {
+        return {
+          uri: new URL(unquote(token.text), state.uri).href,
+          range: state.span(0, 0),
+        };
+      } catch {
+        return null;
+      }
+    }
+
+    let name: string | undefined;
+    if (
+      token.type === "string" &&
+      previous?.text === "=" &&
+      tokens[index - 2]?.text === "@schema"
+    ) {
+      name = unquote(token.text);
+    } else if (
+      token.type === "identifier" &&
+      ["=", "|", "("].includes(previous?.text)
+    ) {
+      name = token.text;
+    }
+    const schema = name === undefined ? undefined : state.schemas.get(name);
+    return schema ? { uri: state.uri, range: state.schemaName(schema) } : null;
+  }
+
+  private symbols(state: DocumentState): DocumentSymbol[] {
+    const symbols: DocumentSymbol[] = [];
+    for (const [key, value] of Object.entries(state.result)) {
+      if (isBringValue(value)) {
+        const symbol = this.valueSymbol(state, key, value);
+        if (symbol) symbols.push(symbol);
+      } else if (value.loc) {
+        symbols.push({
+          name: value.name,
+          detail: "schema",
+          kind: SymbolKind.struct,
+          range: state.range(value.loc),
+          selectionRange: state.schemaName(value),
+          children: this.ruleSymbols(state, value.rules),
+        });
+      }
+    }
+    return symbols.sort(
+      (a, b) =>
+        a.range.start.line - b.range.start.line ||
+        a.range.start.character - b.range.start.character
+    );
+  }
+
+  private valueSymbol(
+    state: DocumentState,
+    name: string,
+    value: BringValue
+  ): DocumentSymbol | undefined {
+    const nested = children(value)
+      .filter(([, item]) => item.type !== "primitive" || item.keyLoc)
+      .map(([key, item]) =>
+        this.valueSymbol(
+          state,
+          typeof key === "number" ? `[${key}]` : key,
+          item
+        )
+      )
+      .filter((symbol): symbol is DocumentSymbol => symbol !== undefined);
+
+    const range = valueRange(value);
+    if (!range) {
+      // A section: it spans its entries
+      if (nested.length === 0) return undefined;
+      const start = nested[0].range.start;
+      return {
+        name,
+        kind: SymbolKind.namespace,
+        range: { start, end: nested[nested.length - 1].range.end },
+        selectionRange: { start, end: start },
+        children: nested,
+      };
+    }
+
+    const symbol: DocumentSymbol = {
+      name,
+      detail: describe(value),
+      kind: this.symbolKind(value),
+      range: state.range(range),
+      selectionRange: state.range(value.keyLoc ?? value.loc!),
+    };
+    if (value.type !== "primitive") symbol.children = nested;
+    return symbol;
+  }
+
+  private symbolKind(value: BringValue): number {
+    if (value.type === "object") return SymbolKind.object;
+    if (value.type === "array") return SymbolKind.array;
+    if (value.kind) return SymbolKind.constant;
+    if (value.value === null) return SymbolKind.null;
+    return SymbolKind[typeof value.value as "string" | "number" | "boolean"];
+  }
+
+  private ruleSymbols(
+    state: DocumentState,
+    rules: BringSchemaRule[]
+  ): DocumentSymbol[] {
+    return rules
+      .filter((rule) => rule.loc)
+      .map((rule) => ({
+        name: rule.key,
+        detail: rule.type,
+        kind: SymbolKind.field,
+        range: state.range(rule.loc!),
+        selectionRange: state.range(rule.keyLoc ?? rule.loc!),
+        children: this.ruleSymbols(state, inlineRules(rule.typeExpr)),
+      }));
+  }
+
+  private formatting(
+    state: DocumentState,
+    options: Record<string, unknown>
+  ): TextEdit[] {
+    const tabSize = typeof options.tabSize === "number" ? options.tabSize : 2;
+    let formatted: string;
+    try {
+      formatted = format(state.text, {
+        indent: options.insertSpaces === false ? "\t" : tabSize,
+      });
+    } catch (error) {
+      // Documents with syntax errors are left alone
+      if (error instanceof BringParseError) return [];
+      throw error;
+    }
+    if (formatted === state.text) return [];
+    return [{ range: state.span(0, state.text.length), newText: formatted }];
+  }
+}
+
+/**
+ * Reads messages framed by `Content-Length` headers from a byte stream
+ */
+class MessageReader {
+  private buffer = Buffer.alloc(0);
+
+  constructor(
+    private onMessage: (message: unknown) => void,
+    private onError: () => void
+  ) {}
+
+  public write(chunk: Buffer | string): void {
+    this.buffer = Buffer.concat([
+      this.buffer,
+      typeof chunk === "string" ? Buffer.from(chunk) : chunk,
+    ]);
+    for (;;) {
+      const headerEnd = this.buffer.indexOf("\r\n\r\n");
+      if (headerEnd === -1) return;
+      const header = this.buffer.subarray(0, headerEnd).toString("ascii");
+      const length = /^content-length: *(\d+) *$/im.exec(header);
+      if (!length) {
+        this.buffer = this.buffer.subarray(headerEnd + 4);
+        this.onError();
+        continue;
+      }
+
+      const start = headerEnd + 4;
+      const end = start + Number(length[1]);
+      if (this.buffer.length < end) return;
+      const body = this.buffer.subarray(start, end).toString("utf8");
+      this.buffer = this.buffer.subarray(end);
+      let message: unknown;
+      try {
+        message = JSON.parse(body);
+      } catch {
+        this.onError();
+        continue;
+      }
+      this.onMessage(message);
+    }
+  }
+}
+
+/**
+ * Frame a message with its `Content-Length` header
+ */
+export function encodeMessage(message: JsonRpcMessage): string {
+  const body = JSON.stringify(message);
+  return `Content-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`;
+}
+
+/**
+ * Serve the Language Server Protocol, reading requests from `input` and
+ * writing responses and notifications to `output`
+ *
+ * The server stops reading when the client sends `exit`; `options.onExit`
+ * decides what else happens then.
+ */
+export function startLanguageServer(
+  input: NodeJS.ReadableStream,
+  output: NodeJS.WritableStream,
+  options: LanguageServerOptions = {}
+): BringLanguageServer {
+  const send = (message: JsonRpcMessage) =>
+    output.write(encodeMessage(message));
+  const server = new BringLanguageServer(send, {
+    ...options,
+    onExit: (code) => {
+      input.removeListener("data", onData);
+      options.onExit?.(code);
+    },
+  });
+  const reader = new MessageReader(
+    (message) => server.receive(message),
+    () =>
+      send({
+        jsonrpc: "2.0",
+        id: null,
+        error: { code: PARSE_ERROR, message: "Parse error" },
+      })
+  );
+  const onData = (chunk: Buffer | string) => reader.write(chunk);
+  input.on("data", onData);
+  return server;
+}
+
+if (require.main === module) {
+  // Editors pass `--stdio`; it is the only transport
+  startLanguageServer(process.stdin, process.stdout, {
+    onExit: (code) => process.exit(code),
+  });
+}
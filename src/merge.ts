@@ -0,0 +1,198 @@
+// src/merge.ts - Layered configuration merging
+
+/**
+ * Deep merging of parse results, e.g. base, staging and production overlays
+ */
+
+import { BringAttribute, BringValue, ParseResult, isBringValue } from "./index";
+
+export type MergeStrategy = "merge" | "replace" | "append" | "unique";
+
+export interface MergeLayer<T> {
+  result: ParseResult;
+  /** Identifies the layer in the provenance map, e.g. a file name */
+  source: T;
+}
+
+export interface MergeResult<T = number> {
+  result: ParseResult;
+  /** The layer each final value came from, keyed by dotted path */
+  provenance: Record<string, T>;
+}
+
+const STRATEGIES: MergeStrategy[] = ["merge", "replace", "append", "unique"];
+
+function strategyOf(
+  base: BringValue,
+  override: BringValue,
+  path: string
+): MergeStrategy {
+  const attr =
+    override.attributes?.find((item) => item.name === "merge") ??
+    base.attributes?.find((item) => item.name === "merge");
+  if (!attr) {
+    return "merge";
+  }
+  if (!STRATEGIES.includes(attr.value as MergeStrategy)) {
+    throw new Error(
+      `Unknown merge strategy '${attr.value}' at '${path}', expected one of ${STRATEGIES.join(", ")}`
+    );
+  }
+  return attr.value as MergeStrategy;
+}
+
+function mergeAttributes(
+  base: BringAttribute[] | undefined,
+  override: BringAttribute[] | undefined
+): BringAttribute[] | undefined {
+  if (!base) return override;
+  if (!override) return base;
+  const names = new Set(override.map((attr) => attr.name));
+  return [...base.filter((attr) => !names.has(attr.name)), ...override];
+}
+
+/**
+ * Key used to compare values for the `unique` strategy
+ */
+function identity(value: BringValue): string {
+  switch (value.type) {
+    case "primitive":
+      return JSON.stringify(value.value);
+    case "array":
+      return `[${value.items.map(identity).join(",")}]`;
+    case "object":
+      return `{${Object.keys(value.items)
+        .sort()
+        .map((key) => `${JSON.stringify(key)}:${identity(value.items[key])}`)
+        .join(",")}}`;
+  }
+}
+
+class Merger<T> {
+  private origins = new WeakMap<BringValue, T>();
+
+  public run(layers: MergeLayer<T>[]): MergeResult<T> {
+    let result: ParseResult = {};
+    for (const layer of layers) {
+      for (const value of Object.values(layer.result)) {
+        if (isBringValue(value)) this.markOrigin(value, layer.source);
+      }
+      result = this.mergeResults(result, layer.result);
+    }
+    return { result, provenance: this.provenanceOf(result) };
+  }
+
+  private mergeResults(base: ParseResult, override: ParseResult): ParseResult {
+    const result: ParseResult = { ...base };
+    for (const [key, value] of Object.entries(override)) {
+      const existing = result[key];
+      // Schemas are always replaced as a whole
+      result[key] =
+        isBringValue(value) && isBringValue(existing)
+          ? this.mergeValues(existing, value, key)
+          : value;
+    }
+    return result;
+  }
+
+  private mergeValues(
+    base: BringValue,
+    override: BringValue,
+    path: string
+  ): BringValue {
+    if (base.type !== override.type) {
+      return override;
+    }
+
+    const strategy = strategyOf(base, override, path);
+    if (strategy === "replace") {
+      return override;
+    }
+
+    let merged: BringValue;
+    if (override.type === "primitive") {
+      // The value is replaced, but its attributes still merge
+      merged = { ...override };
+    } else if (base.type === "object" && override.type === "object") {
+      const items: Record<string, BringValue> = { ...base.items };
+      for (const [key, value] of Object.entries(override.items)) {
+        items[key] = items[key]
+          ? this.mergeValues(items[key], value, `${path}.${key}`)
+          : value;
+      }
+      merged = { type: "object", items };
+    } else if (base.type === "array" && override.type === "array") {
+      if (strategy === "merge") {
+        // Arrays have no keys to merge by, so they are replaced by default
+        return override;
+      }
+      let items = [...base.items, ...override.items];
+      if (strategy === "unique") {
+        const seen = new Set<string>();
+        items = items.filter((item) => {
+          const key = identity(item);
+          if (seen.has(key)) return false;
+          seen.add(key);
+          return true;
+        });
+      }
+      merged = { type: "array", items };
+    } else {
+      return override;
+    }
+
+    const attributes = mergeAttributes(base.attributes, override.attributes);
+    if (attributes) merged.attributes = attributes;
+    this.origins.set(merged, this.origins.get(override)!);
+    return merged;
+  }
+
+  private markOrigin(value: BringValue, source: T): void {
+    this.origins.set(value, source);
+    if (value.type === "object") {
+      Object.values(value.items).forEach((item) =>
+        this.markOrigin(item, source)
+      );
+    } else if (value.type === "array") {
+      value.items.forEach((item) => this.markOrigin(item, source));
+    }
+  }
+
+  private provenanceOf(result: ParseResult): Record<string, T> {
+    const provenance: Record<string, T> = {};
+    const walk = (value: BringValue, path: string): void => {
+      if (this.origins.has(value)) provenance[path] = this.origins.get(value)!;
+      if (value.type === "object") {
+        for (const [key, item] of Object.entries(value.items)) {
+          walk(item, `${path}.${key}`);
+        }
+      } else if (value.type === "array") {
+        value.items.forEach((item, index) => walk(item, `${path}[${index}]`));
+      }
+    };
+    for (const [key, value] of Object.entries(result)) {
+      if (isBringValue(value)) walk(value, key);
+    }
+    return provenance;
+  }
+}
+
+/**
+ * Merge named layers in order, later layers taking precedence
+ */
+export function mergeLayers<T>(layers: MergeLayer<T>[]): MergeResult<T> {
+  return new Merger<T>().run(layers);
+}
+
+/**
+ * Deep merge parse results, later results taking precedence
+ *
+ * Objects merge key by key, and the attributes of every value merge by
+ * name. Primitives are replaced, as are arrays unless either side sets
+ * `@merge="append"` or `@merge="unique"`; `@merge="replace"` replaces an
+ * object instead of merging it. Schemas are replaced whole. The provenance
+ * map gives, for every final value, the index of the result it came from.
+ */
+export function merge(...results: ParseResult[]): MergeResult<number> {
+  return mergeLayers(results.map((result, source) => ({ result, source })));
+}
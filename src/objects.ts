@@ -0,0 +1,318 @@
+// src/objects.ts - Plain objects that keep attributes
+
+/**
+ * `toObject` modes that keep attributes and typed scalars, and `fromObject`
+ * to turn their output back into the original values
+ *
+ * In "inline" mode a value with attributes or a scalar kind becomes a node:
+ * `port = 8080 @min=1024` is `{ "$value": 8080, "$attrs": { "min": 1024 } }`
+ * and `timeout = 30s` is `{ "$value": "30s", "$kind": "duration" }`. Other
+ * values stay plain. In "sidecar" mode the data stays plain and the
+ * attributes and kinds are kept in maps keyed by path.
+ */
+
+import {
+  BringAttribute,
+  BringAttributeValue,
+  BringScalarKind,
+  BringValue,
+  ParseResult,
+  isBringValue,
+  isParseResult,
+} from "./index";
+import { attributeObject } from "./convert";
+import { PathSegment, formatPath } from "./path";
+import { SCALAR_KINDS } from "./scalars";
+import { fromPlain } from "./stringify";
+
+export type AttributeMode = "drop" | "inline" | "sidecar";
+
+export interface ObjectOptions {
+  /** What to do with attributes (default "drop") */
+  attributes?: AttributeMode;
+}
+
+export interface SidecarObject {
+  /** The data, with typed scalars as written */
+  data: unknown;
+  /**
+   * Attributes by path, e.g. `{ "server.port": { "min": 1024 } }`; keys with
+   * a dot or bracket are quoted, as in `"api.v1".port`
+   */
+  attributes: Record<string, Record<string, BringAttributeValue>>;
+  /** Scalar kinds by path, e.g. `{ "timeout": "duration" }` */
+  kinds: Record<string, BringScalarKind>;
+}
+
+const VALUE = "$value";
+const ATTRS = "$attrs";
+const KIND = "$kind";
+
+/**
+ * The top-level values of a document as one object, leaving out schemas
+ */
+export function documentObject(result: ParseResult): BringValue {
+  const items: Record<string, BringValue> = {};
+  for (const [key, value] of Object.entries(result)) {
+    if (!key.startsWith("schema:") && isBringValue(value)) {
+      items[key] = value;
+    }
+  }
+  return { type: "object", items };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Date)
+  );
+}
+
+/**
+ * Whether an object has the shape of an inline node
+ */
+function isNode(value: unknown): value is Record<string, unknown> {
+  return (
+    isPlainObject(value) &&
+    Object.prototype.hasOwnProperty.call(value, VALUE) &&
+    Object.keys(value).every(
+      (key) => key === VALUE || key === ATTRS || key === KIND
+    )
+  );
+}
+
+function inlineValue(value: BringValue): unknown {
+  let data: unknown;
+  switch (value.type) {
+    case "primitive":
+      data = value.value;
+      break;
+    case "array":
+      data = value.items.map((item) => inlineValue(item));
+      break;
+    case "object": {
+      const items: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value.items)) {
+        items[key] = inlineValue(item);
+      }
+      data = items;
+    }
+  }
+
+  const kind = value.type === "primitive" ? value.kind : undefined;
+  // An object that looks like a node is wrapped so it reads back as data
+  if (!value.attributes?.length && !kind && !isNode(data)) {
+    return data;
+  }
+  const node: Record<string, unknown> = { [VALUE]: data };
+  if (value.attributes?.length) {
+    node[ATTRS] = attributeObject(value.attributes);
+  }
+  if (kind) {
+    node[KIND] = kind;
+  }
+  return node;
+}
+
+function sidecarValue(
+  value: BringValue,
+  path: PathSegment[],
+  sidecar: SidecarObject
+): unknown {
+  if (value.attributes?.length) {
+    sidecar.attributes[formatPath(path)] = attributeObject(value.attributes);
+  }
+  switch (value.type) {
+    case "primitive":
+      if (value.kind) {
+        sidecar.kinds[formatPath(path)] = value.kind;
+      }
+      return value.value;
+    case "array":
+      return value.items.map((item, index) =>
+        sidecarValue(item, [...path, index], sidecar)
+      );
+    case "object": {
+      const items: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value.items)) {
+        items[key] = sidecarValue(item, [...path, key], sidecar);
+      }
+      return items;
+    }
+  }
+}
+
+/**
+ * Convert to plain data with attributes as `$value`/`$attrs` nodes
+ */
+export function toInlineObject(value: BringValue | ParseResult): unknown {
+  return inlineValue(isParseResult(value) ? documentObject(value) : value);
+}
+
+/**
+ * Convert to plain data with attributes in a map keyed by path
+ */
+export function toSidecarObject(
+  value: BringValue | ParseResult
+): SidecarObject {
+  const sidecar: SidecarObject = { data: null, attributes: {}, kinds: {} };
+  sidecar.data = sidecarValue(
+    isParseResult(value) ? documentObject(value) : value,
+    [],
+    sidecar
+  );
+  return sidecar;
+}
+
+function attributeList(
+  attributes: unknown,
+  path: PathSegment[]
+): BringAttribute[] {
+  if (!isPlainObject(attributes)) {
+    throw new TypeError(
+      `Attributes at '${formatPath(path)}' must be an object`
+    );
+  }
+  return Object.entries(attributes).map(([name, value]) => ({
+    name,
+    value: value as BringAttributeValue,
+  }));
+}
+
+/**
+ * Give a primitive its scalar kind, checking that it can have one
+ */
+function withKind(
+  value: BringValue,
+  kind: unknown,
+  path: PathSegment[]
+): BringValue {
+  if (!SCALAR_KINDS.includes(kind as BringScalarKind)) {
+    throw new TypeError(
+      `Unknown scalar kind '${String(kind)}' at '${formatPath(path)}'`
+    );
+  }
+  if (value.type !== "primitive" || typeof value.value !== "string") {
+    throw new TypeError(
+      `A ${kind} at '${formatPath(path)}' must be written as a string`
+    );
+  }
+  return { ...value, kind: kind as BringScalarKind };
+}
+
+function fromInline(data: unknown, path: PathSegment[]): BringValue {
+  if (Array.isArray(data)) {
+    return {
+      type: "array",
+      items: data.map((item, index) => fromInline(item, [...path, index])),
+    };
+  }
+  if (!isPlainObject(data)) {
+    return fromPlain(data);
+  }
+  if (!isNode(data)) {
+    return fromInlineItems(data, path);
+  }
+
+  // The value of a node is never itself a node
+  const inner = data[VALUE];
+  let value = isPlainObject(inner)
+    ? fromInlineItems(inner, path)
+    : fromInline(inner, path);
+  if (data[KIND] !== undefined) {
+    value = withKind(value, data[KIND], path);
+  }
+  if (data[ATTRS] !== undefined) {
+    value.attributes = attributeList(data[ATTRS], path);
+  }
+  return value;
+}
+
+function fromInlineItems(
+  data: Record<string, unknown>,
+  path: PathSegment[]
+): BringValue {
+  const items: Record<string, BringValue> = {};
+  for (const [key, item] of Object.entries(data)) {
+    if (item !== undefined) {
+      items[key] = fromInline(item, [...path, key]);
+    }
+  }
+  return { type: "object", items };
+}
+
+function fromSidecar(
+  data: unknown,
+  path: PathSegment[],
+  sidecar: SidecarObject
+): BringValue {
+  let value: BringValue;
+  if (Array.isArray(data)) {
+    value = {
+      type: "array",
+      items: data.map((item, index) =>
+        fromSidecar(item, [...path, index], sidecar)
+      ),
+    };
+  } else if (isPlainObject(data)) {
+    const items: Record<string, BringValue> = {};
+    for (const [key, item] of Object.entries(data)) {
+      if (item !== undefined) {
+        items[key] = fromSidecar(item, [...path, key], sidecar);
+      }
+    }
+    value = { type: "object", items };
+  } else {
+    value = fromPlain(data);
+  }
+
+  const key = formatPath(path);
+  if (Object.prototype.hasOwnProperty.call(sidecar.kinds, key)) {
+    value = withKind(value, sidecar.kinds[key], path);
+  }
+  if (Object.prototype.hasOwnProperty.call(sidecar.attributes, key)) {
+    value.attributes = attributeList(sidecar.attributes[key], path);
+  }
+  return value;
+}
+
+export function fromObject(
+  data: SidecarObject,
+  options: ObjectOptions & { attributes: "sidecar" }
+): BringValue;
+export function fromObject(data: unknown, options?: ObjectOptions): BringValue;
+
+/**
+ * Rebuild Bring values from the output of `toObject`
+ *
+ * Inline nodes are read by default. With `{ attributes: "sidecar" }` the
+ * data and maps returned by `toObject` in that mode are read instead. A
+ * document comes back as an object value whose `items` are the parse
+ * result, without its schemas and source locations.
+ */
+export function fromObject(
+  data: unknown,
+  options: ObjectOptions = {}
+): BringValue {
+  switch (options.attributes) {
+    case "sidecar": {
+      const sidecar = data as SidecarObject;
+      if (
+        !isPlainObject(sidecar) ||
+        !isPlainObject(sidecar.attributes) ||
+        !isPlainObject(sidecar.kinds)
+      ) {
+        throw new TypeError(
+          "Expected the { data, attributes, kinds } object of sidecar mode"
+        );
+      }
+      return fromSidecar(sidecar.data, [], sidecar);
+    }
+    case "drop":
+      return fromPlain(data);
+    default:
+      return fromInline(data, []);
+  }
+}
@@ -0,0 +1,71 @@
+// src/path.ts - Value paths
+
+/**
+ * Paths into Bring documents, written as `app.servers[0].host`. Keys that
+ * contain `.`, `[` or `]` are quoted as in Bring: `app."api.v1".port`.
+ */
+
+export type PathSegment = string | number;
+
+const KEY = /"(?:[^"\\]|\\.)*"|[^.[\]"][^.[\]]*/y;
+// Keys that read back as something else unless quoted
+const PLAIN_KEY = /^[^.[\]"][^.[\]]*$/;
+const INDEX = /\[(\d+)\]/y;
+
+/**
+ * Split a path such as `app.servers[0].host` into keys and indices, throwing
+ * on empty keys (`a..b`) and indices that are not numbers (`users[x]`)
+ */
+export function parsePath(path: string | PathSegment[]): PathSegment[] {
+  if (Array.isArray(path)) return path;
+
+  const segments: PathSegment[] = [];
+  const invalid = (expected: string, index: number) =>
+    new Error(
+      `Invalid path '${path}': expected ${expected} at character ${index + 1}`
+    );
+  let index = 0;
+  while (index < path.length) {
+    if (path[index] === "[") {
+      INDEX.lastIndex = index;
+      const match = INDEX.exec(path);
+      if (!match) throw invalid("an index such as [0]", index);
+      segments.push(Number(match[1]));
+      index = INDEX.lastIndex;
+      continue;
+    }
+    if (index > 0 && path[index] !== ".") {
+      throw invalid("'.' or '['", index);
+    }
+    const start = index > 0 ? index + 1 : index;
+    KEY.lastIndex = start;
+    const match = KEY.exec(path);
+    if (!match) throw invalid("a key", start);
+    let key = match[0];
+    if (key.startsWith('"')) {
+      try {
+        key = JSON.parse(key);
+      } catch {
+        throw invalid("a quoted key", start);
+      }
+    }
+    segments.push(key);
+    index = KEY.lastIndex;
+  }
+  return segments;
+}
+
+/**
+ * Join keys and indices back into a path string
+ */
+export function formatPath(segments: PathSegment[]): string {
+  return segments
+    .map((segment, index) =>
+      typeof segment === "number"
+        ? `[${segment}]`
+        : `${index === 0 ? "" : "."}${
+            PLAIN_KEY.test(segment) ? segment : JSON.stringify(segment)
+          }`
+    )
+    .join("");
+}
@@ -0,0 +1,245 @@
+// src/resolve.ts - Environment and default resolution
+
+/**
+ * Apply `@env`, `@default` and `@required` attributes to parsed values
+ */
+
+import {
+  BringPrimitive,
+  BringScalarKind,
+  BringValue,
+  ParseResult,
+  getPosition,
+  isBringValue,
+} from "./index";
+import { SCALAR_KINDS, matchScalar, scalarError } from "./scalars";
+import { fromPlain } from "./stringify";
+import { getAttribute } from "./validator";
+
+export type ValueSource = "file" | "env" | "default";
+
+export interface ResolvedValue {
+  path: string;
+  source: ValueSource;
+  /** The environment variable the value was read from */
+  variable?: string;
+}
+
+export interface ResolveOptions {
+  /** Environment variables to read `@env` values from (default: process.env) */
+  env?: Record<string, string | undefined>;
+}
+
+export interface ResolveResult {
+  result: ParseResult;
+  sources: ResolvedValue[];
+}
+
+export interface ResolveIssue {
+  path: string;
+  message: string;
+  line?: number;
+  column?: number;
+}
+
+export class BringResolveError extends Error {
+  public issues: ResolveIssue[];
+
+  constructor(issues: ResolveIssue[]) {
+    super(
+      `Could not resolve configuration:\n${issues
+        .map((issue) => `  ${issue.path}: ${issue.message}`)
+        .join("\n")}`
+    );
+    this.name = "BringResolveError";
+    this.issues = issues;
+  }
+}
+
+type Primitive = BringPrimitive["value"];
+
+/**
+ * The process environment, or nothing where there is no `process`
+ */
+export function defaultEnv(): Record<string, string | undefined> {
+  return typeof process !== "undefined" && process.env ? process.env : {};
+}
+
+function withKind(
+  value: BringPrimitive,
+  kind: BringScalarKind | undefined
+): BringPrimitive {
+  return kind ? { ...value, kind } : value;
+}
+
+/**
+ * Convert an environment string to the type of the value it replaces
+ */
+function coerce(raw: string, type: string): Primitive {
+  switch (type) {
+    case "number": {
+      const trimmed = raw.trim();
+      const result = Number(trimmed);
+      if (trimmed === "" || isNaN(result)) {
+        throw new Error(`expected a number, got '${raw}'`);
+      }
+      return result;
+    }
+    case "boolean": {
+      const lowered = raw.trim().toLowerCase();
+      if (lowered === "true" || lowered === "1") return true;
+      if (lowered === "false" || lowered === "0") return false;
+      throw new Error(`expected a boolean, got '${raw}'`);
+    }
+    default: {
+      if (!SCALAR_KINDS.includes(type as BringScalarKind)) {
+        return raw;
+      }
+      // Typed scalars must be written the same way in the environment
+      const trimmed = raw.trim();
+      const scalar = matchScalar(trimmed, 0);
+      if (
+        scalar?.kind !== type ||
+        scalar.text !== trimmed ||
+        scalarError(scalar.kind, trimmed)
+      ) {
+        throw new Error(`expected a ${type} literal, got '${raw}'`);
+      }
+      return trimmed;
+    }
+  }
+}
+
+class Resolver {
+  public sources: ResolvedValue[] = [];
+  public issues: ResolveIssue[] = [];
+
+  constructor(private env: Record<string, string | undefined>) {}
+
+  public resolve(value: BringValue, path: string): BringValue {
+    switch (value.type) {
+      case "primitive":
+        return this.resolvePrimitive(value, path);
+      case "object": {
+        this.rejectEnv(value, path);
+        const items: Record<string, BringValue> = {};
+        for (const [key, item] of Object.entries(value.items)) {
+          items[key] = this.resolve(item, path ? `${path}.${key}` : key);
+        }
+        return { ...value, items };
+      }
+      case "array":
+        this.rejectEnv(value, path);
+        return {
+          ...value,
+          items: value.items.map((item, index) =>
+            this.resolve(item, `${path}[${index}]`)
+          ),
+        };
+    }
+  }
+
+  private resolvePrimitive(value: BringPrimitive, path: string): BringValue {
+    const envAttr = getAttribute(value.attributes, "env");
+    const defaultAttr = getAttribute(value.attributes, "default");
+    const required = getAttribute(value.attributes, "required");
+
+    // A null takes its type, and any scalar kind, from its default
+    const kind = value.value !== null ? value.kind : defaultAttr?.kind;
+    const declared =
+      value.value !== null
+        ? (kind ?? typeof value.value)
+        : defaultAttr
+          ? (kind ?? typeof defaultAttr.value)
+          : "string";
+
+    if (envAttr) {
+      const variable = String(envAttr.value);
+      const raw = this.env[variable];
+      if (raw !== undefined) {
+        try {
+          const resolved = coerce(raw, declared);
+          this.sources.push({ path, source: "env", variable });
+          return withKind({ ...value, value: resolved }, kind);
+        } catch (error) {
+          this.report(value, path, `${variable} ${(error as Error).message}`);
+          return value;
+        }
+      }
+    }
+
+    if (value.value !== null) {
+      if (envAttr || defaultAttr) {
+        this.sources.push({ path, source: "file" });
+      }
+      return value;
+    }
+
+    if (defaultAttr) {
+      this.sources.push({ path, source: "default" });
+      // Array and object defaults replace the null with a structured value
+      const fallback = fromPlain(defaultAttr.value);
+      if (fallback.type !== "primitive") {
+        return { ...fallback, attributes: value.attributes };
+      }
+      return withKind({ ...value, value: fallback.value }, kind);
+    }
+
+    if (required?.value === true) {
+      this.report(
+        value,
+        path,
+        envAttr
+          ? `required value is missing (set ${envAttr.value})`
+          : "required value is missing"
+      );
+    }
+    return value;
+  }
+
+  private rejectEnv(value: BringValue, path: string): void {
+    const envAttr = getAttribute(value.attributes, "env");
+    if (envAttr && this.env[String(envAttr.value)] !== undefined) {
+      this.report(
+        value,
+        path,
+        `@env can only override primitive values, not ${value.type}s`
+      );
+    }
+  }
+
+  private report(value: BringValue, path: string, message: string): void {
+    const position = value.loc?.start ?? getPosition(value);
+    this.issues.push({
+      path,
+      message,
+      line: position?.line,
+      column: position?.column,
+    });
+  }
+}
+
+/**
+ * Resolve `@env` overrides and `@default` fallbacks in a parse result
+ *
+ * Values come from the environment when their `@env` variable is set, from
+ * the file when not null, and from `@default` otherwise. Throws a
+ * `BringResolveError` listing every `@required=true` value left missing and
+ * every environment value that does not match the declared type.
+ */
+export function resolve(
+  result: ParseResult,
+  options: ResolveOptions = {}
+): ResolveResult {
+  const resolver = new Resolver(options.env ?? defaultEnv());
+  const resolved: ParseResult = {};
+
+  for (const [key, value] of Object.entries(result)) {
+    resolved[key] = isBringValue(value) ? resolver.resolve(value, key) : value;
+  }
+
+  if (resolver.issues.length > 0) {
+    throw new BringResolveError(resolver.issues);
+  }
+  return { result: resolved, sources: resolver.sources };
+}
@@ -0,0 +1,141 @@
+// src/scalars.ts - Typed scalar literals
+
+/**
+ * Dates, durations, byte sizes and semver ranges written without quotes
+ */
+
+import { BringScalarKind } from "./index";
+import { isDigit, scanWhile } from "./tokenizer";
+
+// Tried in order, so datetimes are matched before the date they start with
+export const SCALAR_PATTERNS: Record<BringScalarKind, RegExp> = {
+  datetime:
+    /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:\d{2})?/y,
+  date: /\d{4}-\d{2}-\d{2}/y,
+  semver:
+    /(?:(?:\^|~|>=|<=|>|<)\d+(?:\.\d+){0,2}|\d+\.\d+\.\d+)(?:-[0-9A-Za-z.-]+)?(?:\+[0-9A-Za-z.-]+)?/y,
+  duration: /(?:\d+(?:\.\d+)?(?:ms|s|m|h|d|w))+/y,
+  bytes: /\d+(?:\.\d+)?(?:[KMGTP]i?B|B)/y,
+};
+
+export const SCALAR_KINDS = Object.keys(SCALAR_PATTERNS) as BringScalarKind[];
+
+// A scalar must not run into more of a word, number or date
+const CONTINUATION = /[A-Za-z0-9_.:+-]/;
+
+// What can follow the leading digits of a scalar: `-` of a date, `.` of a
+// version or fraction, or a duration or byte size unit
+const AFTER_DIGITS = "-.mshdwKMGTPB";
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+const BYTE_PREFIXES = ["", "K", "M", "G", "T", "P"];
+
+/**
+ * Find the typed scalar literal starting at `pos`, if there is one
+ */
+export function matchScalar(
+  text: string,
+  pos: number
+): { kind: BringScalarKind; text: string } | undefined {
+  const first = text[pos];
+  if (isDigit(text.charCodeAt(pos))) {
+    // Skip the patterns for plain numbers, which are most values
+    const next = text[scanWhile(text, pos, isDigit)];
+    if (next === undefined || !AFTER_DIGITS.includes(next)) {
+      return undefined;
+    }
+  } else if (first !== "^" && first !== "~" && first !== "<" && first !== ">") {
+    return undefined;
+  }
+
+  for (const [kind, pattern] of Object.entries(SCALAR_PATTERNS)) {
+    pattern.lastIndex = pos;
+    const match = pattern.exec(text);
+    if (match && !CONTINUATION.test(text[pos + match[0].length] ?? "")) {
+      return { kind: kind as BringScalarKind, text: match[0] };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Check the parts of a date or datetime literal, returning why it is invalid
+ */
+export function scalarError(
+  kind: BringScalarKind,
+  text: string
+): string | undefined {
+  if (kind !== "date" && kind !== "datetime") {
+    return undefined;
+  }
+
+  const [year, month, day] = text.substring(0, 10).split("-").map(Number);
+  const date = new Date(0);
+  date.setUTCFullYear(year, month - 1, day);
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return `Invalid date: ${text}`;
+  }
+
+  const time =
+    /T(\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(?:Z|[+-](\d{2}):(\d{2}))?$/.exec(
+      text
+    );
+  if (time) {
+    const [, hours, minutes, seconds = "0", offsetHours = "0"] = time;
+    const offsetMinutes = time[5] ?? "0";
+    if (
+      Number(hours) > 23 ||
+      Number(minutes) > 59 ||
+      Number(seconds) > 59 ||
+      Number(offsetHours) > 23 ||
+      Number(offsetMinutes) > 59
+    ) {
+      return `Invalid time: ${text}`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Convert a typed scalar to its JavaScript value
+ *
+ * Dates become `Date` objects, durations a number of milliseconds and byte
+ * sizes a number of bytes (`KB` is 1000 bytes, `KiB` 1024). Semver ranges
+ * stay strings.
+ */
+export function scalarValue(
+  kind: BringScalarKind,
+  text: string
+): Date | number | string {
+  switch (kind) {
+    case "date":
+    case "datetime":
+      return new Date(text);
+    case "duration": {
+      let total = 0;
+      for (const [, amount, unit] of text.matchAll(
+        /(\d+(?:\.\d+)?)(ms|s|m|h|d|w)/g
+      )) {
+        total += Number(amount) * DURATION_UNITS[unit];
+      }
+      return total;
+    }
+    case "bytes": {
+      const [, amount, prefix, binary] = /^([\d.]+)([KMGTP]?)(i?)B$/.exec(
+        text
+      ) as RegExpExecArray;
+      const base = binary ? 1024 : 1000;
+      return Number(amount) * base ** BYTE_PREFIXES.indexOf(prefix);
+    }
+    case "semver":
+      return text;
+  }
+}
@@ -0,0 +1,480 @@
+// src/stream.ts - Streaming parser
+
+/**
+ * Parse Bring text as it arrives, in chunks of any size
+ *
+ * The input is cut at the ends of top-level statements and, for top-level
+ * arrays such as `users = [...]`, between items. Each piece is parsed by
+ * `BringParser` at its position in the whole input, so values and errors
+ * match the batch parser while only the current piece is held in memory.
+ * Duplicate keys and key conflicts are found across pieces by keeping the
+ * keys defined so far and the types of their values, but not the values.
+ */
+
+import {
+  BringAttribute,
+  BringObject,
+  BringParseError,
+  BringParser,
+  BringStatement,
+  BringValue,
+  ParseContext,
+  ParseOptions,
+  ParseResult,
+  SourcePosition,
+} from "./index";
+import { isWhitespace } from "./tokenizer";
+
+export type StreamOptions = Pick<
+  ParseOptions,
+  "locations" | "strict" | "duplicates" | "onWarning"
+> & {
+  /** Emit the items of top-level arrays one at a time (default true) */
+  arrays?: boolean;
+};
+
+export type BringStreamEvent =
+  | BringStatement
+  | { type: "arrayStart"; path: string[] }
+  | { type: "item"; path: string[]; index: number; value: BringValue }
+  | { type: "arrayEnd"; path: string[]; attributes?: BringAttribute[] };
+
+/** Anything with a `getReader()` like a WHATWG `ReadableStream` */
+export interface ReadableStreamLike<T> {
+  getReader(): {
+    read(): Promise<{ done: boolean; value?: T }>;
+    releaseLock(): void;
+  };
+}
+
+export type StreamChunk = string | Uint8Array;
+
+export type StreamSource =
+  | AsyncIterable<StreamChunk>
+  | Iterable<StreamChunk>
+  | ReadableStreamLike<StreamChunk>;
+
+// `key =` or `a."b".c =` right before the `[` of an array that can be streamed
+const KEY = `(?:[A-Za-z_][A-Za-z0-9_]*|"[^"\\\\\\n]*"|'[^'\\\\\\n]*')`;
+const ARRAY_HEAD = new RegExp(
+  `^(?:\\s|#[^\\n]*\\n)*(${KEY}(?:\\.${KEY})*)\\s*=\\s*$`
+);
+const KEY_PART = new RegExp(KEY, "g");
+
+type Mode = "statements" | "items" | "tail";
+
+// Returned while the input ends before a cut can be decided
+const WAIT = Symbol("wait");
+
+export class BringStreamParser {
+  private buffer = "";
+  // Position of the start of the buffer in the whole input
+  private start: SourcePosition = { line: 1, column: 1, offset: 0 };
+  // How far the buffer has been scanned
+  private scanned = 0;
+  private depth = 0;
+  private quote: string | null = null;
+  private raw = false;
+  private comment = false;
+
+  private mode: Mode = "statements";
+  private context: ParseContext = {
+    result: {},
+    section: [],
+    keyRanges: new WeakMap(),
+  };
+  // A dropped array is a duplicate the "first" policy does not keep
+  private array?: { path: string[]; length: number; dropped: boolean };
+  private events: BringStreamEvent[] = [];
+  private decoder?: InstanceType<typeof TextDecoder>;
+  private ended = false;
+
+  constructor(private options: StreamOptions = {}) {}
+
+  /**
+   * Add a chunk of input, returning the events it completes
+   */
+  public write(chunk: StreamChunk): BringStreamEvent[] {
+    if (this.ended) {
+      throw new Error("Cannot write to a stream parser after end()");
+    }
+    this.buffer += this.decode(chunk);
+    this.scan(false);
+    return this.flush();
+  }
+
+  /**
+   * Finish the input, returning the remaining events
+   */
+  public end(chunk?: StreamChunk): BringStreamEvent[] {
+    if (chunk !== undefined) this.write(chunk);
+    if (this.ended) return [];
+    this.ended = true;
+    if (this.decoder) this.buffer += this.decoder.decode();
+
+    this.scan(true);
+    this.cut(this.buffer.length, true);
+    if (this.mode === "items") {
+      const end = this.start;
+      throw new BringParseError(
+        "Expected ']'",
+        end.line,
+        end.column,
+        end.offset,
+        "expected-close-bracket"
+      );
+    }
+    return this.flush();
+  }
+
+  private decode(chunk: StreamChunk): string {
+    if (typeof chunk === "string") {
+      return chunk;
+    }
+    this.decoder ??= new TextDecoder();
+    return this.decoder.decode(chunk, { stream: true });
+  }
+
+  private flush(): BringStreamEvent[] {
+    const events = this.events;
+    this.events = [];
+    return events;
+  }
+
+  /**
+   * Track strings, comments and brackets, cutting the buffer where a
+   * statement or an array item may end
+   */
+  private scan(final: boolean): void {
+    while (this.scanned < this.buffer.length) {
+      const index = this.scanned;
+      const char = this.buffer[index];
+
+      if (this.comment) {
+        if (char !== "\n") {
+          this.scanned += 1;
+          continue;
+        }
+        this.comment = false;
+      } else if (this.quote) {
+        if (this.buffer.length - index < this.quote.length + 1 && !final) {
+          return;
+        }
+        if (char === "\\" && !this.raw) {
+          this.scanned += 2;
+        } else if (this.buffer.startsWith(this.quote, index)) {
+          this.scanned += this.quote.length;
+          this.quote = null;
+        } else {
+          this.scanned += 1;
+        }
+        continue;
+      }
+
+      if (char === "#") {
+        this.comment = true;
+      } else if (char === '"' || char === "'") {
+        if (this.buffer.length - index < 3 && !final) return;
+        const triple = char.repeat(3);
+        this.quote = this.buffer.startsWith(triple, index) ? triple : char;
+        this.raw = this.buffer[index - 1] === "r";
+        this.scanned += this.quote.length;
+        continue;
+      } else if (char === "[" && this.atArrayHead(index)) {
+        this.startArray(index);
+        continue;
+      } else if (char === "]" && this.mode === "items" && this.depth === 0) {
+        this.endArray(index);
+        continue;
+      } else if (char === "{" || char === "[" || char === "(") {
+        this.depth += 1;
+      } else if (char === "}" || char === "]" || char === ")") {
+        this.depth = Math.max(0, this.depth - 1);
+      } else if (this.depth === 0 && (char === "\n" || char === ",")) {
+        const cut =
+          char === "\n" || this.mode === "items"
+            ? this.tryCut(index + 1, char, final)
+            : false;
+        if (cut === WAIT) return;
+        if (cut) continue;
+      }
+      this.scanned += 1;
+    }
+  }
+
+  private atArrayHead(index: number): boolean {
+    return (
+      this.mode === "statements" &&
+      this.depth === 0 &&
+      this.options.arrays !== false &&
+      ARRAY_HEAD.test(this.buffer.substring(0, index)) &&
+      // `schema` starts a schema, not a key
+      !/^\s*schema\s/.test(this.buffer.substring(0, index))
+    );
+  }
+
+  /**
+   * Cut after a newline or comma when what follows cannot continue the
+   * current statement or item
+   */
+  private tryCut(
+    end: number,
+    separator: string,
+    final: boolean
+  ): boolean | typeof WAIT {
+    const last = final && end >= this.buffer.length;
+    if (separator === ",") {
+      return this.cut(end, last);
+    }
+    const next = this.nextSignificant(end);
+    if (next === undefined && !final) {
+      return WAIT;
+    }
+    // Attributes may follow a value on the next line, as may an item's comma
+    if (next === (this.mode === "items" ? "," : "@")) {
+      return false;
+    }
+    return this.cut(end, last);
+  }
+
+  /**
+   * The first character from `index` that is not whitespace or a comment
+   */
+  private nextSignificant(index: number): string | undefined {
+    let i = index;
+    while (i < this.buffer.length) {
+      const char = this.buffer[i];
+      if (char === "#") {
+        const newline = this.buffer.indexOf("\n", i);
+        if (newline === -1) return undefined;
+        i = newline + 1;
+      } else if (isWhitespace(char.charCodeAt(0))) {
+        i += 1;
+      } else {
+        return char;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Parse the buffer up to `end` and drop it, unless it ends in the middle
+   * of a statement. When `final`, nothing can follow and every error stands.
+   */
+  private cut(end: number, final: boolean): boolean {
+    const text = this.buffer.substring(0, end);
+    const parser = new BringParser(
+      text,
+      this.options,
+      this.start,
+      this.context
+    );
+    try {
+      if (this.mode === "items") {
+        for (const value of parser.parseItems()) {
+          this.item(value);
+        }
+      } else if (this.mode === "tail") {
+        const attributes = parser.parseAttributeList();
+        parser.parse();
+        this.endEvent(attributes);
+      } else {
+        parser.parse();
+      }
+    } catch (error) {
+      const atEnd =
+        error instanceof BringParseError &&
+        error.position >= this.start.offset + end;
+      if (final || !atEnd) throw error;
+      parser.revert();
+      return false;
+    }
+
+    for (const statement of parser.getStatements()) {
+      if (statement.type === "section") {
+        this.context.section = statement.path;
+      }
+      if (this.define(statement)) this.events.push(statement);
+    }
+    this.advance(end);
+    if (this.mode === "tail") {
+      this.mode = "statements";
+    }
+    return true;
+  }
+
+  /**
+   * Drop the first `end` characters of the buffer
+   */
+  private advance(end: number): void {
+    const text = this.buffer.substring(0, end);
+    const lines = text.split("\n");
+    this.start =
+      lines.length > 1
+        ? {
+            line: this.start.line + lines.length - 1,
+            column: lines[lines.length - 1].length + 1,
+            offset: this.start.offset + end,
+          }
+        : {
+            line: this.start.line,
+            column: this.start.column + end,
+            offset: this.start.offset + end,
+          };
+    this.buffer = this.buffer.substring(end);
+    this.scanned -= end;
+  }
+
+  private startArray(index: number): void {
+    const head = ARRAY_HEAD.exec(this.buffer.substring(0, index))!;
+    const keys = head[1]
+      .match(KEY_PART)!
+      .map((key) =>
+        key.startsWith('"') || key.startsWith("'") ? key.slice(1, -1) : key
+      );
+    const path = [...this.context.section, ...keys];
+
+    // Define the key now, to check it against earlier statements
+    const parser = new BringParser(
+      `${head[0]}[]`,
+      this.options,
+      this.start,
+      this.context
+    );
+    parser.parse();
+    const dropped = !this.define(parser.getStatements()[0]);
+    if (!dropped) this.events.push({ type: "arrayStart", path });
+    this.array = { path, length: 0, dropped };
+    this.advance(index + 1);
+    this.scanned = 0;
+    this.mode = "items";
+  }
+
+  private endArray(index: number): void {
+    this.cut(index, true);
+    this.advance(1);
+    this.scanned = 0;
+    this.mode = "tail";
+  }
+
+  /**
+   * Replace what a statement defined in the context with its shape,
+   * returning false when the statement is a duplicate that was dropped
+   */
+  private define(statement: BringStatement): boolean {
+    const { result, keyRanges } = this.context;
+    const dropping =
+      !this.options.strict && this.options.duplicates === "first";
+    if (statement.type === "schema") {
+      const key = `schema:${statement.schema.name}`;
+      if (dropping && result[key] !== statement.schema) return false;
+      result[key] = { name: statement.schema.name, rules: [] };
+      return true;
+    }
+    if (statement.type !== "entry") return true;
+
+    let items: ParseResult = result;
+    for (const key of statement.path.slice(0, -1)) {
+      const value = items[key] as BringValue;
+      items = (value as BringObject).items;
+    }
+    const key = statement.path[statement.path.length - 1];
+    if (dropping && items[key] !== statement.value) return false;
+    items[key] = shape(items[key] as BringValue, keyRanges);
+    return true;
+  }
+
+  private item(value: BringValue): void {
+    const array = this.array!;
+    if (array.dropped) return;
+    this.events.push({
+      type: "item",
+      path: array.path,
+      index: array.length,
+      value,
+    });
+    array.length += 1;
+  }
+
+  private endEvent(attributes: BringAttribute[]): void {
+    const event: BringStreamEvent = {
+      type: "arrayEnd",
+      path: this.array!.path,
+    };
+    if (attributes.length > 0) event.attributes = attributes;
+    if (!this.array!.dropped) this.events.push(event);
+    this.array = undefined;
+  }
+}
+
+function isAsyncIterable<T>(value: unknown): value is AsyncIterable<T> {
+  return (
+    typeof value === "object" && value !== null && Symbol.asyncIterator in value
+  );
+}
+
+async function* chunks(source: StreamSource): AsyncGenerator<StreamChunk> {
+  if (isAsyncIterable<StreamChunk>(source)) {
+    yield* source;
+  } else if ("getReader" in source) {
+    const reader = source.getReader();
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) return;
+        if (value !== undefined) yield value;
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  } else {
+    yield* source;
+  }
+}
+
+/**
+ * A copy of a value with only what duplicate and conflict checks read: the
+ * keys of objects, where they were defined, and the types of other values
+ */
+function shape(
+  value: BringValue,
+  keyRanges: ParseContext["keyRanges"]
+): BringValue {
+  switch (value.type) {
+    case "object": {
+      const items: Record<string, BringValue> = {};
+      for (const [key, item] of Object.entries(value.items)) {
+        items[key] = shape(item, keyRanges);
+      }
+      const ranges = keyRanges.get(value.items);
+      if (ranges) keyRanges.set(items, ranges);
+      return { type: "object", items };
+    }
+    case "array":
+      return { type: "array", items: [] };
+    default:
+      return {
+        type: "primitive",
+        value: typeof value.value === "string" ? "" : value.value,
+        kind: value.kind,
+      };
+  }
+}
+
+/**
+ * Parse a stream of Bring text, yielding statements and array items as they
+ * complete
+ *
+ * Accepts a Node `Readable`, a WHATWG `ReadableStream` or any (async)
+ * iterable of strings or bytes.
+ */
+export async function* parseStream(
+  source: StreamSource,
+  options: StreamOptions = {}
+): AsyncGenerator<BringStreamEvent> {
+  const parser = new BringStreamParser(options);
+  for await (const chunk of chunks(source)) {
+    yield* parser.write(chunk);
+  }
+  yield* parser.end();
+}
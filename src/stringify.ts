@@ -0,0 +1,302 @@
+// src/stringify.ts - Bring serializer
+
+/**
+ * Serialization of Bring data structures back to Bring text
+ */
+
+import {
+  BringAttribute,
+  BringAttributeValue,
+  BringSchema,
+  BringSchemaRule,
+  BringTypeExpr,
+  BringValue,
+  ParseResult,
+  getRuleType,
+  isBringSchema,
+  isBringValue,
+  isParseResult,
+} from "./index";
+
+export interface StringifyOptions {
+  /** Spaces per level, or the indentation string itself (default 2) */
+  indent?: number | string;
+  /** Quote character used for strings (default "double") */
+  quote?: "double" | "single";
+  /** Separate multi-line object entries and array items with commas */
+  commas?: boolean;
+  /** Sort object keys, alphabetically or with a compare function */
+  sortKeys?: boolean | ((a: string, b: string) => number);
+}
+
+const IDENTIFIER = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+const KEYWORDS = ["schema"];
+
+/**
+ * Convert a plain JavaScript value to a Bring value
+ */
+export function fromPlain(value: unknown): BringValue {
+  if (isBringValue(value)) {
+    return value;
+  }
+  if (
+    value === null ||
+    typeof value === "string" ||
+    typeof value === "number" ||
+    typeof value === "boolean"
+  ) {
+    return { type: "primitive", value };
+  }
+  if (value instanceof Date) {
+    return { type: "primitive", value: value.toISOString(), kind: "datetime" };
+  }
+  if (Array.isArray(value)) {
+    return { type: "array", items: value.map((item) => fromPlain(item)) };
+  }
+  if (typeof value === "object") {
+    const items: Record<string, BringValue> = {};
+    for (const [key, item] of Object.entries(value as object)) {
+      if (item !== undefined) {
+        items[key] = fromPlain(item);
+      }
+    }
+    return { type: "object", items };
+  }
+  throw new TypeError(`Cannot convert ${typeof value} to a Bring value`);
+}
+
+class BringStringifier {
+  private indentUnit: string;
+  private quote: string;
+
+  constructor(private options: StringifyOptions) {
+    const indent = options.indent ?? 2;
+    this.indentUnit = typeof indent === "number" ? " ".repeat(indent) : indent;
+    this.quote = options.quote === "single" ? "'" : '"';
+  }
+
+  public document(result: ParseResult): string {
+    const entries: { key: string; value: BringValue | BringSchema }[] = [];
+    for (const [key, value] of Object.entries(result)) {
+      if (value !== undefined) {
+        entries.push({
+          key,
+          value: isBringSchema(value) ? value : fromPlain(value),
+        });
+      }
+    }
+
+    if (this.options.sortKeys) {
+      // Schemas lead a sorted document so data always follows its types
+      entries.sort((a, b) => {
+        const aSchema = isBringSchema(a.value);
+        const bSchema = isBringSchema(b.value);
+        if (aSchema !== bSchema) return aSchema ? -1 : 1;
+        return this.compareKeys(a.key, b.key);
+      });
+    }
+
+    const lines = entries.map(({ key, value }) =>
+      isBringSchema(value)
+        ? this.schema(value)
+        : this.entry(key, value, "", true)
+    );
+    return lines.length > 0 ? `${lines.join("\n")}\n` : "";
+  }
+
+  public value(value: BringValue, indent: string): string {
+    switch (value.type) {
+      case "primitive":
+        // Typed scalars keep the literal they were written as
+        return value.kind ? String(value.value) : this.primitive(value.value);
+      case "object":
+        return this.object(value.items, indent);
+      case "array":
+        return this.array(value.items, indent);
+    }
+  }
+
+  private schema(schema: BringSchema): string {
+    return `schema ${schema.name} ${this.rules(schema.rules, "")}`;
+  }
+
+  private rules(rules: BringSchemaRule[], indent: string): string {
+    if (rules.length === 0) {
+      return "{}";
+    }
+    const inner = indent + this.indentUnit;
+    const lines = rules.map(
+      (rule) =>
+        `${inner}${this.key(rule.key, false)}${rule.optional ? "?" : ""} = ${this.type(getRuleType(rule), inner)}${this.attributes(rule.attributes)}`
+    );
+    return `{\n${lines.join("\n")}\n${indent}}`;
+  }
+
+  private type(type: BringTypeExpr, indent: string): string {
+    switch (type.kind) {
+      case "name":
+        return type.name;
+      case "null":
+        return "null";
+      case "object":
+        return this.rules(type.rules, indent);
+      case "array": {
+        const element = this.type(type.element, indent);
+        return type.element.kind === "union"
+          ? `(${element})[]`
+          : `${element}[]`;
+      }
+      case "union":
+        return type.types.map((item) => this.type(item, indent)).join(" | ");
+    }
+  }
+
+  private entry(
+    key: string,
+    value: BringValue,
+    indent: string,
+    topLevel: boolean = false
+  ): string {
+    return `${indent}${this.key(key, topLevel)} = ${this.value(value, indent)}${this.attributes(value.attributes)}`;
+  }
+
+  private object(items: Record<string, BringValue>, indent: string): string {
+    const keys = Object.keys(items);
+    if (keys.length === 0) {
+      return "{}";
+    }
+    if (this.options.sortKeys) {
+      keys.sort((a, b) => this.compareKeys(a, b));
+    }
+
+    const inner = indent + this.indentUnit;
+    const separator = this.options.commas ? ",\n" : "\n";
+    const lines = keys.map((key) => this.entry(key, items[key], inner));
+    return `{\n${lines.join(separator)}\n${indent}}`;
+  }
+
+  private array(items: BringValue[], indent: string): string {
+    if (items.length === 0) {
+      return "[]";
+    }
+
+    // Arrays of scalars stay on one line, anything nested gets one item per line
+    if (items.every((item) => item.type === "primitive")) {
+      return `[${items.map((item) => this.value(item, indent)).join(", ")}]`;
+    }
+
+    const inner = indent + this.indentUnit;
+    const separator = this.options.commas ? ",\n" : "\n";
+    const lines = items.map((item) => `${inner}${this.value(item, inner)}`);
+    return `[\n${lines.join(separator)}\n${indent}]`;
+  }
+
+  private attributes(attributes: BringAttribute[] | undefined): string {
+    if (!attributes || attributes.length === 0) {
+      return "";
+    }
+    return attributes
+      .map(
+        (attr) =>
+          ` @${attr.name}=${attr.kind ? String(attr.value) : this.attributeValue(attr.value)}`
+      )
+      .join("");
+  }
+
+  /**
+   * Attribute values are written on one line, e.g. `{ min = 1, max = 5 }`
+   */
+  public attributeValue(value: BringAttributeValue): string {
+    if (Array.isArray(value)) {
+      return `[${value.map((item) => this.attributeValue(item)).join(", ")}]`;
+    }
+    if (value !== null && typeof value === "object") {
+      const keys = Object.keys(value);
+      if (keys.length === 0) return "{}";
+      if (this.options.sortKeys) keys.sort((a, b) => this.compareKeys(a, b));
+      const entries = keys.map(
+        (key) => `${this.key(key, false)} = ${this.attributeValue(value[key])}`
+      );
+      return `{ ${entries.join(", ")} }`;
+    }
+    return this.primitive(value);
+  }
+
+  private key(key: string, topLevel: boolean): string {
+    if (IDENTIFIER.test(key) && !(topLevel && KEYWORDS.includes(key))) {
+      return key;
+    }
+    return this.string(key);
+  }
+
+  private primitive(value: string | number | boolean | null): string {
+    if (value === null) return "null";
+    if (typeof value === "string") return this.string(value);
+    if (typeof value === "number") return formatNumber(value);
+    return String(value);
+  }
+
+  private string(value: string): string {
+    const escaped = value.replace(/[\\\n\r\t"']/g, (char) => {
+      switch (char) {
+        case "\n":
+          return "\\n";
+        case "\r":
+          return "\\r";
+        case "\t":
+          return "\\t";
+        case "\\":
+          return "\\\\";
+        default:
+          return char === this.quote ? `\\${char}` : char;
+      }
+    });
+    return `${this.quote}${escaped}${this.quote}`;
+  }
+
+  private compareKeys(a: string, b: string): number {
+    const sortKeys = this.options.sortKeys;
+    if (typeof sortKeys === "function") {
+      return sortKeys(a, b);
+    }
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+}
+
+/**
+ * Format a number, writing non-finite values as `inf`, `-inf` and `nan`
+ */
+function formatNumber(value: number): string {
+  if (Number.isNaN(value)) return "nan";
+  if (value === Infinity) return "inf";
+  if (value === -Infinity) return "-inf";
+  return String(value);
+}
+
+/**
+ * Convert Bring data or plain JavaScript values to Bring text
+ *
+ * A `ParseResult` or plain object is written as a document of top-level
+ * entries and `schema` blocks; any other value is written as a single value.
+ */
+export function stringify(
+  value: ParseResult | BringValue | unknown,
+  options: StringifyOptions = {}
+): string {
+  const stringifier = new BringStringifier(options);
+
+  if (isParseResult(value)) {
+    return stringifier.document(value);
+  }
+  return stringifier.value(fromPlain(value), "");
+}
+
+/**
+ * Write an attribute value on one line, as it appears after `@name=`
+ */
+export function stringifyAttributeValue(
+  value: BringAttributeValue,
+  options: StringifyOptions = {}
+): string {
+  return new BringStringifier(options).attributeValue(value);
+}
@@ -0,0 +1,409 @@
+// src/tokenizer.ts - Character classes and tokenizer
+
+/**
+ * Character tests by char code, shared with `BringParser`, and `tokenize()`,
+ * which splits Bring text into tokens without parsing it
+ *
+ * Tokens follow the parser's lexical rules but need no surrounding context,
+ * so any text can be tokenized, including documents with errors. This makes
+ * `tokenize()` suited to syntax highlighters and editors.
+ */
+
+import { BringScalarKind } from "./index";
+import { matchScalar } from "./scalars";
+
+export type BringTokenType =
+  | "whitespace"
+  | "comment"
+  | "string"
+  | "number"
+  | "scalar"
+  | "boolean"
+  | "null"
+  | "identifier"
+  | "keyword"
+  | "attribute"
+  | "operator"
+  | "punctuation"
+  | "invalid";
+
+export interface BringToken {
+  type: BringTokenType;
+  /** The token as written */
+  text: string;
+  /** Offsets of the token in the text, end exclusive */
+  start: number;
+  end: number;
+  /** Where the token starts, both from 1 */
+  line: number;
+  column: number;
+  /** The kind of a `scalar` token */
+  kind?: BringScalarKind;
+}
+
+export interface TokenizeOptions {
+  /** Also return whitespace, so the tokens cover the whole text */
+  whitespace?: boolean;
+}
+
+// Char codes
+const TAB = 9;
+export const NEWLINE = 10;
+const CARRIAGE_RETURN = 13;
+const SPACE = 32;
+const DOUBLE_QUOTE = 34;
+const HASH = 35;
+const SINGLE_QUOTE = 39;
+const PLUS = 43;
+const MINUS = 45;
+const DOT = 46;
+const ZERO = 48;
+const ONE = 49;
+const SEVEN = 55;
+const NINE = 57;
+const AT = 64;
+const UPPER_A = 65;
+const UPPER_E = 69;
+const UPPER_F = 70;
+const UPPER_Z = 90;
+export const BACKSLASH = 92;
+export const UNDERSCORE = 95;
+const LOWER_A = 97;
+const LOWER_E = 101;
+const LOWER_F = 102;
+const LOWER_R = 114;
+const LOWER_Z = 122;
+
+export function isDigit(code: number): boolean {
+  return code >= ZERO && code <= NINE;
+}
+
+export function isHexDigit(code: number): boolean {
+  return (
+    isDigit(code) ||
+    (code >= LOWER_A && code <= LOWER_F) ||
+    (code >= UPPER_A && code <= UPPER_F)
+  );
+}
+
+export function isOctalDigit(code: number): boolean {
+  return code >= ZERO && code <= SEVEN;
+}
+
+export function isBinaryDigit(code: number): boolean {
+  return code === ZERO || code === ONE;
+}
+
+export function isIdentifierStart(code: number): boolean {
+  return (
+    (code >= LOWER_A && code <= LOWER_Z) ||
+    (code >= UPPER_A && code <= UPPER_Z) ||
+    code === UNDERSCORE
+  );
+}
+
+export function isIdentifierPart(code: number): boolean {
+  return isIdentifierStart(code) || isDigit(code);
+}
+
+/**
+ * What may not directly follow a number: more of a word or number
+ */
+export function isNumberPart(code: number): boolean {
+  return isIdentifierPart(code) || code === DOT;
+}
+
+/**
+ * The characters matched by `/\s/`
+ */
+export function isWhitespace(code: number): boolean {
+  if (code <= SPACE) {
+    return code === SPACE || (code >= TAB && code <= CARRIAGE_RETURN);
+  }
+  if (code < 0xa0) {
+    return false;
+  }
+  return (
+    code === 0xa0 ||
+    code === 0x1680 ||
+    (code >= 0x2000 && code <= 0x200a) ||
+    code === 0x2028 ||
+    code === 0x2029 ||
+    code === 0x202f ||
+    code === 0x205f ||
+    code === 0x3000 ||
+    code === 0xfeff
+  );
+}
+
+/**
+ * The index of the first character from `pos` that fails `test`
+ */
+export function scanWhile(
+  text: string,
+  pos: number,
+  test: (code: number) => boolean
+): number {
+  let end = pos;
+  while (end < text.length && test(text.charCodeAt(end))) {
+    end += 1;
+  }
+  return end;
+}
+
+// Tokens of a single character
+const SYMBOLS: Record<string, BringTokenType> = {
+  "{": "punctuation",
+  "}": "punctuation",
+  "[": "punctuation",
+  "]": "punctuation",
+  "(": "punctuation",
+  ")": "punctuation",
+  ",": "punctuation",
+  ".": "punctuation",
+  "=": "operator",
+  "|": "operator",
+  "?": "operator",
+};
+const RADIX_DIGITS: Record<string, (code: number) => boolean> = {
+  x: isHexDigit,
+  X: isHexDigit,
+  o: isOctalDigit,
+  O: isOctalDigit,
+  b: isBinaryDigit,
+  B: isBinaryDigit,
+};
+// `include "x"` and `import "x"` are directives, as in the parser
+const DIRECTIVE_ARGUMENT = /[ \t]+r?["']/y;
+const SCHEMA_NAME = /\s+[A-Za-z_]/y;
+
+/**
+ * The end of the digits at `pos`, with `_` only between digits, or -1 when
+ * they are malformed
+ */
+function scanDigits(
+  text: string,
+  pos: number,
+  digit: (code: number) => boolean
+): number {
+  if (!digit(text.charCodeAt(pos))) {
+    return -1;
+  }
+  let end = pos + 1;
+  for (;;) {
+    const code = text.charCodeAt(end);
+    if (digit(code)) {
+      end += 1;
+    } else if (code === UNDERSCORE) {
+      if (!digit(text.charCodeAt(end + 1))) return -1;
+      end += 2;
+    } else {
+      return end;
+    }
+  }
+}
+
+/**
+ * The end of a number without its sign, or -1 when it is malformed
+ */
+function scanNumber(text: string, pos: number): number {
+  const digits = RADIX_DIGITS[text[pos + 1]];
+  if (text.charCodeAt(pos) === ZERO && digits) {
+    return scanDigits(text, pos + 2, digits);
+  }
+
+  let end = scanDigits(text, pos, isDigit);
+  if (end !== -1 && text.charCodeAt(end) === DOT) {
+    end = scanDigits(text, end + 1, isDigit);
+  }
+  const code = text.charCodeAt(end);
+  if (end !== -1 && (code === LOWER_E || code === UPPER_E)) {
+    const sign = text.charCodeAt(end + 1);
+    end = scanDigits(
+      text,
+      sign === PLUS || sign === MINUS ? end + 2 : end + 1,
+      isDigit
+    );
+  }
+  return end;
+}
+
+/**
+ * The end of a string starting at `pos` (after any `r` prefix), or -1 when
+ * it is unterminated
+ */
+function scanString(text: string, pos: number, raw: boolean): number {
+  const quote = text[pos];
+  const triple = quote.repeat(3);
+  const delimiter = text.startsWith(triple, pos) ? triple : quote;
+  const close = text.charCodeAt(pos);
+  let end = pos + delimiter.length;
+  while (end < text.length) {
+    const code = text.charCodeAt(end);
+    if (code === close && text.startsWith(delimiter, end)) {
+      return end + delimiter.length;
+    }
+    end += !raw && code === BACKSLASH ? 2 : 1;
+  }
+  return -1;
+}
+
+class Tokenizer {
+  private tokens: BringToken[] = [];
+  private pos = 0;
+  private line = 1;
+  private lineStart = 0;
+
+  constructor(
+    private text: string,
+    private options: TokenizeOptions
+  ) {}
+
+  public tokenize(): BringToken[] {
+    while (this.pos < this.text.length) {
+      this.next();
+    }
+    return this.tokens;
+  }
+
+  private next(): void {
+    const text = this.text;
+    const pos = this.pos;
+    const code = text.charCodeAt(pos);
+
+    if (isWhitespace(code)) {
+      this.push("whitespace", scanWhile(text, pos, isWhitespace));
+    } else if (code === HASH) {
+      const newline = text.indexOf("\n", pos);
+      this.push("comment", newline === -1 ? text.length : newline);
+    } else if (
+      code === DOUBLE_QUOTE ||
+      code === SINGLE_QUOTE ||
+      (code === LOWER_R && (text[pos + 1] === '"' || text[pos + 1] === "'"))
+    ) {
+      const raw = code === LOWER_R;
+      const end = scanString(text, raw ? pos + 1 : pos, raw);
+      if (end === -1) {
+        this.push("invalid", text.length);
+      } else {
+        this.push("string", end);
+      }
+    } else if (code === AT) {
+      if (isIdentifierStart(text.charCodeAt(pos + 1))) {
+        this.push("attribute", scanWhile(text, pos + 1, isIdentifierPart));
+      } else {
+        this.push("invalid", pos + 1);
+      }
+    } else if (SYMBOLS[text[pos]]) {
+      this.push(SYMBOLS[text[pos]], pos + 1);
+    } else {
+      this.value(code);
+    }
+  }
+
+  /**
+   * A scalar, number or word, or an invalid character
+   */
+  private value(code: number): void {
+    const text = this.text;
+    const pos = this.pos;
+    const scalar = matchScalar(text, pos);
+    if (scalar) {
+      this.push("scalar", pos + scalar.text.length, scalar.kind);
+      return;
+    }
+
+    const signed = code === PLUS || code === MINUS;
+    const start = signed ? pos + 1 : pos;
+    if (isIdentifierStart(text.charCodeAt(start))) {
+      const end = scanWhile(text, start, isIdentifierPart);
+      const word = text.slice(start, end);
+      if (word === "inf" || word === "nan") {
+        this.push("number", end);
+      } else if (signed) {
+        this.push("invalid", pos + 1);
+      } else if (word === "true" || word === "false") {
+        this.push("boolean", end);
+      } else if (word === "null") {
+        this.push("null", end);
+      } else {
+        this.push(keyword(text, word, end) ? "keyword" : "identifier", end);
+      }
+    } else if (isDigit(text.charCodeAt(start))) {
+      const end = scanNumber(text, start);
+      if (end === -1 || isNumberPart(text.charCodeAt(end))) {
+        this.push("invalid", scanWhile(text, start, isNumberPart));
+      } else {
+        this.push("number", end);
+      }
+    } else {
+      // Keep surrogate pairs together
+      const pair = code >= 0xd800 && code <= 0xdbff && pos + 1 < text.length;
+      this.push("invalid", pos + (pair ? 2 : 1));
+    }
+  }
+
+  /**
+   * Add the token from the current position to `end` and move past it
+   */
+  private push(
+    type: BringTokenType,
+    end: number,
+    kind?: BringScalarKind
+  ): void {
+    if (type !== "whitespace" || this.options.whitespace) {
+      const token: BringToken = {
+        type,
+        text: this.text.slice(this.pos, end),
+        start: this.pos,
+        end,
+        line: this.line,
+        column: this.pos - this.lineStart + 1,
+      };
+      if (kind) token.kind = kind;
+      this.tokens.push(token);
+    }
+    this.skipTo(end, type);
+  }
+
+  private skipTo(end: number, type: BringTokenType): void {
+    // Only these can span lines
+    if (type === "whitespace" || type === "string" || type === "invalid") {
+      for (let i = this.pos; i < end; i++) {
+        if (this.text.charCodeAt(i) === NEWLINE) {
+          this.line += 1;
+          this.lineStart = i + 1;
+        }
+      }
+    }
+    this.pos = end;
+  }
+}
+
+/**
+ * Split Bring text into tokens
+ *
+ * Never throws: text the parser would reject, such as an unterminated
+ * string or a malformed number, becomes an `invalid` token. Words are
+ * `identifier` tokens unless they are literals (`true`, `false`, `null`,
+ * `inf`, `nan`), `schema` before a name or `include`/`import` before a
+ * string, which are `keyword` tokens.
+ */
+export function tokenize(
+  text: string,
+  options: TokenizeOptions = {}
+): BringToken[] {
+  return new Tokenizer(text, options).tokenize();
+}
+
+function keyword(text: string, word: string, end: number): boolean {
+  const pattern =
+    word === "schema"
+      ? SCHEMA_NAME
+      : word === "include" || word === "import"
+        ? DIRECTIVE_ARGUMENT
+        : undefined;
+  if (!pattern) return false;
+  pattern.lastIndex = end;
+  return pattern.test(text);
+}
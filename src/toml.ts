@@ -0,0 +1,593 @@
+// src/toml.ts - TOML reading and writing
+
+/**
+ * A self-contained reader and writer for TOML 1.0
+ */
+
+import { BringPrimitive, BringValue } from "./index";
+import { BringConvertError, Warn, scalarNumber } from "./convert";
+import { PathSegment, formatPath } from "./path";
+import { scalarError } from "./scalars";
+
+type Items = Record<string, BringValue>;
+
+const BARE_KEY = /^[A-Za-z0-9_-]+$/;
+
+const ESCAPES: Record<string, string> = {
+  b: "\b",
+  t: "\t",
+  n: "\n",
+  f: "\f",
+  r: "\r",
+  e: "\x1b",
+  '"': '"',
+  "\\": "\\",
+};
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const DATETIME =
+  /^(\d{4}-\d{2}-\d{2})[Tt ](\d{2}:\d{2}:\d{2}(?:\.\d+)?)([Zz]|[+-]\d{2}:\d{2})?$/;
+const TIME = /^\d{2}:\d{2}:\d{2}(?:\.\d+)?$/;
+const INTEGER = /^[+-]?(?:0|[1-9](?:_?\d)*)$/;
+const RADIX_INTEGER =
+  /^0(?:x[0-9a-fA-F](?:_?[0-9a-fA-F])*|o[0-7](?:_?[0-7])*|b[01](?:_?[01])*)$/;
+const FLOAT =
+  /^[+-]?(?:0|[1-9](?:_?\d)*)(?:\.\d(?:_?\d)*)?(?:[eE][+-]?\d(?:_?\d)*)?$/;
+const SPECIAL_FLOAT = /^[+-]?(?:inf|nan)$/;
+
+function primitive(value: string | number | boolean): BringPrimitive {
+  return { type: "primitive", value };
+}
+
+class TOMLReader {
+  private pos = 0;
+  private line = 1;
+  private lineStart = 0;
+  private root: Items = {};
+  // Tables opened by a `[header]`, which may not be opened again
+  private headerTables = new Set<Items>();
+  // Tables created by dotted keys, which headers may not open
+  private dottedTables = new Set<Items>();
+  // Inline tables and arrays, which are complete once written
+  private sealed = new Set<object>();
+  // Arrays created by `[[header]]`
+  private tableArrays = new Set<BringValue[]>();
+
+  constructor(
+    private text: string,
+    private warn: Warn
+  ) {}
+
+  public document(): BringValue {
+    let table = this.root;
+    let tablePath: string[] = [];
+
+    for (;;) {
+      this.skipBlankLines();
+      if (this.isEof()) break;
+
+      if (this.peek() === "[") {
+        const array = this.peek(1) === "[";
+        this.pos += array ? 2 : 1;
+        this.skipSpaces();
+        const keys = this.key();
+        this.skipSpaces();
+        if (!this.match(array ? "]]" : "]")) {
+          throw this.error(`Expected '${array ? "]]" : "]"}'`);
+        }
+        table = array ? this.openTableArray(keys) : this.openTable(keys);
+        tablePath = keys;
+      } else {
+        const keys = this.key();
+        this.skipSpaces();
+        if (!this.match("=")) {
+          throw this.error("Expected '=' after key");
+        }
+        this.skipSpaces();
+        const value = this.value([...tablePath, ...keys]);
+        this.assign(table, keys, value);
+      }
+      this.endLine();
+    }
+    return { type: "object", items: this.root };
+  }
+
+  private openTable(keys: string[]): Items {
+    const parent = this.descend(this.root, keys.slice(0, -1), false);
+    const last = keys[keys.length - 1];
+    const existing = parent[last];
+    if (existing === undefined) {
+      const items: Items = {};
+      parent[last] = { type: "object", items };
+      this.headerTables.add(items);
+      return items;
+    }
+    if (
+      existing.type !== "object" ||
+      this.headerTables.has(existing.items) ||
+      this.dottedTables.has(existing.items) ||
+      this.sealed.has(existing.items)
+    ) {
+      throw this.error(`Table '${formatPath(keys)}' is already defined`);
+    }
+    this.headerTables.add(existing.items);
+    return existing.items;
+  }
+
+  private openTableArray(keys: string[]): Items {
+    const parent = this.descend(this.root, keys.slice(0, -1), false);
+    const last = keys[keys.length - 1];
+    const existing = parent[last];
+    const items: Items = {};
+    if (existing === undefined) {
+      const array: BringValue[] = [];
+      this.tableArrays.add(array);
+      parent[last] = { type: "array", items: array };
+    } else if (
+      existing.type !== "array" ||
+      !this.tableArrays.has(existing.items)
+    ) {
+      throw this.error(`'${formatPath(keys)}' is not an array of tables`);
+    }
+    (parent[last] as { items: BringValue[] }).items.push({
+      type: "object",
+      items,
+    });
+    return items;
+  }
+
+  /**
+   * Follow keys from a table, creating the tables that do not exist yet;
+   * arrays of tables continue in their last table
+   */
+  private descend(table: Items, keys: string[], dotted: boolean): Items {
+    let current = table;
+    for (const key of keys) {
+      let next = current[key];
+      if (next === undefined) {
+        const items: Items = {};
+        next = { type: "object", items };
+        current[key] = next;
+        if (dotted) this.dottedTables.add(items);
+      }
+      if (next.type === "array" && this.tableArrays.has(next.items)) {
+        next = next.items[next.items.length - 1];
+      }
+      if (
+        next.type !== "object" ||
+        this.sealed.has(next.items) ||
+        (dotted && this.headerTables.has(next.items))
+      ) {
+        throw this.error(`Cannot add keys to '${key}', it is already defined`);
+      }
+      current = next.items;
+    }
+    return current;
+  }
+
+  private assign(table: Items, keys: string[], value: BringValue): void {
+    const parent = this.descend(table, keys.slice(0, -1), true);
+    const last = keys[keys.length - 1];
+    if (Object.prototype.hasOwnProperty.call(parent, last)) {
+      throw this.error(`Duplicate key '${formatPath(keys)}'`);
+    }
+    parent[last] = value;
+  }
+
+  /**
+   * A key, with dots between the parts of a dotted key
+   */
+  private key(): string[] {
+    const keys: string[] = [];
+    for (;;) {
+      this.skipSpaces();
+      const char = this.peek();
+      if (char === '"' || char === "'") {
+        if (this.text.startsWith(char.repeat(3), this.pos)) {
+          throw this.error("Keys cannot be multi-line strings");
+        }
+        keys.push(this.string());
+      } else {
+        const start = this.pos;
+        while (/[A-Za-z0-9_-]/.test(this.peek())) this.pos += 1;
+        if (this.pos === start) {
+          throw this.error(
+            char === "" ? "Expected a key" : `Unexpected '${char}'`
+          );
+        }
+        keys.push(this.text.substring(start, this.pos));
+      }
+      this.skipSpaces();
+      if (this.peek() !== ".") return keys;
+      this.pos += 1;
+    }
+  }
+
+  private value(path: PathSegment[]): BringValue {
+    const char = this.peek();
+    if (char === '"' || char === "'") {
+      return primitive(this.string());
+    }
+    if (char === "[") {
+      return this.array(path);
+    }
+    if (char === "{") {
+      return this.inlineTable(path);
+    }
+    return this.literal(path);
+  }
+
+  private array(path: PathSegment[]): BringValue {
+    this.pos += 1;
+    const items: BringValue[] = [];
+    for (;;) {
+      this.skipBlankLines();
+      if (this.peek() === "]") break;
+      items.push(this.value([...path, items.length]));
+      this.skipBlankLines();
+      if (this.peek() === ",") {
+        this.pos += 1;
+      } else if (this.peek() !== "]") {
+        throw this.error("Expected ',' or ']'");
+      }
+    }
+    this.pos += 1;
+    this.sealed.add(items);
+    return { type: "array", items };
+  }
+
+  private inlineTable(path: PathSegment[]): BringValue {
+    this.pos += 1;
+    const items: Items = {};
+    this.skipSpaces();
+    if (this.match("}")) {
+      this.sealed.add(items);
+      return { type: "object", items };
+    }
+    for (;;) {
+      const keys = this.key();
+      if (!this.match("=")) {
+        throw this.error("Expected '=' after key");
+      }
+      this.skipSpaces();
+      this.assign(items, keys, this.value([...path, ...keys]));
+      this.skipSpaces();
+      if (this.match("}")) break;
+      if (!this.match(",")) {
+        throw this.error(
+          this.peek() === "\n"
+            ? "Inline tables must be on one line"
+            : "Expected ',' or '}'"
+        );
+      }
+      this.skipSpaces();
+    }
+    this.sealed.add(items);
+    return { type: "object", items };
+  }
+
+  /**
+   * Booleans, numbers and dates
+   */
+  private literal(path: PathSegment[]): BringValue {
+    const start = this.pos;
+    while (/[0-9A-Za-z_:.+-]/.test(this.peek())) this.pos += 1;
+    let text = this.text.substring(start, this.pos);
+    // A date and time may be separated by a space
+    if (
+      DATE.test(text) &&
+      /^ \d{2}:/.test(this.text.substring(this.pos, this.pos + 4))
+    ) {
+      this.pos += 1;
+      while (/[0-9:.Zz+-]/.test(this.peek())) this.pos += 1;
+      text = this.text.substring(start, this.pos);
+    }
+
+    if (text === "true" || text === "false") {
+      return primitive(text === "true");
+    }
+    if (INTEGER.test(text) || FLOAT.test(text)) {
+      return primitive(Number(text.replace(/_/g, "")));
+    }
+    if (RADIX_INTEGER.test(text)) {
+      const radix = { x: 16, o: 8, b: 2 }[text[1] as "x" | "o" | "b"];
+      return primitive(parseInt(text.slice(2).replace(/_/g, ""), radix));
+    }
+    if (SPECIAL_FLOAT.test(text)) {
+      const sign = text.startsWith("-") ? -1 : 1;
+      return primitive(text.endsWith("nan") ? NaN : sign * Infinity);
+    }
+    if (DATE.test(text)) {
+      return this.dateValue("date", text, start);
+    }
+    const datetime = DATETIME.exec(text);
+    if (datetime) {
+      const [, date, time, offset = ""] = datetime;
+      return this.dateValue(
+        "datetime",
+        `${date}T${time}${offset.toUpperCase()}`,
+        start
+      );
+    }
+    if (TIME.test(text)) {
+      this.warn(path, `Local time ${text} was read as a string`);
+      return primitive(text);
+    }
+
+    this.pos = start;
+    throw this.error(
+      text === "" ? `Unexpected '${this.peek()}'` : `Invalid value '${text}'`
+    );
+  }
+
+  private dateValue(
+    kind: "date" | "datetime",
+    text: string,
+    start: number
+  ): BringValue {
+    const message = scalarError(kind, text);
+    if (message) {
+      this.pos = start;
+      throw this.error(message);
+    }
+    return { type: "primitive", value: text, kind };
+  }
+
+  private string(): string {
+    const quote = this.peek();
+    const multiline = this.text.startsWith(quote.repeat(3), this.pos);
+    const delimiter = multiline ? quote.repeat(3) : quote;
+    this.pos += delimiter.length;
+    // A newline right after the opening quotes is not part of the string
+    if (multiline && this.peek() === "\n") this.newline();
+
+    let value = "";
+    for (;;) {
+      if (this.isEof()) {
+        throw this.error("Unterminated string");
+      }
+      if (this.text.startsWith(delimiter, this.pos)) {
+        // Up to two quotes may end a multi-line string's content
+        let run = delimiter.length;
+        while (multiline && run < 5 && this.peek(run) === quote) run += 1;
+        value += quote.repeat(run - delimiter.length);
+        this.pos += run;
+        return value;
+      }
+
+      const char = this.peek();
+      if (char === "\n") {
+        if (!multiline) throw this.error("Unterminated string");
+        value += char;
+        this.newline();
+      } else if (char === "\\" && quote === '"') {
+        value += this.escape(multiline);
+      } else {
+        value += char;
+        this.pos += 1;
+      }
+    }
+  }
+
+  private escape(multiline: boolean): string {
+    this.pos += 1;
+    const char = this.peek();
+    if (multiline && /^[ \t]*\n/.test(this.text.substring(this.pos))) {
+      // A backslash at the end of a line trims the whitespace that follows
+      while (/\s/.test(this.peek())) {
+        if (this.peek() === "\n") this.newline();
+        else this.pos += 1;
+      }
+      return "";
+    }
+    if (char === "u" || char === "U") {
+      const length = char === "u" ? 4 : 8;
+      const digits = this.text.substring(this.pos + 1, this.pos + 1 + length);
+      const code = parseInt(digits, 16);
+      if (
+        !/^[0-9a-fA-F]+$/.test(digits) ||
+        digits.length < length ||
+        code > 0x10ffff
+      ) {
+        throw this.error(`Invalid escape '\\${char}${digits}'`);
+      }
+      this.pos += 1 + length;
+      return String.fromCodePoint(code);
+    }
+    if (!(char in ESCAPES)) {
+      throw this.error(`Invalid escape '\\${char}'`);
+    }
+    this.pos += 1;
+    return ESCAPES[char];
+  }
+
+  /**
+   * Only a comment may follow a key/value pair or header on its line
+   */
+  private endLine(): void {
+    this.skipSpaces();
+    if (this.peek() === "#") this.skipComment();
+    if (!this.isEof() && this.peek() !== "\n") {
+      throw this.error("Expected a new line after value");
+    }
+  }
+
+  private skipBlankLines(): void {
+    for (;;) {
+      this.skipSpaces();
+      if (this.peek() === "#") this.skipComment();
+      if (this.peek() !== "\n") return;
+      this.newline();
+    }
+  }
+
+  private skipComment(): void {
+    const end = this.text.indexOf("\n", this.pos);
+    this.pos = end === -1 ? this.text.length : end;
+  }
+
+  private skipSpaces(): void {
+    while (this.peek() === " " || this.peek() === "\t") this.pos += 1;
+  }
+
+  private match(text: string): boolean {
+    if (!this.text.startsWith(text, this.pos)) return false;
+    this.pos += text.length;
+    return true;
+  }
+
+  private newline(): void {
+    this.pos += 1;
+    this.line += 1;
+    this.lineStart = this.pos;
+  }
+
+  private peek(offset: number = 0): string {
+    return this.text.charAt(this.pos + offset);
+  }
+
+  private isEof(): boolean {
+    return this.pos >= this.text.length;
+  }
+
+  private error(message: string): BringConvertError {
+    return new BringConvertError(
+      message,
+      "toml",
+      this.line,
+      this.pos - this.lineStart + 1
+    );
+  }
+}
+
+/**
+ * Read a TOML document as a Bring object
+ */
+export function readTOML(text: string, warn: Warn): BringValue {
+  const source = text.replace(/^\uFEFF/, "").replace(/\r\n/g, "\n");
+  return new TOMLReader(source, warn).document();
+}
+
+function tomlKey(key: string): string {
+  return BARE_KEY.test(key) ? key : JSON.stringify(key);
+}
+
+function isTable(value: BringValue): boolean {
+  return value.type === "object";
+}
+
+function isTableArray(value: BringValue): boolean {
+  return (
+    value.type === "array" &&
+    value.items.length > 0 &&
+    value.items.every((item) => item.type === "object")
+  );
+}
+
+class TOMLWriter {
+  constructor(private warn: Warn) {}
+
+  /**
+   * Write the keys of a table: plain values first, then tables and arrays
+   * of tables under their own headers
+   */
+  public table(items: Items, path: string[], lines: string[]): void {
+    const nested: [string, BringValue][] = [];
+    for (const [key, value] of Object.entries(items)) {
+      // Attribute sidecars stay inline next to the key they describe
+      if (!key.startsWith("@") && (isTable(value) || isTableArray(value))) {
+        nested.push([key, value]);
+        continue;
+      }
+      const text = this.inline(value, [...path, key]);
+      if (text !== undefined) lines.push(`${tomlKey(key)} = ${text}`);
+    }
+
+    for (const [key, value] of nested) {
+      const header = [...path, key].map(tomlKey).join(".");
+      if (value.type === "object") {
+        if (lines.length > 0) lines.push("");
+        lines.push(`[${header}]`);
+        this.table(value.items, [...path, key], lines);
+      } else if (value.type === "array") {
+        for (const item of value.items) {
+          if (lines.length > 0) lines.push("");
+          lines.push(`[[${header}]]`);
+          this.table((item as { items: Items }).items, [...path, key], lines);
+        }
+      }
+    }
+  }
+
+  /**
+   * A value on one line, or undefined for `null`, which TOML cannot hold
+   */
+  private inline(value: BringValue, path: PathSegment[]): string | undefined {
+    switch (value.type) {
+      case "primitive":
+        return this.primitive(value, path);
+      case "array":
+        return `[${this.present(
+          value.items.map((item, index) => this.inline(item, [...path, index]))
+        ).join(", ")}]`;
+      case "object": {
+        const entries = this.present(
+          Object.entries(value.items).map(([key, item]) => {
+            const text = this.inline(item, [...path, key]);
+            return text === undefined ? undefined : `${tomlKey(key)} = ${text}`;
+          })
+        );
+        return entries.length > 0 ? `{ ${entries.join(", ")} }` : "{}";
+      }
+    }
+  }
+
+  private present(texts: (string | undefined)[]): string[] {
+    return texts.filter((text): text is string => text !== undefined);
+  }
+
+  private primitive(
+    value: BringPrimitive,
+    path: PathSegment[]
+  ): string | undefined {
+    switch (value.kind) {
+      case "date":
+        return String(value.value);
+      case "datetime":
+        // TOML times always have seconds
+        return String(value.value).replace(
+          /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2})(?!:)/,
+          "$1:00"
+        );
+      case "duration":
+      case "bytes":
+        return String(scalarNumber(value, path, this.warn));
+    }
+
+    const data = value.value;
+    if (data === null) {
+      this.warn(path, "TOML has no null, the value was left out");
+      return undefined;
+    }
+    if (typeof data === "number") {
+      if (Number.isNaN(data)) return "nan";
+      if (!Number.isFinite(data)) return data > 0 ? "inf" : "-inf";
+      return String(data);
+    }
+    if (typeof data === "boolean") return String(data);
+    // JSON string escapes are valid in TOML basic strings
+    return JSON.stringify(data);
+  }
+}
+
+/**
+ * Write a Bring object without attributes as a TOML document
+ */
+export function writeTOML(
+  value: { items: Record<string, BringValue> },
+  warn: Warn
+): string {
+  const lines: string[] = [];
+  new TOMLWriter(warn).table(value.items, [], lines);
+  return lines.length > 0 ? `${lines.join("\n")}\n` : "";
+}
@@ -0,0 +1,157 @@
+// src/typegen.ts - TypeScript type generation
+
+/**
+ * TypeScript interfaces generated from `schema` blocks, and typed parsing
+ */
+
+import {
+  BringSchema,
+  BringSchemaRule,
+  BringTypeExpr,
+  ParseOptions,
+  ParseResult,
+  getRuleType,
+  isBringSchema,
+  parse,
+  toObject,
+} from "./index";
+import {
+  BringValidationError,
+  enumValues,
+  getAttribute,
+  validate,
+} from "./validator";
+
+const RULE_TYPES: Record<string, string> = {
+  string: "string",
+  number: "number",
+  boolean: "boolean",
+  object: "Record<string, unknown>",
+  array: "unknown[]",
+  any: "unknown",
+  date: "Date",
+  datetime: "Date",
+  duration: "number",
+  bytes: "number",
+  semver: "string",
+};
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/**
+ * Write an enum value as a literal of the rule's type
+ */
+function literal(value: unknown, type: string): string {
+  if (type === "number" && typeof value === "string") {
+    const number = Number(value);
+    if (value.trim() !== "" && !isNaN(number)) return String(number);
+  }
+  if (type === "boolean" && (value === "true" || value === "false")) {
+    return value;
+  }
+  return JSON.stringify(value);
+}
+
+function tsType(
+  type: BringTypeExpr,
+  names: Set<string>,
+  indent: string
+): string {
+  switch (type.kind) {
+    case "name":
+      return (
+        RULE_TYPES[type.name] ?? (names.has(type.name) ? type.name : "unknown")
+      );
+    case "null":
+      return "null";
+    case "array": {
+      const element = tsType(type.element, names, indent);
+      return type.element.kind === "union" ? `(${element})[]` : `${element}[]`;
+    }
+    case "union":
+      return type.types.map((item) => tsType(item, names, indent)).join(" | ");
+    case "object":
+      return `{\n${fields(type.rules, names, indent)}${indent}}`;
+  }
+}
+
+function ruleType(
+  rule: BringSchemaRule,
+  names: Set<string>,
+  indent: string
+): string {
+  const type = getRuleType(rule);
+  const allowed = getAttribute(rule.attributes, "enum");
+  if (allowed && type.kind === "name") {
+    return enumValues(allowed.value)
+      .map((value) => literal(value, type.name))
+      .join(" | ");
+  }
+  return tsType(type, names, indent);
+}
+
+function fields(
+  rules: BringSchemaRule[],
+  names: Set<string>,
+  indent: string
+): string {
+  return rules
+    .map((rule) => {
+      const key = IDENTIFIER.test(rule.key)
+        ? rule.key
+        : JSON.stringify(rule.key);
+      const required =
+        getAttribute(rule.attributes, "required")?.value === true &&
+        !rule.optional;
+      const type = ruleType(rule, names, `${indent}  `);
+      return `${indent}  ${key}${required ? "" : "?"}: ${type};\n`;
+    })
+    .join("");
+}
+
+/**
+ * Generate a TypeScript interface for every schema in a parse result
+ *
+ * Rule types map to their TypeScript equivalents, with references to other
+ * schemas by interface name and inline objects as nested object types.
+ * `@required=true` fields are non-optional and `@enum` values become literal
+ * unions.
+ */
+export function generateTypes(result: ParseResult): string {
+  const schemas = Object.values(result).filter(isBringSchema);
+  const names = new Set(schemas.map((schema) => schema.name));
+  return schemas
+    .map(
+      (schema) =>
+        `export interface ${schema.name} {\n${fields(schema.rules, names, "")}}\n`
+    )
+    .join("\n");
+}
+
+/**
+ * Parse a document and validate it against a schema, returning plain data
+ *
+ * `schema` is either a schema object or the name of a schema declared in the
+ * document itself. Throws a `BringValidationError` listing every violation.
+ */
+export function parseAs<T>(
+  content: string,
+  schema: string | BringSchema,
+  options: Omit<ParseOptions, "recover"> = {}
+): T {
+  const result = parse(content, options);
+  const resolved =
+    typeof schema === "string" ? result[`schema:${schema}`] : schema;
+
+  if (!isBringSchema(resolved)) {
+    throw new BringValidationError([
+      { path: "", message: `Unknown schema '${schema}'`, rule: "schema" },
+    ]);
+  }
+
+  const report = validate(result, resolved, { schemas: result });
+  if (!report.valid) {
+    throw new BringValidationError(report.errors);
+  }
+  return toObject(result) as T;
+}
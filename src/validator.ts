@@ -0,0 +1,517 @@
+// src/validator.ts - Schema validation
+
+/**
+ * Validation of Bring values against `schema` blocks
+ */
+
+import {
+  BringAttribute,
+  BringObject,
+  BringSchema,
+  BringSchemaRule,
+  BringTypeExpr,
+  BringValue,
+  ParseResult,
+  formatType,
+  getPosition,
+  getRuleType,
+  isBringSchema,
+  isBringValue,
+} from "./index";
+import { SCALAR_KINDS } from "./scalars";
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+  rule: string;
+  line?: number;
+  column?: number;
+}
+
+export interface ValidationResult {
+  valid: boolean;
+  errors: ValidationIssue[];
+}
+
+export interface ValidateOptions {
+  /** Schemas that rule types may refer to by name */
+  schemas?: ParseResult | BringSchema[];
+}
+
+export class BringValidationError extends Error {
+  public errors: ValidationIssue[];
+
+  constructor(errors: ValidationIssue[]) {
+    super(
+      `Validation failed:\n${errors
+        .map((issue) => `  ${issue.path || "(root)"}: ${issue.message}`)
+        .join("\n")}`
+    );
+    this.name = "BringValidationError";
+    this.errors = errors;
+  }
+}
+
+export const FORMATS: Record<string, RegExp> = {
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  datetime:
+    /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/,
+  uri: /^[a-zA-Z][a-zA-Z0-9+.-]*:[^\s]*$/,
+  url: /^https?:\/\/[^\s]+$/,
+  uuid: /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/,
+  ipv4: /^((25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)$/,
+  semver: /^\d+\.\d+\.\d+(-[0-9A-Za-z.-]+)?(\+[0-9A-Za-z.-]+)?$/,
+};
+
+/**
+ * Find an attribute by name; the first one wins when it is repeated
+ */
+export function getAttribute(
+  attributes: BringAttribute[] | undefined,
+  name: string
+): BringAttribute | undefined {
+  return attributes?.find((attr) => attr.name === name);
+}
+
+export const BUILTIN_TYPES = [
+  "string",
+  "number",
+  "boolean",
+  "object",
+  "array",
+  "any",
+  ...SCALAR_KINDS,
+];
+
+function matchesBuiltin(value: BringValue, type: string): boolean {
+  switch (type) {
+    case "string":
+    case "number":
+    case "boolean":
+      return (
+        value.type === "primitive" && !value.kind && typeof value.value === type
+      );
+    case "date":
+    case "datetime":
+    case "duration":
+    case "bytes":
+    case "semver":
+      return value.type === "primitive" && value.kind === type;
+    case "object":
+    case "array":
+      return value.type === type;
+    default:
+      return true;
+  }
+}
+
+function isNull(value: BringValue): boolean {
+  return value.type === "primitive" && value.value === null;
+}
+
+function acceptsNull(type: BringTypeExpr): boolean {
+  return (
+    type.kind === "null" ||
+    (type.kind === "union" && type.types.some(acceptsNull))
+  );
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * The values an `@enum` attribute allows
+ */
+export function enumValues(value: BringAttribute["value"]): unknown[] {
+  if (Array.isArray(value)) {
+    return value;
+  }
+  // Older documents write enums as a "a,b,c" string
+  if (typeof value === "string") {
+    return value.split(",").map((item) => item.trim());
+  }
+  return [value];
+}
+
+class SchemaValidator {
+  private errors: ValidationIssue[] = [];
+
+  constructor(private schemas: Map<string, BringSchema>) {}
+
+  public run(value: BringValue, schema: BringSchema): ValidationResult {
+    this.errors = [];
+    if (!this.schemas.has(schema.name)) {
+      this.schemas.set(schema.name, schema);
+    }
+    if (value.type === "array") {
+      value.items.forEach((item, index) =>
+        this.validateRecord(item, schema, `[${index}]`)
+      );
+      this.checkUnique(value.items, schema, "");
+    } else {
+      this.validateRecord(value, schema, "");
+    }
+    return { valid: this.errors.length === 0, errors: this.errors };
+  }
+
+  private validateRecord(
+    value: BringValue,
+    schema: BringSchema,
+    path: string
+  ): void {
+    if (value.type !== "object") {
+      this.report(
+        value,
+        path,
+        "type",
+        `Expected object matching schema ${schema.name}, got ${describeValue(value)}`
+      );
+      return;
+    }
+    this.validateRules(value, schema.rules, path);
+  }
+
+  private validateRules(
+    value: BringObject,
+    rules: BringSchemaRule[],
+    path: string
+  ): void {
+    for (const rule of rules) {
+      const item = value.items[rule.key];
+      const itemPath = joinPath(path, rule.key);
+
+      if (
+        item === undefined ||
+        (isNull(item) && !acceptsNull(getRuleType(rule)))
+      ) {
+        const required = getAttribute(rule.attributes, "required");
+        if (
+          required?.value === true &&
+          !rule.optional &&
+          !getAttribute(rule.attributes, "default")
+        ) {
+          this.report(
+            item ?? value,
+            itemPath,
+            "required",
+            `Missing required key '${rule.key}'`
+          );
+        }
+        continue;
+      }
+
+      this.validateRule(item, rule, itemPath);
+    }
+  }
+
+  private validateRule(
+    value: BringValue,
+    rule: BringSchemaRule,
+    path: string
+  ): void {
+    if (!this.checkType(value, getRuleType(rule), path)) {
+      return;
+    }
+
+    for (const attr of rule.attributes) {
+      this.checkAttribute(value, attr, path);
+    }
+  }
+
+  /**
+   * Check a value against a type, validating nested records along the way
+   *
+   * Returns whether the value itself has the type; errors inside nested
+   * values are reported separately.
+   */
+  private checkType(
+    value: BringValue,
+    type: BringTypeExpr,
+    path: string
+  ): boolean {
+    switch (type.kind) {
+      case "null":
+        return isNull(value) || this.typeError(value, type, path);
+      case "name": {
+        if (BUILTIN_TYPES.includes(type.name)) {
+          return (
+            matchesBuiltin(value, type.name) ||
+            this.typeError(value, type, path)
+          );
+        }
+        const schema = this.schemas.get(type.name);
+        if (!schema) {
+          this.report(value, path, "type", `Unknown type '${type.name}'`);
+          return false;
+        }
+        if (value.type !== "object") {
+          return this.typeError(value, type, path);
+        }
+        this.validateRules(value, schema.rules, path);
+        return true;
+      }
+      case "array":
+        if (value.type !== "array") {
+          return this.typeError(value, type, path);
+        }
+        value.items.forEach((item, index) =>
+          this.checkType(item, type.element, `${path}[${index}]`)
+        );
+        return true;
+      case "object":
+        if (value.type !== "object") {
+          return this.typeError(value, type, path);
+        }
+        this.validateRules(value, type.rules, path);
+        return true;
+      case "union": {
+        // The first member that matches without errors wins
+        const reported = this.errors.length;
+        for (const member of type.types) {
+          if (
+            this.checkType(value, member, path) &&
+            this.errors.length === reported
+          ) {
+            return true;
+          }
+          this.errors.length = reported;
+        }
+        return this.typeError(value, type, path);
+      }
+    }
+  }
+
+  private typeError(
+    value: BringValue,
+    type: BringTypeExpr,
+    path: string
+  ): false {
+    this.report(
+      value,
+      path,
+      "type",
+      `Expected ${formatType(type)}, got ${describeValue(value)}`
+    );
+    return false;
+  }
+
+  private checkAttribute(
+    value: BringValue,
+    attr: BringAttribute,
+    path: string
+  ): void {
+    const actual = value.type === "primitive" ? value.value : undefined;
+    const length =
+      typeof actual === "string"
+        ? actual.length
+        : value.type === "array"
+          ? value.items.length
+          : undefined;
+
+    switch (attr.name) {
+      case "min":
+        if (typeof actual === "number" && actual < Number(attr.value)) {
+          this.report(
+            value,
+            path,
+            "min",
+            `Value ${actual} is less than ${attr.value}`
+          );
+        }
+        break;
+      case "max":
+        if (typeof actual === "number" && actual > Number(attr.value)) {
+          this.report(
+            value,
+            path,
+            "max",
+            `Value ${actual} is greater than ${attr.value}`
+          );
+        }
+        break;
+      case "minLength":
+        if (length !== undefined && length < Number(attr.value)) {
+          this.report(
+            value,
+            path,
+            "minLength",
+            `Length ${length} is less than ${attr.value}`
+          );
+        }
+        break;
+      case "maxLength":
+        if (length !== undefined && length > Number(attr.value)) {
+          this.report(
+            value,
+            path,
+            "maxLength",
+            `Length ${length} is greater than ${attr.value}`
+          );
+        }
+        break;
+      case "format": {
+        const pattern = FORMATS[String(attr.value)];
+        if (!pattern) {
+          this.report(value, path, "format", `Unknown format '${attr.value}'`);
+        } else if (typeof actual === "string" && !pattern.test(actual)) {
+          this.report(
+            value,
+            path,
+            "format",
+            `Value '${actual}' is not a valid ${attr.value}`
+          );
+        }
+        break;
+      }
+      case "enum": {
+        const allowed = enumValues(attr.value);
+        if (actual !== undefined && !allowed.includes(actual)) {
+          this.report(
+            value,
+            path,
+            "enum",
+            `Value ${JSON.stringify(actual)} is not one of ${allowed
+              .map((item) => JSON.stringify(item))
+              .join(", ")}`
+          );
+        }
+        break;
+      }
+    }
+  }
+
+  private checkUnique(
+    items: BringValue[],
+    schema: BringSchema,
+    path: string
+  ): void {
+    for (const rule of schema.rules) {
+      if (getAttribute(rule.attributes, "unique")?.value !== true) continue;
+
+      const seen = new Map<unknown, number>();
+      items.forEach((item, index) => {
+        if (item.type !== "object") return;
+        const field = item.items[rule.key];
+        if (!field || field.type !== "primitive" || field.value === null) {
+          return;
+        }
+        const first = seen.get(field.value);
+        if (first !== undefined) {
+          this.report(
+            field,
+            joinPath(`${path}[${index}]`, rule.key),
+            "unique",
+            `Duplicate value ${JSON.stringify(field.value)}, first used at ${path}[${first}]`
+          );
+        } else {
+          seen.set(field.value, index);
+        }
+      });
+    }
+  }
+
+  private report(
+    value: BringValue,
+    path: string,
+    rule: string,
+    message: string
+  ): void {
+    const position = getPosition(value);
+    this.errors.push({
+      path,
+      message,
+      rule,
+      line: position?.line,
+      column: position?.column,
+    });
+  }
+}
+
+/**
+ * Name the type of a value for messages: `object`, `array`, a scalar kind,
+ * `null` or the JavaScript type of a primitive
+ */
+export function describeValue(value: BringValue): string {
+  if (value.type !== "primitive") return value.type;
+  if (value.kind) return value.kind;
+  return value.value === null ? "null" : typeof value.value;
+}
+
+/**
+ * Index schemas by name, from a parse result or a list
+ */
+export function schemaMap(
+  schemas: ParseResult | BringSchema[] = []
+): Map<string, BringSchema> {
+  const list = Array.isArray(schemas)
+    ? schemas
+    : Object.values(schemas).filter(isBringSchema);
+  return new Map(list.map((schema) => [schema.name, schema]));
+}
+
+function toBringValue(value: BringValue | ParseResult): BringValue {
+  if (isBringValue(value)) return value;
+  const items: Record<string, BringValue> = {};
+  for (const [key, item] of Object.entries(value)) {
+    if (isBringValue(item)) items[key] = item;
+  }
+  return { type: "object", items };
+}
+
+/**
+ * Validate a Bring value against a schema
+ *
+ * Arrays are validated element by element, and `@unique` rules are checked
+ * across the elements. Rule types naming another schema, such as
+ * `owner = User`, are looked up in `options.schemas`.
+ */
+export function validate(
+  value: BringValue | ParseResult,
+  schema: BringSchema,
+  options: ValidateOptions = {}
+): ValidationResult {
+  return new SchemaValidator(schemaMap(options.schemas)).run(
+    toBringValue(value),
+    schema
+  );
+}
+
+/**
+ * Validate every top-level value bound to a schema with `@schema="Name"`
+ */
+export function validateDocument(result: ParseResult): ValidationResult {
+  const errors: ValidationIssue[] = [];
+
+  for (const [key, value] of Object.entries(result)) {
+    if (!isBringValue(value)) continue;
+    const binding = getAttribute(value.attributes, "schema");
+    if (!binding) continue;
+
+    const schema = result[`schema:${binding.value}`];
+    if (!isBringSchema(schema)) {
+      const position = getPosition(value);
+      errors.push({
+        path: key,
+        message: `Unknown schema '${binding.value}'`,
+        rule: "schema",
+        line: position?.line,
+        column: position?.column,
+      });
+      continue;
+    }
+
+    for (const issue of validate(value, schema, { schemas: result }).errors) {
+      errors.push({
+        ...issue,
+        path:
+          issue.path === "" || issue.path.startsWith("[")
+            ? `${key}${issue.path}`
+            : `${key}.${issue.path}`,
+      });
+    }
+  }
+
+  return { valid: errors.length === 0, errors };
+}
@@ -0,0 +1,490 @@
+// src/xml.ts - XML reading and writing
+
+/**
+ * A self-contained XML reader and writer: keys are elements, list items are
+ * `<item>` elements and Bring attributes are XML attributes
+ */
+
+import {
+  BringAttribute,
+  BringAttributeValue,
+  BringPrimitive,
+  BringValue,
+} from "./index";
+import { BringConvertError, Warn } from "./convert";
+import { PathSegment } from "./path";
+import { matchScalar, scalarError } from "./scalars";
+
+interface XMLElement {
+  name: string;
+  attributes: [string, string][];
+  children: XMLElement[];
+  text: string;
+  /** Written as `<name/>` */
+  selfClosing: boolean;
+}
+
+const ENTITIES: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: '"',
+  apos: "'",
+};
+
+const NAME = /[A-Za-z_:][-A-Za-z0-9_:.]*/y;
+const ELEMENT_NAME = /^[A-Za-z_][-A-Za-z0-9_.]*$/;
+const NUMBER = /^-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?$/;
+
+const ITEM = "item";
+
+class XMLReader {
+  private pos = 0;
+
+  constructor(private text: string) {}
+
+  public document(): XMLElement {
+    this.misc();
+    if (this.text.startsWith("<!DOCTYPE", this.pos)) {
+      const end = this.text.indexOf(">", this.pos);
+      if (end === -1 || this.text.substring(this.pos, end).includes("[")) {
+        throw this.error("Document type declarations are not supported");
+      }
+      this.pos = end + 1;
+      this.misc();
+    }
+    if (this.peek() !== "<") {
+      throw this.error("Expected the document element");
+    }
+    const root = this.element();
+    this.misc();
+    if (this.pos < this.text.length) {
+      throw this.error("Unexpected content after the document element");
+    }
+    return root;
+  }
+
+  /**
+   * Skip whitespace, comments and processing instructions
+   */
+  private misc(): void {
+    for (;;) {
+      while (/\s/.test(this.peek())) this.pos += 1;
+      if (this.text.startsWith("<!--", this.pos)) {
+        this.skipPast("-->", "comment");
+      } else if (this.text.startsWith("<?", this.pos)) {
+        this.skipPast("?>", "processing instruction");
+      } else {
+        return;
+      }
+    }
+  }
+
+  private element(): XMLElement {
+    this.pos += 1; // '<'
+    const name = this.name();
+    const attributes: [string, string][] = [];
+
+    for (;;) {
+      const spaced = this.skipSpace();
+      if (this.text.startsWith("/>", this.pos)) {
+        this.pos += 2;
+        return { name, attributes, children: [], text: "", selfClosing: true };
+      }
+      if (this.peek() === ">") {
+        this.pos += 1;
+        break;
+      }
+      if (!spaced) {
+        throw this.error("Expected whitespace between attributes");
+      }
+      const attrName = this.name();
+      this.skipSpace();
+      if (this.peek() !== "=") {
+        throw this.error(`Expected '=' after attribute '${attrName}'`);
+      }
+      this.pos += 1;
+      this.skipSpace();
+      if (attributes.some(([existing]) => existing === attrName)) {
+        throw this.error(`Duplicate attribute '${attrName}'`);
+      }
+      attributes.push([attrName, this.attributeValue()]);
+    }
+
+    const element: XMLElement = {
+      name,
+      attributes,
+      children: [],
+      text: "",
+      selfClosing: false,
+    };
+    for (;;) {
+      if (this.pos >= this.text.length) {
+        throw this.error(`Unclosed element <${name}>`);
+      }
+      if (this.text.startsWith("</", this.pos)) {
+        this.pos += 2;
+        const closing = this.name();
+        if (closing !== name) {
+          throw this.error(`Expected </${name}>, found </${closing}>`);
+        }
+        this.skipSpace();
+        this.expect(">");
+        return element;
+      }
+      if (this.text.startsWith("<!--", this.pos)) {
+        this.skipPast("-->", "comment");
+      } else if (this.text.startsWith("<![CDATA[", this.pos)) {
+        const start = this.pos + 9;
+        this.skipPast("]]>", "CDATA section");
+        element.text += this.text.substring(start, this.pos - 3);
+      } else if (this.text.startsWith("<?", this.pos)) {
+        this.skipPast("?>", "processing instruction");
+      } else if (this.peek() === "<") {
+        element.children.push(this.element());
+      } else {
+        element.text += this.characters("<");
+      }
+    }
+  }
+
+  private attributeValue(): string {
+    const quote = this.peek();
+    if (quote !== '"' && quote !== "'") {
+      throw this.error("Attribute values must be quoted");
+    }
+    this.pos += 1;
+    const value = this.characters(quote);
+    this.expect(quote);
+    // Whitespace in attribute values is normalized to spaces
+    return value.replace(/[\t\n]/g, " ");
+  }
+
+  /**
+   * Text up to a delimiter, with entity and character references decoded
+   */
+  private characters(delimiter: string): string {
+    let value = "";
+    while (this.pos < this.text.length && this.peek() !== delimiter) {
+      if (this.peek() === "<") {
+        throw this.error("Unexpected '<'");
+      }
+      if (this.peek() === "&") {
+        value += this.reference();
+      } else {
+        value += this.peek();
+        this.pos += 1;
+      }
+    }
+    return value;
+  }
+
+  private reference(): string {
+    const end = this.text.indexOf(";", this.pos);
+    const name = end === -1 ? "" : this.text.substring(this.pos + 1, end);
+    let value: string | undefined;
+    const code = /^#x[0-9a-fA-F]+$/.test(name)
+      ? parseInt(name.slice(2), 16)
+      : /^#\d+$/.test(name)
+        ? parseInt(name.slice(1), 10)
+        : undefined;
+    if (code !== undefined && code > 0 && code <= 0x10ffff) {
+      value = String.fromCodePoint(code);
+    } else if (Object.prototype.hasOwnProperty.call(ENTITIES, name)) {
+      value = ENTITIES[name];
+    }
+    if (value === undefined) {
+      throw this.error(`Unknown entity '&${name};'`);
+    }
+    this.pos = end + 1;
+    return value;
+  }
+
+  private name(): string {
+    NAME.lastIndex = this.pos;
+    const match = NAME.exec(this.text);
+    if (!match) {
+      throw this.error("Expected a name");
+    }
+    this.pos += match[0].length;
+    return match[0];
+  }
+
+  private skipSpace(): boolean {
+    const start = this.pos;
+    while (/\s/.test(this.peek())) this.pos += 1;
+    return this.pos > start;
+  }
+
+  private skipPast(end: string, what: string): void {
+    const index = this.text.indexOf(end, this.pos);
+    if (index === -1) {
+      throw this.error(`Unterminated ${what}`);
+    }
+    this.pos = index + end.length;
+  }
+
+  private expect(char: string): void {
+    if (this.peek() !== char) {
+      throw this.error(`Expected '${char}'`);
+    }
+    this.pos += 1;
+  }
+
+  private peek(): string {
+    return this.text.charAt(this.pos);
+  }
+
+  private error(message: string): BringConvertError {
+    const before = this.text.substring(0, this.pos);
+    const line = before.split("\n").length;
+    return new BringConvertError(
+      message,
+      "xml",
+      line,
+      this.pos - before.lastIndexOf("\n")
+    );
+  }
+}
+
+/**
+ * Read text the way Bring reads an unquoted literal: numbers, booleans and
+ * typed scalars; anything else is a string
+ */
+function readText(text: string): BringPrimitive {
+  if (text === "true" || text === "false") {
+    return { type: "primitive", value: text === "true" };
+  }
+  if (NUMBER.test(text)) {
+    return { type: "primitive", value: Number(text) };
+  }
+  const scalar = matchScalar(text, 0);
+  if (
+    scalar &&
+    scalar.text === text &&
+    !scalarError(scalar.kind, scalar.text)
+  ) {
+    return { type: "primitive", value: text, kind: scalar.kind };
+  }
+  return { type: "primitive", value: text };
+}
+
+function elementValue(
+  element: XMLElement,
+  path: PathSegment[],
+  warn: Warn
+): BringValue {
+  let value: BringValue;
+  if (element.children.length === 0) {
+    value = element.selfClosing
+      ? { type: "primitive", value: null }
+      : readText(element.text);
+  } else {
+    if (element.text.trim() !== "") {
+      warn(path, "Text next to child elements was left out");
+    }
+    if (element.children.every((child) => child.name === ITEM)) {
+      value = {
+        type: "array",
+        items: element.children.map((child, index) =>
+          elementValue(child, [...path, index], warn)
+        ),
+      };
+    } else {
+      // Repeated elements collect into a list
+      const items: Record<string, BringValue> = {};
+      const repeated = new Set<string>();
+      for (const child of element.children) {
+        const existing = items[child.name];
+        if (existing === undefined) {
+          items[child.name] = elementValue(child, [...path, child.name], warn);
+          continue;
+        }
+        if (!repeated.has(child.name)) {
+          items[child.name] = { type: "array", items: [existing] };
+          repeated.add(child.name);
+        }
+        const list = items[child.name] as { items: BringValue[] };
+        list.items.push(
+          elementValue(child, [...path, child.name, list.items.length], warn)
+        );
+      }
+      value = { type: "object", items };
+    }
+  }
+
+  if (element.attributes.length > 0) {
+    value.attributes = element.attributes.map(([name, text]) => {
+      const read = readText(text);
+      return { name, value: read.kind ? text : read.value };
+    });
+  }
+  return value;
+}
+
+/**
+ * Read an XML document as the value of its document element
+ */
+export function readXML(text: string, warn: Warn): BringValue {
+  const source = text.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+  const root = new XMLReader(source).document();
+  if (root.attributes.length > 0) {
+    warn([], `Attributes of the document element <${root.name}> were left out`);
+    root.attributes = [];
+  }
+  if (root.children.length === 0 && root.text.trim() === "") {
+    return { type: "object", items: {} };
+  }
+  return elementValue(root, [], warn);
+}
+
+function escapeText(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/\r/g, "&#13;");
+}
+
+function escapeAttribute(text: string): string {
+  return escapeText(text)
+    .replace(/"/g, "&quot;")
+    .replace(/\n/g, "&#10;")
+    .replace(/\t/g, "&#9;");
+}
+
+function formatNumber(value: number): string {
+  if (Number.isNaN(value)) return "nan";
+  if (!Number.isFinite(value)) return value > 0 ? "inf" : "-inf";
+  return String(value);
+}
+
+class XMLWriter {
+  constructor(private warn: Warn) {}
+
+  public element(
+    name: string,
+    value: BringValue,
+    indent: string,
+    path: PathSegment[],
+    lines: string[]
+  ): void {
+    const open = `${indent}<${name}${this.attributes(value.attributes, path)}`;
+
+    if (value.type === "primitive") {
+      if (value.value === null) {
+        lines.push(`${open}/>`);
+        return;
+      }
+      const text = this.text(value, path);
+      lines.push(`${open}>${escapeText(text)}</${name}>`);
+      return;
+    }
+
+    const children: [string, BringValue, PathSegment][] =
+      value.type === "array"
+        ? value.items.map((item, index) => [ITEM, item, index])
+        : Object.entries(value.items).map(([key, item]) => [
+            this.name(key, [...path, key]),
+            item,
+            key,
+          ]);
+    if (children.length === 0) {
+      this.warn(
+        path,
+        `Empty ${value.type === "array" ? "list" : "object"} will read back as an empty string`
+      );
+      lines.push(`${open}></${name}>`);
+      return;
+    }
+    if (
+      value.type === "object" &&
+      children.every(([childName]) => childName === ITEM)
+    ) {
+      this.warn(
+        path,
+        "An object with only 'item' keys will read back as a list"
+      );
+    }
+
+    lines.push(`${open}>`);
+    for (const [childName, item, segment] of children) {
+      this.element(childName, item, `${indent}  `, [...path, segment], lines);
+    }
+    lines.push(`${indent}</${name}>`);
+  }
+
+  /**
+   * The text of a scalar, reporting values that would read back as
+   * something else
+   */
+  private text(value: BringPrimitive, path: PathSegment[]): string {
+    const data = value.value;
+    const text = typeof data === "number" ? formatNumber(data) : String(data);
+    const read = readText(text);
+    const same =
+      read.kind === value.kind &&
+      (Object.is(read.value, data) || read.kind !== undefined);
+    if (!same) {
+      this.warn(
+        path,
+        `${JSON.stringify(text)} will read back as ${read.kind ?? typeof read.value}`
+      );
+    }
+    return text;
+  }
+
+  private attributes(
+    attributes: BringAttribute[] | undefined,
+    path: PathSegment[]
+  ): string {
+    return (attributes ?? [])
+      .map(({ name, value }) => {
+        const text = this.attributeText(value, [...path, `@${name}`]);
+        return text === undefined
+          ? ""
+          : ` ${this.name(name, path)}="${escapeAttribute(text)}"`;
+      })
+      .join("");
+  }
+
+  private attributeText(
+    value: BringAttributeValue,
+    path: PathSegment[]
+  ): string | undefined {
+    if (value === null) {
+      this.warn(
+        path,
+        "XML attributes cannot be null, the attribute was left out"
+      );
+      return undefined;
+    }
+    if (typeof value === "object") {
+      this.warn(path, "Structured attribute value was written as JSON text");
+      return JSON.stringify(value);
+    }
+    return typeof value === "number" ? formatNumber(value) : String(value);
+  }
+
+  /**
+   * Keys that are not XML names have their other characters replaced
+   */
+  private name(key: string, path: PathSegment[]): string {
+    if (ELEMENT_NAME.test(key) && !/^xml/i.test(key)) {
+      return key;
+    }
+    let name = key.replace(/[^-A-Za-z0-9_.]/g, "_");
+    if (!/^[A-Za-z_]/.test(name) || /^xml/i.test(name)) name = `_${name}`;
+    this.warn(path, `Key '${key}' was written as <${name}>`);
+    return name;
+  }
+}
+
+/**
+ * Write a Bring value as an XML document with the given document element
+ */
+export function writeXML(value: BringValue, root: string, warn: Warn): string {
+  const lines = ['<?xml version="1.0" encoding="UTF-8"?>'];
+  new XMLWriter(warn).element(root, value, "", [], lines);
+  return `${lines.join("\n")}\n`;
+}
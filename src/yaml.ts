@@ -0,0 +1,836 @@
+// src/yaml.ts - YAML reading and writing
+
+/**
+ * A self-contained YAML reader and writer covering what configuration files
+ * use: block and flow collections, plain, quoted and block scalars, anchors,
+ * aliases and merge keys
+ */
+
+import { BringPrimitive, BringValue } from "./index";
+import { BringConvertError, Warn, scalarNumber } from "./convert";
+import { PathSegment } from "./path";
+import { SCALAR_PATTERNS, scalarError } from "./scalars";
+
+// Plain scalars YAML would read as something other than a string
+const YAML_RESERVED = /^(?:true|false|yes|no|on|off|null|~)$/i;
+const YAML_PLAIN = /^[A-Za-z_][A-Za-z0-9_ ./@-]*$/;
+
+const ESCAPES: Record<string, string> = {
+  "0": "\0",
+  a: "\x07",
+  b: "\b",
+  t: "\t",
+  "\t": "\t",
+  n: "\n",
+  v: "\v",
+  f: "\f",
+  r: "\r",
+  e: "\x1b",
+  " ": " ",
+  '"': '"',
+  "/": "/",
+  "\\": "\\",
+  N: "\x85",
+  _: "\xa0",
+  L: "\u2028",
+  P: "\u2029",
+};
+
+const HEX_ESCAPES: Record<string, number> = { x: 2, u: 4, U: 8 };
+
+// Tags that only restate what the value already is
+const CORE_TAGS = [
+  "!!str",
+  "!!int",
+  "!!float",
+  "!!bool",
+  "!!null",
+  "!!map",
+  "!!seq",
+  "!!timestamp",
+];
+
+function primitive(value: string | number | boolean | null): BringPrimitive {
+  return { type: "primitive", value };
+}
+
+function cloneValue(value: BringValue): BringValue {
+  switch (value.type) {
+    case "primitive":
+      return { ...value };
+    case "array":
+      return { type: "array", items: value.items.map(cloneValue) };
+    case "object": {
+      const items: Record<string, BringValue> = {};
+      for (const [key, item] of Object.entries(value.items)) {
+        items[key] = cloneValue(item);
+      }
+      return { type: "object", items };
+    }
+  }
+}
+
+/**
+ * Resolve a plain scalar the way the YAML 1.2 core schema does, reading
+ * timestamps as Bring dates
+ */
+function resolvePlain(text: string): BringPrimitive {
+  if (/^(?:~|null|Null|NULL)?$/.test(text)) return primitive(null);
+  if (/^(?:true|True|TRUE)$/.test(text)) return primitive(true);
+  if (/^(?:false|False|FALSE)$/.test(text)) return primitive(false);
+  if (/^[-+]?\d+$/.test(text)) return primitive(Number(text));
+  if (/^0o[0-7]+$/.test(text)) return primitive(parseInt(text.slice(2), 8));
+  if (/^0x[0-9a-fA-F]+$/.test(text)) {
+    return primitive(parseInt(text.slice(2), 16));
+  }
+  if (/^[-+]?(?:\.\d+|\d+(?:\.\d*)?)(?:[eE][-+]?\d+)?$/.test(text)) {
+    return primitive(Number(text));
+  }
+  if (/^[-+]?\.(?:inf|Inf|INF)$/.test(text)) {
+    return primitive(text.startsWith("-") ? -Infinity : Infinity);
+  }
+  if (/^\.(?:nan|NaN|NAN)$/.test(text)) return primitive(NaN);
+
+  for (const kind of ["datetime", "date"] as const) {
+    const pattern = SCALAR_PATTERNS[kind];
+    pattern.lastIndex = 0;
+    const match = pattern.exec(text);
+    if (match && match[0] === text && !scalarError(kind, text)) {
+      return { type: "primitive", value: text, kind };
+    }
+  }
+  return primitive(text);
+}
+
+class YAMLReader {
+  private pos = 0;
+  private line = 1;
+  private lineStart = 0;
+  private anchors = new Map<string, BringValue>();
+
+  constructor(
+    private text: string,
+    private warn: Warn
+  ) {}
+
+  public document(): BringValue {
+    this.skipBlankLines();
+    while (this.peek() === "%" && this.column() === 0) {
+      this.skipLine();
+      this.skipBlankLines();
+    }
+    if (this.atMarker("---")) {
+      this.pos += 3;
+    }
+
+    const value = this.blockNode(-1, [], false);
+    this.skipBlankLines();
+    if (this.atMarker("...")) {
+      this.pos += 3;
+      this.skipBlankLines();
+    }
+    if (this.atMarker("---")) {
+      throw this.error("Multiple documents are not supported");
+    }
+    if (!this.isEof()) {
+      throw this.error(`Unexpected '${this.peek()}'`);
+    }
+    return value;
+  }
+
+  /**
+   * Parse the value after a `key:` or `-`, on the same line or on the more
+   * indented lines below it
+   */
+  private blockNode(
+    indent: number,
+    path: PathSegment[],
+    sequenceAtIndent: boolean
+  ): BringValue {
+    this.skipSpaces();
+    const { anchor, tag } = this.properties();
+
+    let value: BringValue;
+    if (this.atLineEnd()) {
+      this.skipBlankLines();
+      const column = this.column();
+      const nested =
+        !this.isEof() &&
+        !this.atMarker("---") &&
+        !this.atMarker("...") &&
+        (column > indent ||
+          (column === indent && sequenceAtIndent && this.atSequenceEntry()));
+      value = nested
+        ? this.blockContent(column, indent, path, tag)
+        : this.tagged(primitive(null), "", tag, path);
+    } else {
+      value = this.inlineNode(indent, path, tag, true);
+    }
+
+    if (anchor !== undefined) this.anchors.set(anchor, value);
+    return value;
+  }
+
+  /**
+   * Parse a node that starts a line at `column`
+   */
+  private blockContent(
+    column: number,
+    indent: number,
+    path: PathSegment[],
+    tag: string | undefined
+  ): BringValue {
+    if (this.atSequenceEntry()) return this.sequence(column, path);
+    if (this.atMappingKey()) return this.mapping(column, path);
+    return this.inlineNode(indent, path, tag, false);
+  }
+
+  /**
+   * Parse a node that starts in the middle of a line
+   */
+  private inlineNode(
+    indent: number,
+    path: PathSegment[],
+    tag: string | undefined,
+    compact: boolean
+  ): BringValue {
+    const char = this.peek();
+    if (compact && this.atSequenceEntry()) {
+      return this.sequence(this.column(), path);
+    }
+    if (compact && this.atMappingKey()) {
+      return this.mapping(this.column(), path);
+    }
+
+    let value: BringValue;
+    if (char === "*") {
+      value = this.alias();
+    } else if (char === "|" || char === ">") {
+      return this.tagged(primitive(this.blockScalar(indent)), null, tag, path);
+    } else if (char === "[" || char === "{") {
+      value = this.flow(path);
+    } else if (char === '"' || char === "'") {
+      value = this.tagged(primitive(this.quoted()), null, tag, path);
+    } else if (char === "?") {
+      throw this.error("Complex mapping keys are not supported");
+    } else {
+      const text = this.plainScalar(indent);
+      value = this.tagged(resolvePlain(text), text, tag, path);
+    }
+    this.endLine();
+    return value;
+  }
+
+  private mapping(column: number, path: PathSegment[]): BringValue {
+    const items: Record<string, BringValue> = {};
+    const merges: BringValue[] = [];
+
+    for (;;) {
+      if (!this.atMappingKey()) {
+        throw this.error("Expected a mapping key");
+      }
+      const key = this.mappingKey();
+      if (key === "<<") {
+        merges.push(this.blockNode(column, path, true));
+      } else {
+        if (Object.prototype.hasOwnProperty.call(items, key)) {
+          this.warn(
+            [...path, key],
+            `Duplicate key '${key}', keeping the last value`
+          );
+        }
+        items[key] = this.blockNode(column, [...path, key], true);
+      }
+
+      this.skipBlankLines();
+      if (this.isEof() || this.atMarker("---") || this.atMarker("...")) break;
+      if (this.column() < column) break;
+      if (this.column() > column) {
+        throw this.error("Bad indentation of a mapping entry");
+      }
+    }
+
+    // Keys written in the mapping win over merged ones
+    for (const merge of merges) {
+      const sources = merge.type === "array" ? merge.items : [merge];
+      for (const source of sources) {
+        if (source.type !== "object") {
+          throw this.error("Merge keys ('<<') must refer to mappings");
+        }
+        for (const [key, item] of Object.entries(source.items)) {
+          if (!Object.prototype.hasOwnProperty.call(items, key)) {
+            items[key] = cloneValue(item);
+          }
+        }
+      }
+    }
+    return { type: "object", items };
+  }
+
+  private sequence(column: number, path: PathSegment[]): BringValue {
+    const items: BringValue[] = [];
+    for (;;) {
+      this.pos += 1;
+      items.push(this.blockNode(column, [...path, items.length], false));
+
+      this.skipBlankLines();
+      if (this.isEof() || this.atMarker("---") || this.atMarker("...")) break;
+      if (this.column() !== column || !this.atSequenceEntry()) {
+        if (this.column() > column) {
+          throw this.error("Bad indentation of a sequence entry");
+        }
+        break;
+      }
+    }
+    return { type: "array", items };
+  }
+
+  private flow(path: PathSegment[]): BringValue {
+    const open = this.peek();
+    const close = open === "[" ? "]" : "}";
+    const items: Record<string, BringValue> = {};
+    const list: BringValue[] = [];
+    this.pos += 1;
+
+    for (;;) {
+      this.skipFlowSpace();
+      if (this.isEof()) {
+        throw this.error(`Expected '${close}'`);
+      }
+      if (this.peek() === close) {
+        this.pos += 1;
+        break;
+      }
+
+      if (open === "{") {
+        const key =
+          this.peek() === '"' || this.peek() === "'"
+            ? this.quoted()
+            : this.plainLine(true);
+        this.skipFlowSpace();
+        let value: BringValue = primitive(null);
+        if (this.peek() === ":") {
+          this.pos += 1;
+          value = this.flowNode([...path, key]);
+        }
+        items[key] = value;
+      } else {
+        list.push(this.flowNode([...path, list.length]));
+      }
+
+      this.skipFlowSpace();
+      if (this.peek() === ",") {
+        this.pos += 1;
+      } else if (this.peek() !== close) {
+        throw this.error(`Expected ',' or '${close}'`);
+      }
+    }
+    return open === "["
+      ? { type: "array", items: list }
+      : { type: "object", items };
+  }
+
+  private flowNode(path: PathSegment[]): BringValue {
+    this.skipFlowSpace();
+    const { anchor, tag } = this.properties();
+    this.skipFlowSpace();
+
+    let value: BringValue;
+    const char = this.peek();
+    if (char === "*") {
+      value = this.alias();
+    } else if (char === "[" || char === "{") {
+      value = this.flow(path);
+    } else if (char === '"' || char === "'") {
+      value = this.tagged(primitive(this.quoted()), null, tag, path);
+    } else {
+      const text = this.plainLine(true);
+      value = this.tagged(resolvePlain(text), text, tag, path);
+    }
+
+    if (anchor !== undefined) this.anchors.set(anchor, value);
+    return value;
+  }
+
+  /**
+   * Read `&anchor` and `!tag` properties in either order
+   */
+  private properties(): { anchor?: string; tag?: string } {
+    let anchor: string | undefined;
+    let tag: string | undefined;
+    for (;;) {
+      if (this.peek() === "&" && anchor === undefined) {
+        this.pos += 1;
+        anchor = this.name();
+      } else if (this.peek() === "!" && tag === undefined) {
+        tag = this.name();
+      } else {
+        return { anchor, tag };
+      }
+      this.skipSpaces();
+    }
+  }
+
+  /**
+   * Apply a tag to a scalar; `!!str` keeps the text as written
+   */
+  private tagged(
+    value: BringValue,
+    text: string | null,
+    tag: string | undefined,
+    path: PathSegment[]
+  ): BringValue {
+    if (tag === undefined) return value;
+    if (tag === "!!str" && text !== null) return primitive(text);
+    if (!CORE_TAGS.includes(tag)) {
+      this.warn(path, `Tag '${tag}' is not supported and was ignored`);
+    }
+    return value;
+  }
+
+  private alias(): BringValue {
+    this.pos += 1;
+    const name = this.name();
+    const value = this.anchors.get(name);
+    if (!value) {
+      throw this.error(`Unknown alias '*${name}'`);
+    }
+    return cloneValue(value);
+  }
+
+  private name(): string {
+    const start = this.pos;
+    while (!this.isEof() && !/[\s,[\]{}]/.test(this.peek())) this.pos += 1;
+    if (this.pos === start) {
+      throw this.error("Expected a name");
+    }
+    return this.text.substring(start, this.pos);
+  }
+
+  private mappingKey(): string {
+    const key =
+      this.peek() === '"' || this.peek() === "'"
+        ? this.quoted()
+        : this.plainLine(false);
+    this.skipSpaces();
+    this.pos += 1; // ':'
+    return key;
+  }
+
+  /**
+   * A plain scalar, folding the more indented lines that continue it
+   */
+  private plainScalar(indent: number): string {
+    let text = this.plainLine(false);
+    for (;;) {
+      const mark = this.mark();
+      this.skipSpaces();
+      if (this.peek() !== "\n") {
+        this.reset(mark);
+        return text;
+      }
+
+      let breaks = 0;
+      while (this.peek() === "\n") {
+        this.newline();
+        breaks += 1;
+        this.skipSpaces();
+      }
+      if (
+        this.isEof() ||
+        this.column() <= indent ||
+        this.peek() === "#" ||
+        this.atMarker("---") ||
+        this.atMarker("...")
+      ) {
+        this.reset(mark);
+        return text;
+      }
+      text += breaks > 1 ? "\n".repeat(breaks - 1) : " ";
+      text += this.plainLine(false);
+    }
+  }
+
+  /**
+   * The rest of a plain scalar on the current line
+   */
+  private plainLine(flow: boolean): string {
+    const start = this.pos;
+    while (!this.isEof()) {
+      const char = this.peek();
+      const next = this.peek(1);
+      if (char === "\n") break;
+      if (char === "#" && /[ \t]/.test(this.text[this.pos - 1])) break;
+      if (char === ":" && (next === "" || /[\s]/.test(next))) break;
+      if (flow && /[,[\]{}]/.test(char)) break;
+      if (flow && char === ":" && /[,[\]{}]/.test(next)) break;
+      this.pos += 1;
+    }
+    return this.text.substring(start, this.pos).trim();
+  }
+
+  private quoted(): string {
+    const quote = this.peek();
+    this.pos += 1;
+    let value = "";
+
+    for (;;) {
+      if (this.isEof()) {
+        throw this.error("Unterminated quoted string");
+      }
+      const char = this.peek();
+      if (char === quote) {
+        if (quote === "'" && this.peek(1) === "'") {
+          value += "'";
+          this.pos += 2;
+          continue;
+        }
+        this.pos += 1;
+        return value;
+      }
+      if (char === "\n") {
+        // Line breaks fold to a space, or to newlines for blank lines
+        value = value.replace(/[ \t]+$/, "");
+        let breaks = 0;
+        while (this.peek() === "\n") {
+          this.newline();
+          breaks += 1;
+          this.skipSpaces();
+        }
+        value += breaks > 1 ? "\n".repeat(breaks - 1) : " ";
+        continue;
+      }
+      if (char === "\\" && quote === '"') {
+        value += this.escape();
+        continue;
+      }
+      value += char;
+      this.pos += 1;
+    }
+  }
+
+  private escape(): string {
+    this.pos += 1;
+    const char = this.peek();
+    if (char === "\n") {
+      // An escaped line break joins the lines without a space
+      this.newline();
+      this.skipSpaces();
+      return "";
+    }
+    if (char in HEX_ESCAPES) {
+      const length = HEX_ESCAPES[char];
+      const digits = this.text.substring(this.pos + 1, this.pos + 1 + length);
+      if (!/^[0-9a-fA-F]+$/.test(digits) || digits.length < length) {
+        throw this.error(`Invalid escape '\\${char}${digits}'`);
+      }
+      this.pos += 1 + digits.length;
+      return String.fromCodePoint(parseInt(digits, 16));
+    }
+    if (!(char in ESCAPES)) {
+      throw this.error(`Invalid escape '\\${char}'`);
+    }
+    this.pos += 1;
+    return ESCAPES[char];
+  }
+
+  /**
+   * A `|` literal or `>` folded block scalar
+   */
+  private blockScalar(indent: number): string {
+    const folded = this.peek() === ">";
+    this.pos += 1;
+    let chomp = "clip";
+    let explicit = 0;
+    for (let i = 0; i < 2; i++) {
+      if (this.peek() === "-" || this.peek() === "+") {
+        chomp = this.peek() === "-" ? "strip" : "keep";
+        this.pos += 1;
+      } else if (/[1-9]/.test(this.peek())) {
+        explicit = Number(this.peek());
+        this.pos += 1;
+      }
+    }
+    this.endLine();
+    if (this.peek() === "\n") this.newline();
+
+    let contentIndent = explicit > 0 ? Math.max(indent, 0) + explicit : -1;
+    const lines: string[] = [];
+    while (!this.isEof()) {
+      const end = this.lineEnd();
+      const line = this.text.substring(this.pos, end);
+      const lineIndent = line.length - line.trimStart().length;
+      if (line.trim() === "") {
+        lines.push("");
+      } else {
+        if (contentIndent === -1) contentIndent = lineIndent;
+        if (lineIndent < contentIndent || lineIndent <= indent) break;
+        lines.push(line.substring(contentIndent));
+      }
+      this.pos = end;
+      if (this.peek() === "\n") this.newline();
+    }
+
+    let trailing = 0;
+    while (lines.length > 0 && lines[lines.length - 1] === "") {
+      lines.pop();
+      trailing += 1;
+    }
+    const body = folded ? this.fold(lines) : lines.join("\n");
+    if (chomp === "strip" || body === "") {
+      return chomp === "keep" ? "\n".repeat(trailing) : body;
+    }
+    return chomp === "keep" ? `${body}\n${"\n".repeat(trailing)}` : `${body}\n`;
+  }
+
+  /**
+   * Join folded lines with spaces; blank and more indented lines keep
+   * their line breaks
+   */
+  private fold(lines: string[]): string {
+    let text = "";
+    let blanks = 0;
+    let started = false;
+    let previousIndented = false;
+    for (const line of lines) {
+      if (line === "") {
+        blanks += 1;
+        continue;
+      }
+      const indented = /^[ \t]/.test(line);
+      if (!started) {
+        text += "\n".repeat(blanks);
+      } else if (indented || previousIndented) {
+        text += "\n".repeat(blanks + 1);
+      } else {
+        text += blanks > 0 ? "\n".repeat(blanks) : " ";
+      }
+      text += line;
+      started = true;
+      previousIndented = indented;
+      blanks = 0;
+    }
+    return text;
+  }
+
+  private atMappingKey(): boolean {
+    const char = this.peek();
+    const end = this.lineEnd();
+    if (char === '"' || char === "'") {
+      const mark = this.mark();
+      try {
+        this.quoted();
+        this.skipSpaces();
+        return (
+          this.line === mark.line &&
+          this.peek() === ":" &&
+          /^(?:\s|$)/.test(this.peek(1))
+        );
+      } catch {
+        return false;
+      } finally {
+        this.reset(mark);
+      }
+    }
+    if (/[[\]{}|>*!&#%@`,]/.test(char)) return false;
+
+    for (let i = this.pos; i < end; i++) {
+      const current = this.text[i];
+      if (current === "#" && /[ \t]/.test(this.text[i - 1])) return false;
+      if (
+        current === ":" &&
+        (i + 1 === end || /[ \t]/.test(this.text[i + 1]))
+      ) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private atSequenceEntry(): boolean {
+    return this.peek() === "-" && /^(?:\s|$)/.test(this.peek(1));
+  }
+
+  private atMarker(marker: string): boolean {
+    return (
+      this.column() === 0 &&
+      this.text.startsWith(marker, this.pos) &&
+      /^(?:\s|$)/.test(this.text.charAt(this.pos + marker.length))
+    );
+  }
+
+  private atLineEnd(): boolean {
+    return this.isEof() || this.peek() === "\n" || this.peek() === "#";
+  }
+
+  /**
+   * Only a comment may follow a value on its line
+   */
+  private endLine(): void {
+    this.skipSpaces();
+    if (this.peek() === "#") this.skipLine();
+    if (!this.isEof() && this.peek() !== "\n") {
+      throw this.error(`Unexpected '${this.peek()}'`);
+    }
+  }
+
+  private skipSpaces(): void {
+    while (this.peek() === " " || this.peek() === "\t") this.pos += 1;
+  }
+
+  private skipLine(): void {
+    this.pos = this.lineEnd();
+  }
+
+  /**
+   * Move to the first content of the next line that is not blank or a comment
+   */
+  private skipBlankLines(): void {
+    for (;;) {
+      this.skipSpaces();
+      if (this.peek() === "#") this.skipLine();
+      if (this.peek() !== "\n") return;
+      this.newline();
+    }
+  }
+
+  private skipFlowSpace(): void {
+    for (;;) {
+      this.skipSpaces();
+      if (this.peek() === "#") this.skipLine();
+      if (this.peek() !== "\n") return;
+      this.newline();
+    }
+  }
+
+  private newline(): void {
+    this.pos += 1;
+    this.line += 1;
+    this.lineStart = this.pos;
+  }
+
+  private lineEnd(): number {
+    const end = this.text.indexOf("\n", this.pos);
+    return end === -1 ? this.text.length : end;
+  }
+
+  private column(): number {
+    return this.pos - this.lineStart;
+  }
+
+  private mark(): { pos: number; line: number; lineStart: number } {
+    return { pos: this.pos, line: this.line, lineStart: this.lineStart };
+  }
+
+  private reset(mark: { pos: number; line: number; lineStart: number }): void {
+    this.pos = mark.pos;
+    this.line = mark.line;
+    this.lineStart = mark.lineStart;
+  }
+
+  private peek(offset: number = 0): string {
+    return this.text.charAt(this.pos + offset);
+  }
+
+  private isEof(): boolean {
+    return this.pos >= this.text.length;
+  }
+
+  private error(message: string): BringConvertError {
+    return new BringConvertError(message, "yaml", this.line, this.column() + 1);
+  }
+}
+
+/**
+ * Read a YAML document as a Bring value; an empty document is `null`
+ */
+export function readYAML(text: string, warn: Warn): BringValue {
+  const source = text.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+  return new YAMLReader(source, warn).document();
+}
+
+function yamlString(value: string): string {
+  if (
+    YAML_PLAIN.test(value) &&
+    !YAML_RESERVED.test(value) &&
+    !value.endsWith(" ")
+  ) {
+    return value;
+  }
+  // Double-quoted YAML accepts JSON string escapes
+  return JSON.stringify(value);
+}
+
+function yamlScalar(value: BringPrimitive, path: PathSegment[], warn: Warn) {
+  if (value.kind === "date" || value.kind === "datetime") {
+    return String(value.value);
+  }
+  if (value.kind === "duration" || value.kind === "bytes") {
+    return String(scalarNumber(value, path, warn));
+  }
+
+  const data = value.value;
+  if (data === null) return "null";
+  if (typeof data === "number") {
+    if (Number.isNaN(data)) return ".nan";
+    if (!Number.isFinite(data)) return data > 0 ? ".inf" : "-.inf";
+    return String(data);
+  }
+  if (typeof data === "boolean") return String(data);
+  return yamlString(data);
+}
+
+function isEmpty(value: BringValue): boolean {
+  return value.type === "array"
+    ? value.items.length === 0
+    : value.type === "object" && Object.keys(value.items).length === 0;
+}
+
+/**
+ * Write a value as YAML lines at the given indentation
+ */
+function yamlLines(
+  value: BringValue,
+  indent: string,
+  path: PathSegment[],
+  warn: Warn
+): string[] {
+  if (value.type === "array") {
+    return value.items.flatMap((item, index) => {
+      const itemPath = [...path, index];
+      if (item.type === "primitive" || isEmpty(item)) {
+        return [`${indent}- ${yamlInline(item, itemPath, warn)}`];
+      }
+      // The first line of a nested block follows the dash
+      const [first, ...rest] = yamlLines(item, `${indent}  `, itemPath, warn);
+      return [`${indent}- ${first.trimStart()}`, ...rest];
+    });
+  }
+
+  if (value.type !== "object") {
+    return [];
+  }
+  return Object.entries(value.items).flatMap(([key, item]) => {
+    const name = `${indent}${yamlString(key)}:`;
+    const itemPath = [...path, key];
+    if (item.type === "primitive" || isEmpty(item)) {
+      return [`${name} ${yamlInline(item, itemPath, warn)}`];
+    }
+    return [name, ...yamlLines(item, `${indent}  `, itemPath, warn)];
+  });
+}
+
+function yamlInline(value: BringValue, path: PathSegment[], warn: Warn) {
+  if (value.type === "primitive") return yamlScalar(value, path, warn);
+  return value.type === "array" ? "[]" : "{}";
+}
+
+/**
+ * Write a Bring value without attributes as a YAML document
+ */
+export function writeYAML(value: BringValue, warn: Warn): string {
+  if (value.type === "primitive" || isEmpty(value)) {
+    return `${yamlInline(value, [], warn)}\n`;
+  }
+  return `${yamlLines(value, "", [], warn).join("\n")}\n`;
+}